@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { getBrandProfile, parseBrandProfileInput, removeBrandProfile, updateBrandProfile } from '@/lib/brands';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { ApiResponse, BrandProfile } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const profile = await getBrandProfile(params.id);
+  if (!profile) {
+    return jsonError(404, 'Brand profile not found');
+  }
+
+  const payload: ApiResponse<BrandProfile> = {
+    success: true,
+    data: profile,
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const body = await request.json().catch(() => ({}));
+
+  let changes;
+  try {
+    changes = parseBrandProfileInput(body, true);
+  } catch (error) {
+    return jsonError(400, error instanceof Error ? error.message : 'Invalid brand profile');
+  }
+
+  const profile = await updateBrandProfile(params.id, changes);
+  if (!profile) {
+    return jsonError(404, 'Brand profile not found');
+  }
+
+  const payload: ApiResponse<BrandProfile> = {
+    success: true,
+    data: profile,
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const removed = await removeBrandProfile(params.id);
+  if (!removed) {
+    return jsonError(404, 'Brand profile not found');
+  }
+
+  return jsonResponse({ success: true, timestamp: new Date().toISOString() });
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createBrandProfile, listBrandProfiles, parseBrandProfileInput } from '@/lib/brands';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { ApiResponse, BrandProfile } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const profiles = await listBrandProfiles();
+
+  const payload: ApiResponse<BrandProfile[]> = {
+    success: true,
+    data: profiles,
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const profile = await createBrandProfile(parseBrandProfileInput(body));
+
+    const payload: ApiResponse<BrandProfile> = {
+      success: true,
+      data: profile,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload, 201);
+  } catch (error) {
+    return jsonError(400, error instanceof Error ? error.message : 'Invalid brand profile');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { COST_PROVIDERS, getCostLedger, summarizeCosts, toCsv } from '@/lib/ledger';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { CostProvider, CostReportResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const provider = params.get('provider') || undefined;
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    const format = params.get('format') || 'json';
+
+    if (from === null || to === null) {
+      return jsonError(400, 'Invalid from/to date');
+    }
+
+    if (provider && !COST_PROVIDERS.includes(provider as CostProvider)) {
+      return jsonError(400, `Invalid provider. Expected one of: ${COST_PROVIDERS.join(', ')}`);
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      return jsonError(400, 'Invalid format. Expected json or csv');
+    }
+
+    const entries = await getCostLedger().list({
+      pipelineId: params.get('pipelineId') || undefined,
+      provider: provider as CostProvider | undefined,
+      from,
+      to,
+    });
+
+    if (format === 'csv') {
+      return new Response(toCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="costs-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    const payload: CostReportResponse = {
+      success: true,
+      data: entries,
+      summary: summarizeCosts(entries),
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload);
+  } catch (error) {
+    console.error('Cost report API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { getJobQueue } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { JobResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = await getJobQueue().get(params.id);
+
+  if (!job) {
+    return jsonError(404, 'Job not found');
+  }
+
+  const payload: JobResponse = {
+    success: true,
+    pipelineId: job.data?.pipelineId,
+    data: job,
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
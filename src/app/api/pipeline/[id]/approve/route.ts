@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { ApprovalError, approveAndResume, decideApproval, parseApprovalDecision } from '@/lib/approval';
+import { getPipelineEvents } from '@/lib/events';
+import { enqueueResume } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { JobResponse, StatusResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => null);
+    const decision = parseApprovalDecision(body);
+
+    if (decision.action === 'reject') {
+      const state = await decideApproval(params.id, decision);
+      getPipelineEvents().publish(state);
+
+      const payload: StatusResponse = {
+        success: true,
+        pipelineId: params.id,
+        data: state,
+        timestamp: new Date().toISOString(),
+      };
+      return jsonResponse(payload);
+    }
+
+    const { state, job } = await approveAndResume(params.id, decision, fromStep =>
+      enqueueResume({ pipelineId: params.id, fromStep })
+    );
+    if (!job) {
+      return jsonError(409, 'Pipeline already has a queued or running job');
+    }
+
+    getPipelineEvents().publish(state);
+
+    const payload: JobResponse = {
+      success: true,
+      pipelineId: params.id,
+      data: job,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload, 202);
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return jsonError(error.statusCode, error.message);
+    }
+    console.error('Pipeline approval API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
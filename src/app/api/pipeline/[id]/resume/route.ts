@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { ASSEMBLY_RENDERERS, PIPELINE_STEP_ORDER, getMissingCheckpoints, getResumeStep } from '@/lib/joker';
+import { getPipelineRepository } from '@/lib/storage';
+import { enqueueResume, isPipelineActive } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import { parseBudgetPolicy } from '@/lib/budget';
+import { VIDEO_GENERATORS } from '@/lib/pipeline/videoGenerator';
+import { getBrandProfile } from '@/lib/brands';
+import type { AssemblyRenderer, JobResponse, PipelineSteps, VideoGeneratorName } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { fromStep, budget, renderer, videoGenerator, productVariant, forceRefresh, brandProfileId } = body as {
+      fromStep?: string;
+      budget?: unknown;
+      renderer?: string;
+      videoGenerator?: string;
+      productVariant?: string;
+      forceRefresh?: boolean;
+      brandProfileId?: string;
+    };
+
+    if (fromStep !== undefined && !PIPELINE_STEP_ORDER.includes(fromStep as keyof PipelineSteps)) {
+      return jsonError(400, `Invalid fromStep. Expected one of: ${PIPELINE_STEP_ORDER.join(', ')}`);
+    }
+
+    if (renderer !== undefined && !ASSEMBLY_RENDERERS.includes(renderer as AssemblyRenderer)) {
+      return jsonError(400, `Invalid renderer. Expected one of: ${ASSEMBLY_RENDERERS.join(', ')}`);
+    }
+
+    if (videoGenerator !== undefined && !VIDEO_GENERATORS.includes(videoGenerator as VideoGeneratorName)) {
+      return jsonError(400, `Invalid videoGenerator. Expected one of: ${VIDEO_GENERATORS.join(', ')}`);
+    }
+
+    if (productVariant !== undefined && (typeof productVariant !== 'string' || !productVariant.trim())) {
+      return jsonError(400, 'productVariant must be a non-empty string');
+    }
+
+    if (brandProfileId !== undefined && (typeof brandProfileId !== 'string' || !(await getBrandProfile(brandProfileId)))) {
+      return jsonError(400, 'brandProfileId does not match a saved brand profile');
+    }
+
+    const stored = await getPipelineRepository().get(params.id);
+    if (!stored) {
+      return jsonError(404, 'Pipeline not found');
+    }
+
+    // A stored 'running' status with no live worker or open job is a run whose process died
+    if (await isPipelineActive(params.id)) {
+      return jsonError(409, 'Pipeline is still running');
+    }
+
+    if (stored.state.status === 'awaiting_approval') {
+      return jsonError(409, 'Pipeline is awaiting approval; use POST /api/pipeline/:id/approve');
+    }
+
+    // A forced refresh re-scrapes; switching variants changes every step after scraping, switching brands every step from content
+    const startStep = (fromStep as keyof PipelineSteps | undefined)
+      ?? (forceRefresh === true ? 'scraping'
+        : productVariant !== undefined ? 'vision'
+        : brandProfileId !== undefined ? 'content'
+        : getResumeStep(stored.state));
+    if (!startStep) {
+      return jsonError(409, 'Pipeline has already completed every step');
+    }
+
+    const missing = getMissingCheckpoints(stored.state, startStep);
+    if (missing.length > 0) {
+      return jsonError(409, `Cannot resume from ${startStep}: missing checkpoints for ${missing.join(', ')}`);
+    }
+
+    const job = await enqueueResume({
+      pipelineId: params.id,
+      fromStep: startStep,
+      budget: parseBudgetPolicy(budget),
+      renderer: renderer as AssemblyRenderer | undefined,
+      videoGenerator: videoGenerator as VideoGeneratorName | undefined,
+      productVariant: productVariant?.trim(),
+      forceRefresh: forceRefresh === true,
+      brandProfileId,
+    });
+    if (!job) {
+      return jsonError(409, 'Pipeline already has a queued or running job');
+    }
+
+    const payload: JobResponse = {
+      success: true,
+      pipelineId: params.id,
+      data: job,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload, 202);
+  } catch (error) {
+    console.error('Pipeline resume API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
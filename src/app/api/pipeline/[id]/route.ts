@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { getPipelineEvents } from '@/lib/events';
+import { getPipelineRepository } from '@/lib/storage';
+import { cancelPipeline, getJobQueue } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import { decideApproval } from '@/lib/approval';
+import type { StatusResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Prefer the in-memory snapshot of a live run over the last persisted write
+    const live = getPipelineEvents().getLatest(params.id);
+    const stored = live ? null : await getPipelineRepository().get(params.id);
+    const job = await getJobQueue().findByPipelineId(params.id);
+
+    if (!live && !stored && !job) {
+      return jsonError(404, 'Pipeline not found');
+    }
+
+    const payload: StatusResponse = {
+      success: true,
+      pipelineId: params.id,
+      data: live || stored?.state,
+      job: job || undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload);
+  } catch (error) {
+    console.error('Pipeline status API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = await cancelPipeline(params.id);
+
+    if (result === 'not_active') {
+      const stored = await getPipelineRepository().get(params.id);
+      if (!stored) {
+        return jsonError(404, 'Pipeline not found');
+      }
+      // A paused run has no worker to stop; cancelling it is the same as rejecting it
+      if (stored.state.status === 'awaiting_approval') {
+        const state = await decideApproval(params.id, { action: 'reject', note: 'Cancelled' });
+        getPipelineEvents().publish(state);
+        return jsonResponse({
+          success: true,
+          pipelineId: params.id,
+          data: { result: 'cancelled' },
+          timestamp: new Date().toISOString(),
+        }, 202);
+      }
+      return jsonError(409, `Pipeline is not running (status: ${stored.state.status})`);
+    }
+
+    return jsonResponse({
+      success: true,
+      pipelineId: params.id,
+      data: { result },
+      timestamp: new Date().toISOString(),
+    }, 202);
+  } catch (error) {
+    console.error('Pipeline cancel API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -1,12 +1,22 @@
 import { NextRequest } from 'next/server';
-import { Joker } from '@/lib/joker';
-import { PipelineState } from '@/lib/types';
+import { PipelineState, JobResponse } from '@/lib/types';
+import { getPipelineEvents } from '@/lib/events';
+import { enqueuePipeline } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import { parseBudgetPolicy } from '@/lib/budget';
+import { ASSEMBLY_RENDERERS } from '@/lib/joker';
+import { VIDEO_GENERATORS } from '@/lib/pipeline/videoGenerator';
+import { parseContentOptions } from '@/lib/pipeline/contentOptions';
+import { parseComplianceOptions } from '@/lib/pipeline/compliance';
+import { parseVisionConfig } from '@/lib/pipeline/visionProvider';
+import { getBrandProfile } from '@/lib/brands';
+import type { ComplianceOptions, ContentOptions, VisionProviderConfig } from '@/lib/types';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 interface SSEMessage {
-  type: 'step_update' | 'log' | 'cost_update' | 'complete' | 'error' | 'ping';
+  type: 'step_update' | 'log' | 'cost_update' | 'budget_exceeded' | 'awaiting_approval' | 'complete' | 'error' | 'ping';
   data: any;
 }
 
@@ -17,122 +27,231 @@ function createSSEMessage(message: SSEMessage): string {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { productUrl } = body;
+    const { productUrl, stream: wantsStream = true, priority, delaySeconds, budget, variantCount, requireApproval, renderer, videoGenerator, productVariant, forceRefresh, content, brandProfileId, compliance, vision } = body;
 
     if (!productUrl || typeof productUrl !== 'string') {
-      return new Response(
-        JSON.stringify({ error: 'Invalid productUrl' }),
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+      return jsonError(400, 'Invalid productUrl');
     }
 
-    const encoder = new TextEncoder();
-    let controller: ReadableStreamDefaultController<any>;
+    if (variantCount !== undefined && (!Number.isInteger(variantCount) || variantCount < 1)) {
+      return jsonError(400, 'variantCount must be a positive integer');
+    }
 
-    const stream = new ReadableStream({
-      start(ctrl) {
-        controller = ctrl;
-      },
-      cancel() {
-        console.log('Stream cancelled by client');
-      },
-    });
+    if (renderer !== undefined && !ASSEMBLY_RENDERERS.includes(renderer)) {
+      return jsonError(400, `renderer must be one of: ${ASSEMBLY_RENDERERS.join(', ')}`);
+    }
 
-    const sendMessage = (message: SSEMessage) => {
-      try {
-        controller.enqueue(encoder.encode(createSSEMessage(message)));
-      } catch (error) {
-        console.error('Error sending SSE message:', error);
-      }
-    };
+    if (videoGenerator !== undefined && !VIDEO_GENERATORS.includes(videoGenerator)) {
+      return jsonError(400, `videoGenerator must be one of: ${VIDEO_GENERATORS.join(', ')}`);
+    }
 
-    const joker = new Joker({
-      productUrl,
-      onStateChange: (state: PipelineState) => {
-        sendMessage({
-          type: 'step_update',
-          data: {
-            status: state.status,
-            currentStep: state.currentStep,
-            steps: state.steps,
-            progress: calculateOverallProgress(state),
-          },
-        });
+    if (productVariant !== undefined && (typeof productVariant !== 'string' || !productVariant.trim())) {
+      return jsonError(400, 'productVariant must be a non-empty string');
+    }
 
-        if (state.logs.length > 0) {
-          const latestLog = state.logs[state.logs.length - 1];
-          sendMessage({
-            type: 'log',
-            data: latestLog,
-          });
-        }
+    let contentOptions: Partial<ContentOptions> | undefined;
+    try {
+      contentOptions = parseContentOptions(content);
+    } catch (error) {
+      return jsonError(400, error instanceof Error ? error.message : 'Invalid content options');
+    }
 
-        sendMessage({
-          type: 'cost_update',
-          data: {
-            costs: state.costs,
-            totalCost: state.totalCost,
-          },
-        });
+    if (variantCount !== undefined && contentOptions?.angleCount !== undefined && variantCount > contentOptions.angleCount) {
+      return jsonError(400, 'variantCount cannot exceed content.angleCount');
+    }
+
+    if (brandProfileId !== undefined && (typeof brandProfileId !== 'string' || !(await getBrandProfile(brandProfileId)))) {
+      return jsonError(400, 'brandProfileId does not match a saved brand profile');
+    }
+
+    let complianceOptions: Partial<ComplianceOptions> | undefined;
+    try {
+      complianceOptions = parseComplianceOptions(compliance);
+    } catch (error) {
+      return jsonError(400, error instanceof Error ? error.message : 'Invalid compliance options');
+    }
+
+    let visionConfig: Partial<VisionProviderConfig> | undefined;
+    try {
+      visionConfig = parseVisionConfig(vision);
+    } catch (error) {
+      return jsonError(400, error instanceof Error ? error.message : 'Invalid vision options');
+    }
+
+    const pipelineId = crypto.randomUUID();
+    const events = getPipelineEvents();
+
+    // Subscribed before queueing: an idle worker can start the run before the stream opens,
+    // so states published in between are buffered and replayed once it does
+    const buffered: PipelineState[] = [];
+    let listener = (state: PipelineState) => {
+      buffered.push(state);
+    };
+    const unsubscribe = wantsStream ? events.subscribe(pipelineId, state => listener(state)) : null;
+
+    const job = await enqueuePipeline(
+      {
+        pipelineId,
+        productUrl,
+        budget: parseBudgetPolicy(budget),
+        variantCount,
+        requireApproval: requireApproval === true,
+        renderer,
+        videoGenerator,
+        productVariant: productVariant?.trim(),
+        forceRefresh: forceRefresh === true,
+        contentOptions,
+        brandProfileId,
+        complianceOptions,
+        vision: visionConfig,
       },
+      {
+        priority: typeof priority === 'number' ? priority : undefined,
+        delayMs: typeof delaySeconds === 'number' ? delaySeconds * 1000 : undefined,
+      }
+    ).catch(error => {
+      unsubscribe?.();
+      throw error;
     });
 
-    (async () => {
-      try {
-        sendMessage({
-          type: 'step_update',
-          data: {
-            status: 'running',
-            currentStep: 'scraping',
-            message: 'Pipeline started',
-          },
-        });
+    if (!wantsStream) {
+      const payload: JobResponse = {
+        success: true,
+        pipelineId,
+        data: job,
+        timestamp: new Date().toISOString(),
+      };
+      return jsonResponse(payload, 202);
+    }
 
-        const keepAliveInterval = setInterval(() => {
-          sendMessage({ type: 'ping', data: { timestamp: Date.now() } });
-        }, 15000);
+    const encoder = new TextEncoder();
+    let keepAliveInterval: ReturnType<typeof setInterval> | null = null;
+    let closed = false;
+
+    // The run belongs to the queue worker; closing this stream only stops listening
+    const cleanup = () => {
+      closed = true;
+      unsubscribe?.();
+      if (keepAliveInterval) clearInterval(keepAliveInterval);
+    };
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const sendMessage = (message: SSEMessage) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(createSSEMessage(message)));
+          } catch (error) {
+            console.error('Error sending SSE message:', error);
+          }
+        };
 
-        const result = await joker.run();
+        const finish = () => {
+          if (closed) return;
+          cleanup();
+          controller.close();
+        };
 
-        clearInterval(keepAliveInterval);
+        let budgetEventsSent = 0;
 
-        if (result.status === 'success') {
+        const handleState = (state: PipelineState) => {
           sendMessage({
-            type: 'complete',
+            type: 'step_update',
             data: {
-              status: 'success',
-              videoUrl: result.finalVideo?.url,
-              totalCost: result.totalCost,
-              costs: result.costs,
-              completedAt: result.completedAt,
+              pipelineId: state.id,
+              status: state.status,
+              currentStep: state.currentStep,
+              steps: state.steps,
+              progress: calculateOverallProgress(state),
             },
           });
-        } else {
+
+          if (state.logs.length > 0) {
+            const latestLog = state.logs[state.logs.length - 1];
+            sendMessage({
+              type: 'log',
+              data: latestLog,
+            });
+          }
+
           sendMessage({
-            type: 'error',
+            type: 'cost_update',
             data: {
-              status: 'failed',
-              error: 'Pipeline failed',
-              currentStep: result.currentStep,
+              costs: state.costs,
+              totalCost: state.totalCost,
             },
           });
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+          const budgetEvents = state.budgetEvents || [];
+          for (const event of budgetEvents.slice(budgetEventsSent)) {
+            sendMessage({
+              type: 'budget_exceeded',
+              data: { pipelineId: state.id, ...event },
+            });
+          }
+          budgetEventsSent = budgetEvents.length;
+
+          if (state.status === 'awaiting_approval') {
+            sendMessage({
+              type: 'awaiting_approval',
+              data: {
+                pipelineId: state.id,
+                angles: state.marketingAngles,
+                compliance: state.compliance,
+                variantCount: state.variantCount,
+                approveUrl: `/api/pipeline/${state.id}/approve`,
+              },
+            });
+            finish();
+          } else if (state.status === 'completed') {
+            sendMessage({
+              type: 'complete',
+              data: {
+                status: 'success',
+                pipelineId: state.id,
+                videoUrl: state.finalVideoUrl || state.finalVideo?.url,
+                variants: state.variants,
+                totalCost: state.totalCost,
+                costs: state.costs,
+                completedAt: state.endTime,
+              },
+            });
+            finish();
+          } else if (state.status === 'failed' || state.status === 'cancelled') {
+            sendMessage({
+              type: 'error',
+              data: {
+                status: state.status,
+                pipelineId: state.id,
+                error: state.error || 'Pipeline failed',
+                currentStep: state.currentStep,
+              },
+            });
+            finish();
+          }
+        };
+
         sendMessage({
-          type: 'error',
+          type: 'step_update',
           data: {
-            status: 'failed',
-            error: errorMessage,
+            pipelineId,
+            jobId: job.id,
+            status: 'queued',
+            message: 'Pipeline queued',
           },
         });
-      } finally {
-        controller.close();
-      }
-    })();
+
+        listener = handleState;
+        buffered.splice(0).forEach(handleState);
+        keepAliveInterval = setInterval(() => {
+          sendMessage({ type: 'ping', data: { timestamp: Date.now() } });
+        }, 15000);
+      },
+      cancel() {
+        console.log('Stream cancelled by client; pipeline continues in the background');
+        cleanup();
+      },
+    });
 
     return new Response(stream, {
       headers: {
@@ -145,11 +264,11 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Pipeline API error:', error);
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: 'Internal server error',
         message: error instanceof Error ? error.message : 'Unknown error',
       }),
-      { 
+      {
         status: 500,
         headers: { 'Content-Type': 'application/json' },
       }
@@ -161,4 +280,4 @@ function calculateOverallProgress(state: PipelineState): number {
   const steps = Object.values(state.steps);
   const totalProgress = steps.reduce((sum, step) => sum + step.progress, 0);
   return Math.round(totalProgress / steps.length);
-}
\ No newline at end of file
+}
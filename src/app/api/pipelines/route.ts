@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { getPipelineRepository } from '@/lib/storage';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { PipelineListResponse, PipelineState } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function parseDate(value: string | null): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? NaN : time;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const statuses = params.get('status')?.split(',').map(s => s.trim()).filter(Boolean) || [];
+    const urlFilter = params.get('url')?.toLowerCase() || '';
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(params.get('pageSize') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE)
+    );
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return jsonError(400, 'Invalid from/to date');
+    }
+
+    const records = await getPipelineRepository().list();
+    const filtered = records.filter(record => {
+      const createdAt = new Date(record.createdAt).getTime();
+      if (statuses.length > 0 && !statuses.includes(record.state.status)) return false;
+      if (urlFilter && !record.state.productUrl.toLowerCase().includes(urlFilter)) return false;
+      if (from !== null && createdAt < from) return false;
+      if (to !== null && createdAt > to) return false;
+      return true;
+    });
+
+    const start = (page - 1) * pageSize;
+    // Listing omits per-run logs to keep pages small; fetch a single pipeline for the full state
+    const data: PipelineState[] = filtered
+      .slice(start, start + pageSize)
+      .map(record => ({ ...record.state, logs: [] }));
+
+    const payload: PipelineListResponse = {
+      success: true,
+      data,
+      pagination: {
+        page,
+        pageSize,
+        total: filtered.length,
+        totalPages: Math.ceil(filtered.length / pageSize),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload);
+  } catch (error) {
+    console.error('Pipeline list API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { getRenderPath } from '@/lib/pipeline/ffmpeg';
+import { jsonError } from '@/lib/api';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function streamFile(filePath: string, start?: number, end?: number): ReadableStream {
+  return Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream;
+}
+
+// Video players seek with Range requests, so partial content is supported
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const filePath = getRenderPath(params.id);
+  if (!filePath) {
+    return jsonError(400, 'Invalid render id');
+  }
+
+  try {
+    const { size } = await fs.stat(filePath);
+    const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? parseInt(range[1], 10) : Math.max(0, size - parseInt(range[2], 10));
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+      if (start >= size || start > end) {
+        return new Response(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${size}` },
+        });
+      }
+
+      return new Response(streamFile(filePath, start, end), {
+        status: 206,
+        headers: {
+          'Content-Type': 'video/mp4',
+          'Content-Length': String(end - start + 1),
+          'Content-Range': `bytes ${start}-${end}/${size}`,
+          'Accept-Ranges': 'bytes',
+        },
+      });
+    }
+
+    return new Response(streamFile(filePath), {
+      headers: {
+        'Content-Type': 'video/mp4',
+        'Content-Length': String(size),
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return jsonError(404, 'Render not found');
+    }
+    console.error('Render download API error:', error);
+    return jsonError(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
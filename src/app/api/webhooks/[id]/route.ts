@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { getEndpoint, maskSecret, removeEndpoint, updateEndpoint } from '@/lib/webhooks';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { ApiResponse, WebhookEndpoint } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const endpoint = await getEndpoint(params.id);
+  if (!endpoint) {
+    return jsonError(404, 'Webhook not found');
+  }
+
+  const payload: ApiResponse<WebhookEndpoint> = {
+    success: true,
+    data: maskSecret(endpoint),
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const body = await request.json().catch(() => ({}));
+  const { active, events, description } = body;
+
+  if (events !== undefined && (!Array.isArray(events) || events.length === 0)) {
+    return jsonError(400, 'events must be a non-empty array');
+  }
+
+  let endpoint: WebhookEndpoint | null;
+  try {
+    endpoint = await updateEndpoint(params.id, {
+      ...(typeof active === 'boolean' ? { active } : {}),
+      ...(events !== undefined ? { events } : {}),
+      ...(typeof description === 'string' ? { description } : {}),
+    });
+  } catch (error) {
+    return jsonError(400, error instanceof Error ? error.message : 'Invalid webhook');
+  }
+
+  if (!endpoint) {
+    return jsonError(404, 'Webhook not found');
+  }
+
+  const payload: ApiResponse<WebhookEndpoint> = {
+    success: true,
+    data: maskSecret(endpoint),
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const removed = await removeEndpoint(params.id);
+  if (!removed) {
+    return jsonError(404, 'Webhook not found');
+  }
+
+  return jsonResponse({ success: true, timestamp: new Date().toISOString() });
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { redeliver } from '@/lib/webhooks';
+import { enqueueWebhookDelivery } from '@/lib/queue';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { ApiResponse, WebhookDelivery } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const delivery = await redeliver(params.id, enqueueWebhookDelivery);
+
+    const payload: ApiResponse<WebhookDelivery> = {
+      success: true,
+      data: delivery,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload, 202);
+  } catch (error) {
+    return jsonError(404, error instanceof Error ? error.message : 'Delivery not found');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { listDeliveries } from '@/lib/webhooks';
+import { jsonResponse } from '@/lib/api';
+import type { ApiResponse, WebhookDelivery } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DELIVERY_STATUSES: WebhookDelivery['status'][] = ['pending', 'succeeded', 'failed'];
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status') as WebhookDelivery['status'] | null;
+  const limit = Math.min(500, Math.max(1, parseInt(params.get('limit') || '100', 10) || 100));
+
+  const deliveries = await listDeliveries({
+    endpointId: params.get('endpointId') || undefined,
+    pipelineId: params.get('pipelineId') || undefined,
+    status: status && DELIVERY_STATUSES.includes(status) ? status : undefined,
+  });
+
+  const payload: ApiResponse<WebhookDelivery[]> = {
+    success: true,
+    data: deliveries.slice(0, limit),
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
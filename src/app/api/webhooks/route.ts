@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { listEndpoints, maskSecret, registerEndpoint } from '@/lib/webhooks';
+import { jsonError, jsonResponse } from '@/lib/api';
+import type { ApiResponse, WebhookEndpoint } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const endpoints = await listEndpoints();
+
+  const payload: ApiResponse<WebhookEndpoint[]> = {
+    success: true,
+    data: endpoints.map(maskSecret),
+    timestamp: new Date().toISOString(),
+  };
+
+  return jsonResponse(payload);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, events, secret, description } = body;
+
+    if (!url || typeof url !== 'string') {
+      return jsonError(400, 'Invalid url');
+    }
+
+    if (events !== undefined && !Array.isArray(events)) {
+      return jsonError(400, 'events must be an array');
+    }
+
+    // The full secret is only returned once, at registration
+    const endpoint = await registerEndpoint({ url, events, secret, description });
+
+    const payload: ApiResponse<WebhookEndpoint> = {
+      success: true,
+      data: endpoint,
+      timestamp: new Date().toISOString(),
+    };
+
+    return jsonResponse(payload, 201);
+  } catch (error) {
+    return jsonError(400, error instanceof Error ? error.message : 'Invalid webhook');
+  }
+}
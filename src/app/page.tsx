@@ -4,13 +4,15 @@ import { useState, useEffect, useRef } from 'react';
 import { usePipelineStore } from '@/lib/store';
 import { PipelineLog } from '@/lib/types';
 
-type StepName = 'scraping' | 'vision' | 'background' | 'content' | 'video' | 'assembly';
+type StepName = 'scraping' | 'vision' | 'background' | 'reviews' | 'content' | 'compliance' | 'video' | 'assembly';
 
 const stepLabels: Record<StepName, string> = {
   scraping: 'Product Scraping',
   vision: 'Vision Analysis',
   background: 'Background Removal',
+  reviews: 'Review Mining',
   content: 'Content Generation',
+  compliance: 'Compliance Check',
   video: 'Video Generation',
   assembly: 'Final Assembly',
 };
@@ -19,7 +21,9 @@ const stepIcons: Record<StepName, string> = {
   scraping: '🔍',
   vision: '👁️',
   background: '✂️',
+  reviews: '💬',
   content: '✍️',
+  compliance: '🛡️',
   video: '🎬',
   assembly: '🎞️',
 };
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, XCircle, Loader2, ClipboardCheck } from 'lucide-react';
+import { usePipelineStore } from '@/lib/store';
+import type { MarketingAngle } from '@/lib/types';
+
+interface ApprovalPanelProps {
+  onDecision: (action: 'approve' | 'reject') => void;
+}
+
+type EditableAngle = Pick<MarketingAngle, 'id' | 'hook' | 'script' | 'tone'> & { selected: boolean };
+
+export default function ApprovalPanel({ onDecision }: ApprovalPanelProps) {
+  const { pendingApproval, setPendingApproval } = usePipelineStore();
+  const [angles, setAngles] = useState<EditableAngle[]>(
+    () => (pendingApproval?.angles || []).map((angle) => ({
+      id: angle.id,
+      hook: angle.hook,
+      script: angle.script,
+      tone: angle.tone,
+      selected: true,
+    }))
+  );
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!pendingApproval) return null;
+
+  const selectedCount = angles.filter((angle) => angle.selected).length;
+
+  const updateAngle = (id: string, changes: Partial<EditableAngle>) => {
+    setAngles((prev) => prev.map((angle) => (angle.id === id ? { ...angle, ...changes } : angle)));
+  };
+
+  const submit = async (action: 'approve' | 'reject') => {
+    setSubmitting(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/pipeline/${pendingApproval.pipelineId}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          note: note.trim() || undefined,
+          angles: action === 'approve'
+            ? angles
+                .filter((angle) => angle.selected)
+                .map(({ id, hook, script, tone }) => ({ id, hook, script, tone }))
+            : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setPendingApproval(null);
+      onDecision(action);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit decision');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gray-900 border border-purple-500/50 rounded-lg p-6 mb-6 space-y-4"
+    >
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="w-5 h-5 text-purple-400" />
+        <h3 className="text-lg font-semibold">Review marketing angles</h3>
+      </div>
+      <p className="text-sm text-gray-400">
+        Pick the angles to render as videos and adjust their hook, script or tone before the expensive video step runs.
+      </p>
+
+      <div className="space-y-4">
+        {angles.map((angle) => (
+          <div
+            key={angle.id}
+            className={`rounded-lg border p-4 space-y-3 transition-colors ${
+              angle.selected ? 'border-purple-500 bg-gray-800' : 'border-gray-700 bg-gray-800/40 opacity-60'
+            }`}
+          >
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={angle.selected}
+                onChange={(e) => updateAngle(angle.id, { selected: e.target.checked })}
+                className="accent-purple-500"
+              />
+              Render this angle
+            </label>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Hook</label>
+              <input
+                type="text"
+                value={angle.hook}
+                onChange={(e) => updateAngle(angle.id, { hook: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Script</label>
+              <textarea
+                value={angle.script}
+                onChange={(e) => updateAngle(angle.id, { script: e.target.value })}
+                rows={4}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Tone</label>
+              <input
+                type="text"
+                value={angle.tone}
+                onChange={(e) => updateAngle(angle.id, { tone: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Note (optional)</label>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Reason or instructions for the record"
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+      </div>
+
+      {error && (
+        <div className="px-4 py-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={() => submit('reject')}
+          disabled={submitting !== null}
+          className="px-4 py-2 bg-gray-700 rounded-lg font-medium hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {submitting === 'reject' ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4 text-red-400" />}
+          Reject
+        </button>
+        <button
+          onClick={() => submit('approve')}
+          disabled={submitting !== null || selectedCount === 0}
+          className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 rounded-lg font-semibold hover:from-purple-600 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {submitting === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+          Approve {selectedCount} angle{selectedCount === 1 ? '' : 's'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -8,6 +8,7 @@ import PipelineStatus from './PipelineStatus';
 import JokerChat from './JokerChat';
 import ResultsView from './ResultsView';
 import LogsView from './LogsView';
+import ApprovalPanel from './ApprovalPanel';
 
 type Tab = 'pipeline' | 'chat' | 'results' | 'logs';
 
@@ -16,9 +17,13 @@ export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<Tab>('pipeline');
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [productVariant, setProductVariant] = useState('');
+  const [forceRefresh, setForceRefresh] = useState(false);
 
   const {
     status,
+    pendingApproval,
     setStatus,
     setProgress,
     addLog,
@@ -27,9 +32,52 @@ export default function Dashboard() {
     setCosts,
     setCurrentStep,
     setSteps,
+    setPendingApproval,
     reset,
   } = usePipelineStore();
 
+  // After approval the run continues in a queue worker, so follow it by polling its status
+  const watchPipeline = async (pipelineId: string) => {
+    setStatus('running');
+
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+
+      try {
+        const response = await fetch(`/api/pipeline/${pipelineId}`);
+        if (!response.ok) continue;
+
+        const { data } = await response.json();
+        if (!data) continue;
+
+        if (data.steps) setSteps(data.steps);
+        if (data.costs) setCosts(data.costs);
+
+        if (data.status === 'completed') {
+          setVideoUrl(data.finalVideoUrl || null);
+          setStatus('success');
+          return;
+        }
+        if (data.status === 'failed' || data.status === 'cancelled') {
+          setError(data.error || 'Pipeline failed');
+          setStatus('failed');
+          return;
+        }
+      } catch (err) {
+        console.error('Failed to poll pipeline status:', err);
+      }
+    }
+  };
+
+  const handleApprovalDecision = (pipelineId: string) => (action: 'approve' | 'reject') => {
+    if (action === 'reject') {
+      setStatus('failed');
+      setError('Angles rejected; no video was generated');
+      return;
+    }
+    void watchPipeline(pipelineId);
+  };
+
   const validateUrl = (url: string): boolean => {
     try {
       new URL(url);
@@ -61,7 +109,12 @@ export default function Dashboard() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ productUrl }),
+        body: JSON.stringify({
+          productUrl,
+          requireApproval,
+          productVariant: productVariant.trim() || undefined,
+          forceRefresh,
+        }),
       });
 
       if (!response.ok) {
@@ -147,6 +200,14 @@ export default function Dashboard() {
                 setVideoUrl(event.url);
                 break;
 
+              case 'awaiting_approval':
+                setPendingApproval({
+                  pipelineId: event.data.pipelineId,
+                  angles: event.data.angles,
+                });
+                setActiveTab('pipeline');
+                break;
+
               case 'costs':
                 setCosts(event.costs);
                 break;
@@ -248,6 +309,39 @@ export default function Dashboard() {
               </button>
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={requireApproval}
+                onChange={(e) => setRequireApproval(e.target.checked)}
+                disabled={isGenerating}
+                className="accent-purple-500"
+              />
+              Review marketing angles before generating video
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={forceRefresh}
+                onChange={(e) => setForceRefresh(e.target.checked)}
+                disabled={isGenerating}
+                className="accent-purple-500"
+              />
+              Re-scrape product (ignore cache)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Variant
+              <input
+                type="text"
+                value={productVariant}
+                onChange={(e) => setProductVariant(e.target.value)}
+                placeholder="SKU or options, e.g. Red / M"
+                disabled={isGenerating}
+                className="px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+              />
+            </label>
+          </div>
           {error && (
             <motion.div
               initial={{ opacity: 0, y: -10 }}
@@ -291,6 +385,12 @@ export default function Dashboard() {
           </div>
 
           <div className="p-6">
+            {activeTab === 'pipeline' && pendingApproval && (
+              <ApprovalPanel
+                key={pendingApproval.pipelineId}
+                onDecision={handleApprovalDecision(pendingApproval.pipelineId)}
+              />
+            )}
             {activeTab === 'pipeline' && <PipelineStatus />}
             {activeTab === 'chat' && <JokerChat />}
             {activeTab === 'results' && <ResultsView />}
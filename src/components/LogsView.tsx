@@ -55,7 +55,9 @@ export default function LogsView() {
       scraping: 'text-blue-400',
       vision: 'text-cyan-400',
       background: 'text-teal-400',
+      reviews: 'text-green-300',
       content: 'text-green-400',
+      compliance: 'text-emerald-300',
       video: 'text-emerald-400',
       assembly: 'text-lime-400',
       system: 'text-purple-400',
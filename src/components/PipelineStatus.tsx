@@ -6,7 +6,9 @@ import {
   Search,
   Eye,
   Palette,
+  MessageSquareQuote,
   FileText,
+  ShieldCheck,
   Video,
   Wand2,
   CheckCircle2,
@@ -22,7 +24,9 @@ const stepConfig = [
   { key: 'scraping', label: 'Scraping', icon: Search, color: 'from-blue-500 to-cyan-500' },
   { key: 'vision', label: 'Vision', icon: Eye, color: 'from-cyan-500 to-teal-500' },
   { key: 'background', label: 'Background', icon: Palette, color: 'from-teal-500 to-green-500' },
+  { key: 'reviews', label: 'Reviews', icon: MessageSquareQuote, color: 'from-green-500 to-green-600' },
   { key: 'content', label: 'Content', icon: FileText, color: 'from-green-500 to-emerald-500' },
+  { key: 'compliance', label: 'Compliance', icon: ShieldCheck, color: 'from-emerald-500 to-emerald-600' },
   { key: 'video', label: 'Video', icon: Video, color: 'from-emerald-500 to-lime-500' },
   { key: 'assembly', label: 'Assembly', icon: Wand2, color: 'from-lime-500 to-yellow-500' },
 ] as const;
@@ -0,0 +1,7 @@
+export async function register() {
+  // Start queue workers at boot so jobs left pending by a previous process resume without a new request
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getWorkerPool } = await import('./lib/queue');
+    getWorkerPool();
+  }
+}
@@ -0,0 +1,17 @@
+import type { ApiResponse } from './types';
+
+export function jsonResponse<T extends object>(body: T, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function jsonError(status: number, error: string): Response {
+  const body: ApiResponse = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  };
+  return jsonResponse(body, status);
+}
@@ -0,0 +1,192 @@
+import { getBrandProfile } from './brands';
+import { applyBrandFixes, findBrandViolations } from './pipeline/brandVoice';
+import { getPipelineRepository } from './storage';
+import { snapshotState } from './storage/repository';
+import type { PipelineRepository } from './storage';
+import type { MarketingAngle, PipelineState, PipelineSteps } from './types';
+
+export class ApprovalError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+export interface AngleEdit {
+  id: string;
+  hook?: string;
+  script?: string;
+  tone?: string;
+}
+
+export interface ApprovalDecision {
+  action: 'approve' | 'reject';
+  /** Angles to render, in order, with optional edits. Omit to approve every angle as generated */
+  angles?: AngleEdit[];
+  note?: string;
+}
+
+const EDITABLE_FIELDS = ['hook', 'script', 'tone'] as const;
+
+export function parseApprovalDecision(input: unknown): ApprovalDecision {
+  if (!input || typeof input !== 'object') {
+    throw new ApprovalError('Request body must be a JSON object', 400);
+  }
+
+  const raw = input as Record<string, any>;
+  if (raw.action !== 'approve' && raw.action !== 'reject') {
+    throw new ApprovalError('action must be "approve" or "reject"', 400);
+  }
+
+  if (raw.note !== undefined && typeof raw.note !== 'string') {
+    throw new ApprovalError('note must be a string', 400);
+  }
+
+  let angles: AngleEdit[] | undefined;
+  if (raw.angles !== undefined) {
+    if (!Array.isArray(raw.angles) || raw.angles.length === 0) {
+      throw new ApprovalError('angles must be a non-empty array', 400);
+    }
+
+    angles = raw.angles.map((angle: any, index: number) => {
+      if (!angle || typeof angle.id !== 'string') {
+        throw new ApprovalError(`angles[${index}].id is required`, 400);
+      }
+
+      const edit: AngleEdit = { id: angle.id };
+      for (const field of EDITABLE_FIELDS) {
+        if (angle[field] === undefined) continue;
+        if (typeof angle[field] !== 'string' || !angle[field].trim()) {
+          throw new ApprovalError(`angles[${index}].${field} must be a non-empty string`, 400);
+        }
+        edit[field] = angle[field].trim();
+      }
+      return edit;
+    });
+  }
+
+  return { action: raw.action, angles, note: raw.note };
+}
+
+function applyAngleEdits(available: MarketingAngle[], edits: AngleEdit[]): MarketingAngle[] {
+  const seen = new Set<string>();
+
+  return edits.map(edit => {
+    const angle = available.find(a => a.id === edit.id);
+    if (!angle) {
+      throw new ApprovalError(`Unknown angle ${edit.id}`, 400);
+    }
+    if (seen.has(edit.id)) {
+      throw new ApprovalError(`Angle ${edit.id} selected more than once`, 400);
+    }
+    seen.add(edit.id);
+
+    return {
+      ...angle,
+      hook: edit.hook ?? angle.hook,
+      script: edit.script ?? angle.script,
+      tone: edit.tone ?? angle.tone,
+    };
+  });
+}
+
+/**
+ * Edited angles hold text the pipeline never checked, so they run through the brand
+ * voice auto-fixes here and are refused when the profile's rules still fail.
+ */
+async function checkEditedAngles(state: PipelineState, angles: MarketingAngle[]): Promise<MarketingAngle[]> {
+  if (!state.brandProfileId) return angles;
+
+  const brand = await getBrandProfile(state.brandProfileId);
+  if (!brand) {
+    throw new ApprovalError(`Brand profile ${state.brandProfileId} not found; it may have been deleted since the run started`, 409);
+  }
+
+  return angles.map(angle => {
+    const fixed = applyBrandFixes(angle, brand).angle;
+    const violations = findBrandViolations(fixed, brand);
+    if (violations.length > 0) {
+      const details = violations.map(violation => `${violation.field} ${violation.message}`).join('; ');
+      throw new ApprovalError(`Angle ${angle.id} breaks the ${brand.name} brand voice: ${details}`, 400);
+    }
+    return fixed;
+  });
+}
+
+/** Where an approved run picks up: edited angles go back through the compliance check first */
+export function getApprovalResumeStep(decision: ApprovalDecision): keyof PipelineSteps {
+  return decision.angles?.some(angle => EDITABLE_FIELDS.some(field => angle[field] !== undefined))
+    ? 'compliance'
+    : 'video';
+}
+
+/**
+ * Records a reviewer's decision on a paused pipeline. Approved runs keep the selected
+ * (and possibly edited) angles and are ready to resume (see getApprovalResumeStep); rejected
+ * runs are closed as cancelled.
+ */
+export async function decideApproval(
+  pipelineId: string,
+  decision: ApprovalDecision,
+  repository: PipelineRepository = getPipelineRepository()
+): Promise<PipelineState> {
+  const stored = await repository.get(pipelineId);
+  if (!stored) {
+    throw new ApprovalError('Pipeline not found', 404);
+  }
+
+  const state = stored.state;
+  if (state.status !== 'awaiting_approval') {
+    throw new ApprovalError(`Pipeline is not awaiting approval (status: ${state.status})`, 409);
+  }
+
+  if (state.approval?.status === 'approved') {
+    throw new ApprovalError('Pipeline has already been approved and is waiting to resume', 409);
+  }
+
+  const now = new Date().toISOString();
+  const approval = {
+    requestedAt: state.approval?.requestedAt || now,
+    decidedAt: now,
+    note: decision.note,
+  };
+
+  if (decision.action === 'reject') {
+    state.status = 'cancelled';
+    state.error = decision.note ? `Rejected during review: ${decision.note}` : 'Rejected during review';
+    state.endTime = now;
+    state.approval = { ...approval, status: 'rejected' };
+  } else {
+    if (decision.angles) {
+      state.marketingAngles = await checkEditedAngles(state, applyAngleEdits(state.marketingAngles, decision.angles));
+      state.variantCount = decision.angles.length;
+    }
+    state.approval = { ...approval, status: 'approved' };
+  }
+
+  await repository.save(state);
+  return state;
+}
+
+/**
+ * Approves a paused pipeline and queues its resume with `enqueue`. The approval only sticks
+ * once the resume is queued: when `enqueue` returns null the run is saved back as it was,
+ * still awaiting approval, so the reviewer can approve again rather than hit the repeat 409.
+ */
+export async function approveAndResume<J>(
+  pipelineId: string,
+  decision: ApprovalDecision,
+  enqueue: (fromStep: keyof PipelineSteps) => Promise<J | null>,
+  repository: PipelineRepository = getPipelineRepository()
+): Promise<{ state: PipelineState; job: J | null }> {
+  const stored = await repository.get(pipelineId);
+  const previous = stored ? snapshotState(stored.state) : null;
+
+  const state = await decideApproval(pipelineId, decision, repository);
+  const job = await enqueue(getApprovalResumeStep(decision));
+  if (!job && previous) {
+    await repository.save(previous);
+    return { state: previous, job };
+  }
+  return { state, job };
+}
@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto';
+import { JsonCollection } from '../storage/jsonCollection';
+import { getDataDir } from '../storage/fsUtils';
+import type { BrandProfile, EmojiPolicy } from '../types';
+
+export const EMOJI_POLICIES: EmojiPolicy[] = ['none', 'sparing', 'free'];
+
+const MAX_LIST_ENTRIES = 50;
+const MAX_EXAMPLE_SCRIPTS = 5;
+const MAX_TEXT_LENGTH = 2000;
+
+export type BrandProfileInput = Omit<BrandProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+type BrandGlobal = typeof globalThis & {
+  __ugcBrandProfiles?: JsonCollection<BrandProfile>;
+};
+
+function getBrandStore(): JsonCollection<BrandProfile> {
+  const g = globalThis as BrandGlobal;
+  if (!g.__ugcBrandProfiles) {
+    g.__ugcBrandProfiles = new JsonCollection(getDataDir('brands', 'profiles.json'));
+  }
+  return g.__ugcBrandProfiles;
+}
+
+function generateId(): string {
+  return `brand_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`;
+}
+
+function parseText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field} must be a non-empty string`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new Error(`${field} must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function parseList(value: unknown, field: string, maxEntries: number = MAX_LIST_ENTRIES): string[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  if (value.length > maxEntries) {
+    throw new Error(`${field} allows at most ${maxEntries} entries`);
+  }
+  return Array.from(new Set(value.map((entry, index) => parseText(entry, `${field}[${index}]`))));
+}
+
+/**
+ * Validates a brand profile body. With `partial` only the fields present are checked and
+ * returned, for PATCH; otherwise `name` and `voice` are required and lists default to empty.
+ */
+export function parseBrandProfileInput(input: unknown, partial: true): Partial<BrandProfileInput>;
+export function parseBrandProfileInput(input: unknown, partial?: false): BrandProfileInput;
+export function parseBrandProfileInput(input: unknown, partial: boolean = false): Partial<BrandProfileInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const profile: Partial<BrandProfileInput> = {};
+
+  if (raw.name !== undefined || !partial) profile.name = parseText(raw.name, 'name');
+  if (raw.voice !== undefined || !partial) profile.voice = parseText(raw.voice, 'voice');
+
+  const lists = ['bannedWords', 'mandatoryClaims', 'disclaimers', 'preferredCtas'] as const;
+  for (const field of lists) {
+    if (raw[field] !== undefined) {
+      profile[field] = parseList(raw[field], field);
+    } else if (!partial) {
+      profile[field] = [];
+    }
+  }
+
+  if (raw.exampleScripts !== undefined) {
+    profile.exampleScripts = parseList(raw.exampleScripts, 'exampleScripts', MAX_EXAMPLE_SCRIPTS);
+  } else if (!partial) {
+    profile.exampleScripts = [];
+  }
+
+  if (raw.emojiPolicy !== undefined) {
+    if (!EMOJI_POLICIES.includes(raw.emojiPolicy as EmojiPolicy)) {
+      throw new Error(`emojiPolicy must be one of: ${EMOJI_POLICIES.join(', ')}`);
+    }
+    profile.emojiPolicy = raw.emojiPolicy as EmojiPolicy;
+  } else if (!partial) {
+    profile.emojiPolicy = 'sparing';
+  }
+
+  return profile;
+}
+
+export function createBrandProfile(input: BrandProfileInput): Promise<BrandProfile> {
+  const now = new Date().toISOString();
+  return getBrandStore().upsert({
+    ...input,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function listBrandProfiles(): Promise<BrandProfile[]> {
+  return getBrandStore().list();
+}
+
+export function getBrandProfile(id: string): Promise<BrandProfile | null> {
+  return getBrandStore().get(id);
+}
+
+export function updateBrandProfile(id: string, changes: Partial<BrandProfileInput>): Promise<BrandProfile | null> {
+  return getBrandStore().update(id, { ...changes, updatedAt: new Date().toISOString() });
+}
+
+export function removeBrandProfile(id: string): Promise<boolean> {
+  return getBrandStore().remove(id);
+}
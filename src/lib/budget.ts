@@ -0,0 +1,207 @@
+import { APIFY_COST_PER_CALL } from './pipeline/apify';
+import { ESTIMATED_COST_PER_ANALYSIS } from './pipeline/vision';
+import { COST_PER_IMAGE } from './pipeline/removebg';
+import { ESTIMATED_COST_PER_GENERATION } from './pipeline/mistral';
+import { getBilledScriptProvider } from './pipeline/scriptGenerator';
+import { ESTIMATED_COST_PER_JUDGEMENT } from './pipeline/compliance';
+import { ESTIMATED_COST_PER_REVIEW_ANALYSIS } from './pipeline/reviews';
+import { COST_PER_REQUEST } from './pipeline/vidgo';
+import { COST_PER_RENDER } from './pipeline/shotstack';
+import { COST_PROVIDERS, getCostLedger } from './ledger';
+import type { BudgetEvent, BudgetPolicy, CostProvider, PipelineSteps } from './types';
+
+export const STEP_COST_PROVIDERS: Record<keyof PipelineSteps, CostProvider> = {
+  scraping: 'apify',
+  vision: 'openai',
+  background: 'removebg',
+  reviews: 'mistral',
+  content: 'mistral',
+  compliance: 'mistral',
+  video: 'vidgo',
+  assembly: 'shotstack',
+};
+
+const SCRIPT_STEPS: (keyof PipelineSteps)[] = ['reviews', 'content', 'compliance'];
+
+/** The provider the step's next call would bill: script steps follow the SCRIPT_PROVIDERS chain */
+export function getStepCostProvider(step: keyof PipelineSteps): CostProvider {
+  if (SCRIPT_STEPS.includes(step)) {
+    return getBilledScriptProvider() ?? STEP_COST_PROVIDERS[step];
+  }
+  return STEP_COST_PROVIDERS[step];
+}
+
+/** Known price of one call to each step's provider, used to project spend before paying */
+export const STEP_UNIT_PRICES: Record<keyof PipelineSteps, number> = {
+  scraping: APIFY_COST_PER_CALL,
+  vision: ESTIMATED_COST_PER_ANALYSIS,
+  background: COST_PER_IMAGE,
+  reviews: ESTIMATED_COST_PER_REVIEW_ANALYSIS,
+  content: ESTIMATED_COST_PER_GENERATION,
+  compliance: ESTIMATED_COST_PER_JUDGEMENT,
+  video: COST_PER_REQUEST,
+  assembly: COST_PER_RENDER,
+};
+
+export class BudgetExceededError extends Error {
+  public readonly code = 'budget_exceeded';
+
+  constructor(public readonly event: BudgetEvent) {
+    super(`budget_exceeded: ${event.message}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface DailySpend {
+  total: number;
+  byProvider: Record<CostProvider, number>;
+}
+
+function readCap(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export function getDefaultBudgetPolicy(): BudgetPolicy {
+  const maxPerProvider: Partial<Record<CostProvider, number>> = {};
+  for (const provider of COST_PROVIDERS) {
+    const cap = readCap(process.env[`BUDGET_MAX_PER_PROVIDER_${provider.toUpperCase()}`]);
+    if (cap !== undefined) {
+      maxPerProvider[provider] = cap;
+    }
+  }
+
+  return {
+    maxPerPipeline: readCap(process.env.BUDGET_MAX_PER_PIPELINE),
+    maxPerDay: readCap(process.env.BUDGET_MAX_PER_DAY),
+    maxPerProvider,
+  };
+}
+
+/** Per-run overrides can only tighten the server-wide caps, never loosen them */
+export function mergeBudgetPolicies(base: BudgetPolicy, override?: BudgetPolicy): BudgetPolicy {
+  if (!override) return base;
+
+  const tighter = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.min(a, b);
+
+  const maxPerProvider: Partial<Record<CostProvider, number>> = { ...base.maxPerProvider };
+  for (const provider of COST_PROVIDERS) {
+    const cap = tighter(base.maxPerProvider?.[provider], override.maxPerProvider?.[provider]);
+    if (cap !== undefined) {
+      maxPerProvider[provider] = cap;
+    }
+  }
+
+  return {
+    maxPerPipeline: tighter(base.maxPerPipeline, override.maxPerPipeline),
+    maxPerDay: tighter(base.maxPerDay, override.maxPerDay),
+    maxPerProvider,
+  };
+}
+
+export function parseBudgetPolicy(input: unknown): BudgetPolicy | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const raw = input as Record<string, any>;
+  const asCap = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+  const maxPerProvider: Partial<Record<CostProvider, number>> = {};
+  for (const provider of COST_PROVIDERS) {
+    const cap = asCap(raw.maxPerProvider?.[provider]);
+    if (cap !== undefined) {
+      maxPerProvider[provider] = cap;
+    }
+  }
+
+  return {
+    maxPerPipeline: asCap(raw.maxPerPipeline),
+    maxPerDay: asCap(raw.maxPerDay),
+    maxPerProvider,
+  };
+}
+
+/**
+ * Spend so far today (UTC) from the cost ledger. Excludes the calling pipeline,
+ * whose live costs are added by the guard itself.
+ */
+export async function getDailySpend(excludePipelineId?: string): Promise<DailySpend> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const byProvider = Object.fromEntries(COST_PROVIDERS.map(p => [p, 0])) as Record<CostProvider, number>;
+  let total = 0;
+
+  const entries = await getCostLedger().list({ from: startOfDay });
+  for (const entry of entries) {
+    if (excludePipelineId && entry.pipelineId === excludePipelineId) continue;
+    byProvider[entry.provider] += entry.cost;
+    total += entry.cost;
+  }
+
+  return { total, byProvider };
+}
+
+export class BudgetGuard {
+  constructor(
+    private policy: BudgetPolicy,
+    private loadDailySpend: () => Promise<DailySpend>
+  ) {}
+
+  hasLimits(): boolean {
+    return this.policy.maxPerPipeline !== undefined ||
+      this.policy.maxPerDay !== undefined ||
+      Object.keys(this.policy.maxPerProvider || {}).length > 0;
+  }
+
+  /**
+   * Returns the breached limit as a budget event, or null when the call fits every cap.
+   * `pipelineSpend` is the run's own cost so far and `providerSpend` the same per provider,
+   * across every step that billed it.
+   */
+  async check(
+    step: keyof PipelineSteps,
+    pipelineSpend: number,
+    providerSpend: Partial<Record<CostProvider, number>>,
+    action: BudgetEvent['action'],
+    cost: number = STEP_UNIT_PRICES[step]
+  ): Promise<BudgetEvent | null> {
+    if (!this.hasLimits()) return null;
+
+    const provider = getStepCostProvider(step);
+    const pipelineProviderSpend = providerSpend[provider] ?? 0;
+    const breach = (limit: BudgetEvent['limit'], cap: number, projected: number, label: string): BudgetEvent => ({
+      step,
+      provider,
+      action,
+      limit,
+      cap,
+      projected,
+      message: `${label} cap of $${cap.toFixed(4)} would be exceeded by ${step} (${provider}, ~$${cost.toFixed(4)}): projected $${projected.toFixed(4)}`,
+      timestamp: new Date().toISOString(),
+    });
+
+    const { maxPerPipeline, maxPerDay, maxPerProvider } = this.policy;
+
+    if (maxPerPipeline !== undefined && pipelineSpend + cost > maxPerPipeline) {
+      return breach('pipeline', maxPerPipeline, pipelineSpend + cost, 'Per-pipeline');
+    }
+
+    const providerCap = maxPerProvider?.[provider];
+    if (maxPerDay === undefined && providerCap === undefined) return null;
+
+    const daily = await this.loadDailySpend();
+
+    if (maxPerDay !== undefined && daily.total + pipelineSpend + cost > maxPerDay) {
+      return breach('day', maxPerDay, daily.total + pipelineSpend + cost, 'Daily');
+    }
+
+    if (providerCap !== undefined && daily.byProvider[provider] + pipelineProviderSpend + cost > providerCap) {
+      return breach('provider', providerCap, daily.byProvider[provider] + pipelineProviderSpend + cost, `Daily ${provider}`);
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { EventEmitter } from 'events';
+import type { PipelineState } from './types';
+
+type PipelineStateListener = (state: PipelineState) => void;
+
+type EventsGlobal = typeof globalThis & {
+  __ugcPipelineEvents?: PipelineEventBus;
+};
+
+class PipelineEventBus {
+  private emitter = new EventEmitter();
+  private latest = new Map<string, PipelineState>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(state: PipelineState): void {
+    if (state.status === 'running' || state.status === 'idle') {
+      this.latest.set(state.id, state);
+    } else {
+      this.latest.delete(state.id);
+    }
+    this.emitter.emit(state.id, state);
+  }
+
+  getLatest(pipelineId: string): PipelineState | null {
+    return this.latest.get(pipelineId) || null;
+  }
+
+  subscribe(pipelineId: string, listener: PipelineStateListener): () => void {
+    this.emitter.on(pipelineId, listener);
+    return () => {
+      this.emitter.off(pipelineId, listener);
+    };
+  }
+}
+
+// Cached on globalThis so API routes and queue workers share one bus across module reloads
+export function getPipelineEvents(): PipelineEventBus {
+  const g = globalThis as EventsGlobal;
+  if (!g.__ugcPipelineEvents) {
+    g.__ugcPipelineEvents = new PipelineEventBus();
+  }
+  return g.__ugcPipelineEvents;
+}
+
+export type { PipelineEventBus };
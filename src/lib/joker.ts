@@ -1,10 +1,30 @@
-import { scrapeProduct } from './pipeline/apify';
-import { analyzeProductImage } from './pipeline/vision';
+import { findCachedScrape, scrapeProductCached } from './pipeline/apify';
+import { analyzeProductImages } from './pipeline/vision';
 import { generateMarketingAngles } from './pipeline/mistral';
+import { resolveContentOptions } from './pipeline/contentOptions';
+import { analyzeReviews, analyzeReviewsLocally } from './pipeline/reviews';
+import { checkCompliance, getBlockedAngleIds, resolveComplianceOptions } from './pipeline/compliance';
+import { getBrandProfile } from './brands';
 import { removeBackground } from './pipeline/removebg';
-import { generateVideo } from './pipeline/vidgo';
 import { assembleVideo } from './pipeline/shotstack';
+import { assembleVideoLocally, isLocalRenderUrl } from './pipeline/ffmpeg';
+import { getDefaultVideoGenerator, getVideoGeneratorChain } from './pipeline/videoGenerator';
+import { featureProductVariant, findProductVariant } from './pipeline/variants';
 import { PipelineLogger } from './logger';
+import {
+  BudgetExceededError,
+  BudgetGuard,
+  getDailySpend,
+  getDefaultBudgetPolicy,
+  getStepCostProvider,
+  mergeBudgetPolicies,
+  STEP_COST_PROVIDERS,
+  STEP_UNIT_PRICES,
+} from './budget';
+import { withCostContext } from './ledger';
+import { formatPrice, mapWithConcurrency } from './utils';
+import { getPipelineRepository } from './storage';
+import type { PipelineRepository } from './storage';
 import type {
   PipelineState,
   PipelineStepStatus,
@@ -13,35 +33,259 @@ import type {
   VisionAnalysis,
   MarketingAngle,
   VideoGenResult,
-  QualityGate,
-  CostBreakdown
+  StepQualityGate,
+  CostBreakdown,
+  WebhookPayload,
+  BudgetEvent,
+  BudgetPolicy,
+  VideoVariant,
+  AssemblyRenderer,
+  VideoGeneratorName,
+  VisionProviderConfig,
+  ContentOptions,
+  BrandProfile,
+  ComplianceOptions,
+  ComplianceReport,
+  CostProvider,
+  ReviewAnalysis
 } from './types';
 
 interface JokerOptions {
   productUrl: string;
+  pipelineId?: string;
   onStateChange?: (state: PipelineState) => void;
+  onEvent?: (payload: WebhookPayload) => void;
   maxRetries?: number;
   qualityThreshold?: number;
+  repository?: PipelineRepository;
+  initialState?: PipelineState;
+  /** Tightens the server-wide caps from the environment for this run */
+  budget?: BudgetPolicy;
+  /** How many marketing angles to render as separate videos */
+  variantCount?: number;
+  /** Pause before the video step until the angles are approved */
+  requireApproval?: boolean;
+  /** Assembly backend; defaults to ASSEMBLY_RENDERER or shotstack */
+  renderer?: AssemblyRenderer;
+  /** Base video backend; defaults to VIDEO_GENERATOR or vidgo */
+  videoGenerator?: VideoGeneratorName;
+  /** Product variant to feature: id, SKU or option values such as "Red / M" */
+  productVariant?: string;
+  /** Scrape the product again even if the scrape cache has a fresh copy */
+  forceRefresh?: boolean;
+  /** Overrides the VISION_* provider settings, e.g. `{ provider: 'fixture' }` in tests; kept for resumes */
+  vision?: Partial<VisionProviderConfig>;
+  /** Angle count, tone palette, platforms and script duration for the content step */
+  contentOptions?: Partial<ContentOptions>;
+  /** Saved brand profile whose voice and rules the scripts must follow */
+  brandProfileId?: string;
+  /** Rule set for the compliance step and whether violations block video generation */
+  complianceOptions?: Partial<ComplianceOptions>;
+}
+
+// Video generation is the first step expensive enough to warrant a human check
+const APPROVAL_STEP: keyof PipelineSteps = 'video';
+const VARIANT_CONCURRENCY = Math.max(1, Number(process.env.VARIANT_CONCURRENCY) || 2);
+
+export const PIPELINE_STEP_ORDER: (keyof PipelineSteps)[] = [
+  'scraping',
+  'vision',
+  'background',
+  'reviews',
+  'content',
+  'compliance',
+  'video',
+  'assembly',
+];
+
+function hasStepOutput(state: PipelineState, step: keyof PipelineSteps): boolean {
+  switch (step) {
+    case 'scraping':
+      return Boolean(state.productData);
+    case 'vision':
+      return Boolean(state.visionAnalysis);
+    case 'background':
+      // Optional step: the original image is used when no cutout was produced
+      return true;
+    case 'reviews':
+      // Optional step: scripts are written without customer quotes when there are no reviews
+      return true;
+    case 'content':
+      return state.marketingAngles.length > 0;
+    case 'compliance':
+      return Boolean(state.compliance);
+    case 'video':
+      return Boolean(state.videoResult);
+    case 'assembly':
+      return Boolean(state.finalVideoUrl || state.finalVideo);
+  }
+}
+
+function hasCheckpoint(state: PipelineState, step: keyof PipelineSteps): boolean {
+  return Boolean(state.checkpoints?.[step]) && hasStepOutput(state, step);
+}
+
+export function getResumeStep(state: PipelineState): keyof PipelineSteps | null {
+  return PIPELINE_STEP_ORDER.find(step => !hasCheckpoint(state, step)) ?? null;
+}
+
+/**
+ * First step from `fromStep` on without a checkpoint written at or after `since`, or null
+ * when every one has. Checkpoints older than `since` were not written by the run being
+ * picked up again, so they don't count for the steps it was asked to run.
+ */
+export function getResumeStepSince(
+  state: PipelineState,
+  since: string,
+  fromStep: keyof PipelineSteps = PIPELINE_STEP_ORDER[0]
+): keyof PipelineSteps | null {
+  const sinceTime = new Date(since).getTime();
+  return PIPELINE_STEP_ORDER
+    .slice(PIPELINE_STEP_ORDER.indexOf(fromStep))
+    .find(step => !hasCheckpoint(state, step) || new Date(state.checkpoints![step]!).getTime() < sinceTime) ?? null;
+}
+
+export function getMissingCheckpoints(state: PipelineState, fromStep: keyof PipelineSteps): (keyof PipelineSteps)[] {
+  return PIPELINE_STEP_ORDER
+    .slice(0, PIPELINE_STEP_ORDER.indexOf(fromStep))
+    .filter(step => !hasCheckpoint(state, step));
+}
+
+function resetStepsFrom(stored: PipelineState, fromStep: keyof PipelineSteps): PipelineState {
+  const state: PipelineState = JSON.parse(JSON.stringify(stored));
+  const rerun = PIPELINE_STEP_ORDER.slice(PIPELINE_STEP_ORDER.indexOf(fromStep));
+  const checkpoints = { ...state.checkpoints };
+
+  for (const step of rerun) {
+    state.steps[step] = { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null };
+    delete checkpoints[step];
+
+    switch (step) {
+      case 'scraping':
+        state.productData = null;
+        break;
+      case 'vision':
+        state.visionAnalysis = null;
+        break;
+      case 'background':
+        state.transparentImageUrl = undefined;
+        break;
+      case 'reviews':
+        state.reviewAnalysis = undefined;
+        break;
+      case 'content':
+        state.marketingAngles = [];
+        // New angles need a new review
+        state.approval = undefined;
+        break;
+      case 'compliance':
+        state.compliance = undefined;
+        break;
+      case 'video':
+        state.videoResult = null;
+        state.variants = undefined;
+        break;
+      case 'assembly':
+        state.finalVideo = null;
+        state.finalVideoUrl = undefined;
+        for (const variant of state.variants || []) {
+          variant.finalVideoUrl = undefined;
+          variant.steps.assembly = variant.steps.video === 'completed' ? 'pending' : 'skipped';
+        }
+        break;
+    }
+  }
+
+  state.checkpoints = checkpoints;
+  state.qualityGates = (state.qualityGates || []).filter(gate => !rerun.includes(gate.step));
+  state.status = 'idle';
+  state.error = undefined;
+  state.endTime = null;
+  return state;
+}
+
+export const ASSEMBLY_RENDERERS: AssemblyRenderer[] = ['shotstack', 'ffmpeg'];
+
+function getDefaultRenderer(): AssemblyRenderer {
+  const configured = process.env.ASSEMBLY_RENDERER as AssemblyRenderer | undefined;
+  return configured && ASSEMBLY_RENDERERS.includes(configured) ? configured : 'shotstack';
+}
+
+function createVariant(angle: MarketingAngle, index: number): VideoVariant {
+  return {
+    id: `variant-${index + 1}`,
+    angleId: angle.id,
+    hook: angle.hook,
+    steps: { video: 'pending', assembly: 'pending' },
+    videoResult: null,
+    costs: { video: 0, assembly: 0, total: 0 },
+  };
 }
 
 export class Joker {
   private productUrl: string;
   private onStateChange?: (state: PipelineState) => void;
+  private onEvent?: (payload: WebhookPayload) => void;
   private maxRetries: number;
   private qualityThreshold: number;
+  private forceRefresh: boolean;
   private logger: PipelineLogger;
+  private repository?: PipelineRepository;
+  private budget: BudgetGuard;
   private state: PipelineState;
   private cancelled: boolean = false;
+  // Projected costs of variant calls that passed the budget check but are not billed yet
+  private budgetHolds = new Map<string, { provider: CostProvider; cost: number }[]>();
+  private resumeFrom: keyof PipelineSteps = PIPELINE_STEP_ORDER[0];
+  private rejectCancellation: (error: Error) => void = () => undefined;
+  private cancellation: Promise<never> = new Promise<never>((_, reject) => {
+    this.rejectCancellation = reject;
+  });
 
   constructor(options: JokerOptions) {
     this.productUrl = options.productUrl;
     this.onStateChange = options.onStateChange;
+    this.onEvent = options.onEvent;
     this.maxRetries = options.maxRetries ?? 3;
     this.qualityThreshold = options.qualityThreshold ?? 0.7;
+    this.forceRefresh = options.forceRefresh ?? false;
     this.logger = new PipelineLogger();
+    this.repository = options.repository;
+    this.budget = new BudgetGuard(
+      mergeBudgetPolicies(getDefaultBudgetPolicy(), options.budget),
+      () => getDailySpend(this.state.id)
+    );
+    // Nothing awaits this directly; it only wins races inside retryWithBackoff
+    this.cancellation.catch(() => undefined);
+
+    if (options.initialState) {
+      this.state = options.initialState;
+      if (options.variantCount !== undefined) {
+        this.state.variantCount = options.variantCount;
+      }
+      if (options.renderer !== undefined) {
+        this.state.renderer = options.renderer;
+      }
+      if (options.videoGenerator !== undefined) {
+        this.state.videoGenerator = options.videoGenerator;
+      }
+      if (options.productVariant !== undefined) {
+        this.state.productVariant = options.productVariant;
+      }
+      if (options.brandProfileId !== undefined) {
+        this.state.brandProfileId = options.brandProfileId;
+      }
+      if (options.vision !== undefined) {
+        this.state.visionConfig = options.vision;
+      }
+      for (const entry of options.initialState.logs) {
+        this.logger.addLog(entry);
+      }
+      return;
+    }
 
     this.state = {
-      id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2),
+      id: options.pipelineId || (crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2)),
       productUrl: this.productUrl,
       status: 'idle',
       currentStep: null,
@@ -49,7 +293,9 @@ export class Joker {
         scraping: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
         vision: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
         background: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
+        reviews: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
         content: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
+        compliance: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
         video: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
         assembly: { status: 'pending', progress: 0, startedAt: null, completedAt: null, error: null },
       },
@@ -62,7 +308,9 @@ export class Joker {
         scraping: 0,
         vision: 0,
         background: 0,
+        reviews: 0,
         content: 0,
+        compliance: 0,
         video: 0,
         assembly: 0,
         total: 0,
@@ -71,6 +319,17 @@ export class Joker {
       startTime: new Date().toISOString(),
       endTime: null,
       logs: [],
+      qualityGates: [],
+      checkpoints: {},
+      variantCount: options.variantCount ?? 1,
+      requireApproval: options.requireApproval ?? false,
+      renderer: options.renderer ?? getDefaultRenderer(),
+      videoGenerator: options.videoGenerator ?? getDefaultVideoGenerator(),
+      productVariant: options.productVariant,
+      contentOptions: resolveContentOptions(options.contentOptions, options.variantCount ?? 1),
+      brandProfileId: options.brandProfileId,
+      visionConfig: options.vision,
+      complianceOptions: resolveComplianceOptions(options.complianceOptions),
     };
   }
 
@@ -79,6 +338,31 @@ export class Joker {
     if (this.onStateChange) {
       this.onStateChange({ ...this.state });
     }
+    this.persistState();
+  }
+
+  private emitEvent(event: WebhookPayload['event'], step?: keyof PipelineSteps): void {
+    if (!this.onEvent) return;
+
+    try {
+      this.onEvent({
+        event,
+        pipelineId: this.state.id,
+        timestamp: new Date().toISOString(),
+        step,
+        data: step ? { ...this.state.steps[step] } : this.getState(),
+      });
+    } catch (error) {
+      console.error(`Failed to emit ${event} for pipeline ${this.state.id}:`, error);
+    }
+  }
+
+  private persistState(): void {
+    if (!this.repository) return;
+
+    this.repository.save(this.state).catch(error => {
+      console.error(`Failed to persist pipeline ${this.state.id}:`, error);
+    });
   }
 
   private updateStepStatus(
@@ -92,17 +376,87 @@ export class Joker {
     this.emitStateChange();
   }
 
-  private addCost(step: keyof CostBreakdown, cost: number): void {
+  private addCost(step: keyof CostBreakdown, cost: number, provider: CostProvider): void {
+    this.state.providerCosts = {
+      ...this.providerSpend(),
+      [provider]: (this.providerSpend()[provider] ?? 0) + cost,
+    };
     this.state.costs[step] += cost;
     this.state.costs.total += cost;
+    this.state.totalCost = this.state.costs.total;
     this.emitStateChange();
   }
 
-  private addQualityGate(gate: QualityGate): void {
+  private addQualityGate(gate: StepQualityGate): void {
     this.state.qualityGates.push(gate);
     this.emitStateChange();
   }
 
+  /** Runs persisted before per-provider costs were kept are attributed by each step's usual provider */
+  private providerSpend(): Partial<Record<CostProvider, number>> {
+    if (this.state.providerCosts) return this.state.providerCosts;
+
+    const spend: Partial<Record<CostProvider, number>> = {};
+    for (const step of PIPELINE_STEP_ORDER) {
+      const provider = STEP_COST_PROVIDERS[step];
+      spend[provider] = (spend[provider] ?? 0) + (this.state.costs[step] || 0);
+    }
+    return spend;
+  }
+
+  /**
+   * Checks the next paid call against the budget caps. Aborting steps throw
+   * BudgetExceededError; downgradable steps get `false` and skip the call.
+   * Variants running side by side pass themselves so each one's projected cost is held
+   * until it is billed, and the other variants' checks count it.
+   */
+  private async checkBudget(
+    step: keyof PipelineSteps,
+    action: BudgetEvent['action'],
+    variant?: VideoVariant
+  ): Promise<boolean> {
+    const holds = Array.from(this.budgetHolds.values()).reduce((all, list) => all.concat(list), []);
+    const providerSpend = { ...this.providerSpend() };
+    let held = 0;
+    holds.forEach(hold => {
+      providerSpend[hold.provider] = (providerSpend[hold.provider] ?? 0) + hold.cost;
+      held += hold.cost;
+    });
+
+    // Held before the await so a variant checking meanwhile already sees it
+    const hold = { provider: getStepCostProvider(step), cost: STEP_UNIT_PRICES[step] };
+    if (variant) {
+      this.budgetHolds.set(variant.id, [...(this.budgetHolds.get(variant.id) || []), hold]);
+    }
+
+    const event = await this.budget.check(step, this.state.costs.total + held, providerSpend, action);
+    if (!event) return true;
+
+    if (variant) this.releaseBudgetHold(variant, hold.provider);
+
+    this.state.budgetEvents = [...(this.state.budgetEvents || []), event];
+    this.logger.warn(step, action === 'aborted' ? 'Budget cap reached, aborting' : 'Budget cap reached, skipping paid call', {
+      cost: event.projected,
+      data: { limit: event.limit, cap: event.cap },
+    });
+    this.emitStateChange();
+
+    if (action === 'aborted') {
+      throw new BudgetExceededError(event);
+    }
+    return false;
+  }
+
+  /** Drops the variant's hold for one call billed to `provider`, or all of its holds */
+  private releaseBudgetHold(variant: VideoVariant, provider?: CostProvider): void {
+    const holds = this.budgetHolds.get(variant.id);
+    if (!holds) return;
+
+    const index = provider ? holds.map(hold => hold.provider).lastIndexOf(provider) : -1;
+    if (index >= 0) holds.splice(index, 1);
+    if (!provider || holds.length === 0) this.budgetHolds.delete(variant.id);
+  }
+
   private async retryWithBackoff<T>(
     fn: () => Promise<T>,
     stepName: string,
@@ -111,16 +465,22 @@ export class Joker {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.checkCancelled();
       try {
-        return await fn();
+        // Racing against cancellation stops waiting on in-flight provider calls as soon as cancel() is called
+        return await Promise.race([fn(), this.cancellation]);
       } catch (error) {
+        this.checkCancelled();
         lastError = error instanceof Error ? error : new Error(String(error));
         this.logger.warn(stepName as keyof PipelineSteps, `Attempt ${attempt}/${maxAttempts} failed: ${lastError.message}`);
 
         if (attempt < maxAttempts) {
           const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
           this.logger.info(stepName as keyof PipelineSteps, `Retrying in ${backoffMs}ms...`);
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
+          await Promise.race([
+            new Promise(resolve => setTimeout(resolve, backoffMs)),
+            this.cancellation,
+          ]);
         }
       }
     }
@@ -134,208 +494,694 @@ export class Joker {
     }
   }
 
-  async run(): Promise<PipelineState> {
+  async run(fromStep: keyof PipelineSteps = PIPELINE_STEP_ORDER[0]): Promise<PipelineState> {
     try {
-      this.logger.info('scraping', 'Starting pipeline', { productUrl: this.productUrl });
+      this.state.status = 'running';
+      if (fromStep === PIPELINE_STEP_ORDER[0]) {
+        this.logger.info('scraping', 'Starting pipeline', { data: { productUrl: this.productUrl } });
+      } else {
+        this.logger.info(fromStep, `Resuming pipeline from ${fromStep}`, { data: { productUrl: this.productUrl } });
+      }
+      this.emitEvent('pipeline.started');
 
-      // Step 1: Scraping
-      this.checkCancelled();
-      this.updateStepStatus('scraping', 'running', 0);
-      this.logger.info('scraping', 'Scraping product data...');
+      const stepRunners: Record<keyof PipelineSteps, () => Promise<void>> = {
+        scraping: () => this.runScraping(),
+        vision: () => this.runVision(),
+        background: () => this.runBackground(),
+        reviews: () => this.runReviews(),
+        content: () => this.runContent(),
+        compliance: () => this.runCompliance(),
+        video: () => this.runVideo(),
+        assembly: () => this.runAssembly(),
+      };
 
-      const scrapingResult = await this.retryWithBackoff(
-        () => scrapeProduct(this.productUrl),
-        'scraping'
-      );
+      for (const step of PIPELINE_STEP_ORDER.slice(PIPELINE_STEP_ORDER.indexOf(fromStep))) {
+        this.checkCancelled();
+
+        if (step === APPROVAL_STEP && this.needsApproval()) {
+          this.pauseForApproval();
+          return this.state;
+        }
+
+        // Provider modules report each billable call to the ledger; mirror it into this run's costs
+        await withCostContext(
+          { pipelineId: this.state.id, step, onRecord: entry => this.addCost(step, entry.cost, entry.provider) },
+          stepRunners[step]
+        );
+        this.markCheckpoint(step);
+        this.emitEvent('step.completed', step);
+      }
 
-      this.state.productData = scrapingResult.data;
-      this.addCost('scraping', scrapingResult.cost);
-      this.addQualityGate({
-        step: 'scraping',
-        passed: scrapingResult.confidence >= this.qualityThreshold,
-        confidence: scrapingResult.confidence,
-        threshold: this.qualityThreshold
+      // Pipeline completed
+      this.state.status = 'completed';
+      this.state.endTime = Date.now();
+      const duration = this.state.endTime - this.state.startTime;
+      this.logger.success('assembly', 'Pipeline completed successfully', {
+        duration: `${(duration / 1000).toFixed(2)}s`,
+        totalCost: `$${this.state.costs.total.toFixed(4)}`
       });
 
-      this.updateStepStatus('scraping', 'completed', 100);
-      this.logger.success('scraping', 'Product data scraped', {
-        title: scrapingResult.data.title,
+      this.emitStateChange();
+      this.emitEvent('pipeline.completed');
+      return this.state;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const currentStep = this.state.currentStep;
+
+      this.logger.error(currentStep, this.cancelled ? 'Pipeline cancelled' : 'Pipeline failed', { error: errorMessage });
+      this.updateStepStatus(currentStep, 'failed', this.state.steps[currentStep].progress, errorMessage);
+
+      this.state.status = this.cancelled ? 'cancelled' : 'failed';
+      this.state.endTime = Date.now();
+      this.state.error = errorMessage;
+      this.emitStateChange();
+      this.emitEvent('step.failed', currentStep ?? undefined);
+      this.emitEvent('pipeline.failed');
+
+      throw error;
+    }
+  }
+
+  /**
+   * Re-runs a stored pipeline from `fromStep` (default: the first step without a checkpoint),
+   * reusing the checkpointed outputs of every earlier step instead of paying for them again.
+   */
+  static async resume(
+    pipelineId: string,
+    fromStep?: keyof PipelineSteps,
+    options: Omit<JokerOptions, 'productUrl' | 'pipelineId' | 'initialState'> = {}
+  ): Promise<PipelineState> {
+    const joker = await Joker.prepareResume(pipelineId, fromStep, options);
+    return joker.run(joker.getResumeFrom());
+  }
+
+  static async prepareResume(
+    pipelineId: string,
+    fromStep?: keyof PipelineSteps,
+    options: Omit<JokerOptions, 'productUrl' | 'pipelineId' | 'initialState'> = {}
+  ): Promise<Joker> {
+    const repository = options.repository ?? getPipelineRepository();
+    const stored = await repository.get(pipelineId);
+    if (!stored) {
+      throw new Error(`Pipeline ${pipelineId} not found`);
+    }
+
+    const startStep = fromStep ?? getResumeStep(stored.state);
+    if (!startStep) {
+      throw new Error(`Pipeline ${pipelineId} has already completed every step`);
+    }
+
+    const missing = getMissingCheckpoints(stored.state, startStep);
+    if (missing.length > 0) {
+      throw new Error(`Cannot resume from ${startStep}: missing checkpoints for ${missing.join(', ')}`);
+    }
+
+    const joker = new Joker({
+      ...options,
+      repository,
+      productUrl: stored.state.productUrl,
+      pipelineId,
+      initialState: resetStepsFrom(stored.state, startStep),
+    });
+    joker.resumeFrom = startStep;
+
+    return joker;
+  }
+
+  private needsApproval(): boolean {
+    return Boolean(this.state.requireApproval) && this.state.approval?.status !== 'approved';
+  }
+
+  private pauseForApproval(): void {
+    this.state.status = 'awaiting_approval';
+    this.state.approval = { status: 'pending', requestedAt: new Date().toISOString() };
+    this.logger.info('content', 'Waiting for reviewer approval before video generation', {
+      data: { angles: this.state.marketingAngles.length }
+    });
+
+    this.emitStateChange();
+    this.emitEvent('pipeline.awaiting_approval');
+  }
+
+  getResumeFrom(): keyof PipelineSteps {
+    return this.resumeFrom;
+  }
+
+  private markCheckpoint(step: keyof PipelineSteps): void {
+    this.state.checkpoints = {
+      ...this.state.checkpoints,
+      [step]: new Date().toISOString(),
+    };
+    this.emitStateChange();
+  }
+
+  private async runScraping(): Promise<void> {
+    this.updateStepStatus('scraping', 'running', 0);
+    this.logger.info('scraping', 'Scraping product data...');
+
+    // A cache hit costs nothing, so only a fresh scrape has to fit the budget
+    const cachedResult = await findCachedScrape(this.productUrl, { forceRefresh: this.forceRefresh });
+    if (!cachedResult) {
+      await this.checkBudget('scraping', 'aborted');
+    }
+
+    const scrapingResult = cachedResult || await this.retryWithBackoff(
+      () => scrapeProductCached(this.productUrl, { forceRefresh: this.forceRefresh }),
+      'scraping'
+    );
+
+    const { cache } = scrapingResult;
+    if (cache.status === 'hit') {
+      this.logger.info('scraping', `Scrape cache hit for ${cache.key}`, {
+        cost: 0,
+        data: { cachedAt: cache.cachedAt }
+      });
+    } else if (cache.status !== 'disabled') {
+      this.logger.info('scraping', `Scrape cache ${cache.status === 'refresh' ? 'refreshed' : 'miss'} for ${cache.key}`);
+    }
+
+    this.state.productData = scrapingResult.data;
+    this.logSelectedVariant();
+    this.addQualityGate({
+      step: 'scraping',
+      passed: scrapingResult.confidence >= this.qualityThreshold,
+      confidence: scrapingResult.confidence,
+      threshold: this.qualityThreshold
+    });
+
+    this.updateStepStatus('scraping', 'completed', 100);
+    this.logger.success('scraping', 'Product data scraped', {
+      qualityScore: scrapingResult.confidence,
+      data: {
+        title: scrapingResult.data.name,
         images: scrapingResult.data.images.length,
-        confidence: scrapingResult.confidence
+        cache: cache.status
+      }
+    });
+  }
+
+  private logSelectedVariant(): void {
+    const productData = this.state.productData;
+    const selector = this.state.productVariant;
+    if (!productData || !selector) return;
+
+    const variant = findProductVariant(productData.variants, selector);
+    if (variant) {
+      this.logger.info('scraping', `Featuring variant ${variant.title}`, {
+        data: { variantId: variant.id, sku: variant.sku, price: variant.price }
+      });
+    } else {
+      this.logger.warn('scraping', `Variant "${selector}" not found; featuring the product as a whole`, {
+        data: { available: (productData.variants || []).map(v => v.title) }
       });
+    }
+  }
 
-      // Step 2: Vision Analysis
-      this.checkCancelled();
-      this.updateStepStatus('vision', 'running', 0);
-      this.logger.info('vision', 'Analyzing product images...');
+  /** Product data with the selected variant's price and image applied */
+  private featuredProduct(): ProductData {
+    const productData = this.requireCheckpoint('productData');
+    return featureProductVariant(
+      productData,
+      findProductVariant(productData.variants, this.state.productVariant)
+    );
+  }
+
+  private async runVision(): Promise<void> {
+    const productData = this.featuredProduct();
+
+    this.updateStepStatus('vision', 'running', 0);
+    this.logger.info('vision', 'Analyzing product images...');
+    await this.checkBudget('vision', 'aborted');
+
+    const visionResult = await this.retryWithBackoff(
+      () => analyzeProductImages(productData.images, this.state.visionConfig),
+      'vision'
+    );
+    const confidence = visionResult.metadata.confidence / 100;
+
+    this.state.visionAnalysis = visionResult;
+    this.addQualityGate({
+      step: 'vision',
+      passed: confidence >= this.qualityThreshold,
+      confidence,
+      threshold: this.qualityThreshold
+    });
+
+    this.updateStepStatus('vision', 'completed', 100);
+    this.logger.success('vision', 'Vision analysis completed', {
+      qualityScore: confidence,
+      data: {
+        heroImage: visionResult.heroImage,
+        images: visionResult.images.map(image => ({
+          url: image.url,
+          heroScore: image.heroScore,
+          error: image.error
+        }))
+      }
+    });
+  }
+
+  /**
+   * Image used for background removal and overlays: a featured variant's own photo,
+   * otherwise the hero picked by the vision step, otherwise the first scraped image.
+   */
+  private heroImage(productData: ProductData): string {
+    return productData.selectedVariant?.image
+      || this.state.visionAnalysis?.heroImage
+      || productData.images[0];
+  }
+
+  // Background removal degrades gracefully: failures fall back to the original image
+  private async runBackground(): Promise<void> {
+    const productData = this.featuredProduct();
 
-      const visionResult = await this.retryWithBackoff(
-        () => analyzeProductImage(scrapingResult.data.images, scrapingResult.data),
-        'vision'
+    this.updateStepStatus('background', 'running', 0);
+    this.logger.info('background', 'Removing background from hero image...');
+
+    if (!(await this.checkBudget('background', 'downgraded'))) {
+      this.updateStepStatus('background', 'completed', 100);
+      this.logger.warn('background', 'Continuing with original image to stay within budget');
+      return;
+    }
+
+    try {
+      const bgResult = await this.retryWithBackoff(
+        () => removeBackground(this.heroImage(productData)),
+        'background',
+        2 // Lower retry count for optional step
       );
 
-      this.state.visionAnalysis = visionResult.data;
-      this.addCost('vision', visionResult.cost);
-      this.addQualityGate({
-        step: 'vision',
-        passed: visionResult.confidence >= this.qualityThreshold,
-        confidence: visionResult.confidence,
-        threshold: this.qualityThreshold
+      this.state.transparentImageUrl = bgResult.url;
+      this.updateStepStatus('background', 'completed', 100);
+      this.logger.success('background', 'Background removed successfully');
+    } catch (error) {
+      this.logger.warn('background', 'Background removal failed, continuing with original image', {
+        error: error instanceof Error ? error.message : String(error)
       });
+      this.updateStepStatus('background', 'completed', 100);
+    }
+  }
 
-      this.updateStepStatus('vision', 'completed', 100);
-      this.logger.success('vision', 'Vision analysis completed', {
-        features: visionResult.data.features.length,
-        confidence: visionResult.confidence
-      });
+  // Review mining degrades gracefully: without Mistral the themes come from local keyword clustering
+  private async runReviews(): Promise<void> {
+    const productData = this.featuredProduct();
 
-      // Step 3: Background Removal (with graceful degradation)
-      this.checkCancelled();
-      this.updateStepStatus('background', 'running', 0);
-      this.logger.info('background', 'Removing background from primary image...');
+    this.updateStepStatus('reviews', 'running', 0);
+    if (!productData.reviews || productData.reviews.length === 0) {
+      this.state.reviewAnalysis = null;
+      this.updateStepStatus('reviews', 'completed', 100);
+      this.logger.info('reviews', 'No reviews scraped; scripts will not quote customers');
+      return;
+    }
 
-      let transparentUrl: string | undefined;
-      try {
-        const bgResult = await this.retryWithBackoff(
-          () => removeBackground(scrapingResult.data.images[0]),
-          'background',
-          2 // Lower retry count for optional step
-        );
+    this.logger.info('reviews', `Mining ${productData.reviews.length} review(s) for themes and quotes...`);
+    const useLlm = await this.checkBudget('reviews', 'downgraded');
 
-        transparentUrl = bgResult.url;
-        this.state.transparentImageUrl = transparentUrl;
-        this.addCost('background', bgResult.cost);
-        this.updateStepStatus('background', 'completed', 100);
-        this.logger.success('background', 'Background removed successfully');
-      } catch (error) {
-        this.logger.warn('background', 'Background removal failed, continuing with original image', {
-          error: error instanceof Error ? error.message : String(error)
-        });
-        this.updateStepStatus('background', 'completed', 100);
+    let analysis: ReviewAnalysis;
+    try {
+      analysis = await this.retryWithBackoff(
+        () => analyzeReviews(productData, { useLlm }),
+        'reviews',
+        2 // Lower retry count for optional step
+      );
+    } catch (error) {
+      this.logger.warn('reviews', 'Review analysis failed, clustering reviews locally', {
+        data: { error: error instanceof Error ? error.message : String(error) }
+      });
+      analysis = analyzeReviewsLocally(productData.reviews);
+    }
+
+    this.state.reviewAnalysis = analysis;
+    this.updateStepStatus('reviews', 'completed', 100);
+    this.logger.success('reviews', `Found ${analysis.themes.length} review theme(s)`, {
+      data: {
+        source: analysis.source,
+        themes: analysis.themes.map(theme => ({ kind: theme.kind, label: theme.label, mentions: theme.mentions })),
+        quotes: analysis.themes.reduce((sum, theme) => sum + theme.quotes.length, 0)
       }
+    });
+  }
 
-      // Step 4: Content Generation (Marketing Angles)
-      this.checkCancelled();
+  private async runContent(): Promise<void> {
+    const productData = this.featuredProduct();
+    const visionAnalysis = this.requireCheckpoint('visionAnalysis');
+
+    // Quality gate check before expensive operations
+    const visionGate = this.state.qualityGates.find(g => g.step === 'vision');
+    if (visionGate && !visionGate.passed) {
+      this.logger.warn('content', 'Vision quality below threshold, but continuing...');
+    }
 
-      // Quality gate check before expensive operations
-      const visionGate = this.state.qualityGates.find(g => g.step === 'vision');
-      if (visionGate && !visionGate.passed) {
-        this.logger.warn('content', 'Vision quality below threshold, but continuing...');
+    this.updateStepStatus('content', 'running', 0);
+    this.logger.info('content', 'Generating marketing angles...');
+    await this.checkBudget('content', 'aborted');
+
+    // Runs persisted before content options existed get the defaults
+    const contentOptions = this.state.contentOptions
+      || resolveContentOptions(undefined, this.state.variantCount ?? 1);
+    const brand = await this.loadBrandProfile();
+    const angles = await this.retryWithBackoff(
+      () => generateMarketingAngles(productData, visionAnalysis, contentOptions, brand, this.state.reviewAnalysis ?? null),
+      'content'
+    );
+    // Angles come back strongest first; only the ones that will be rendered count towards the gate
+    const rendered = angles.slice(0, Math.max(1, this.state.variantCount ?? 1));
+    const confidence = rendered.reduce((sum, angle) => sum + angle.qualityScore, 0) / rendered.length / 10;
+
+    this.state.marketingAngles = angles;
+    this.addQualityGate({
+      step: 'content',
+      passed: confidence >= this.qualityThreshold,
+      confidence,
+      threshold: this.qualityThreshold
+    });
+
+    this.updateStepStatus('content', 'completed', 100);
+    this.logger.success('content', 'Marketing angles generated', {
+      qualityScore: confidence,
+      data: {
+        count: angles.length,
+        tones: angles.map(angle => angle.tone),
+        platforms: contentOptions.platforms,
+        brandProfileId: brand?.id
       }
+    });
+  }
 
-      this.updateStepStatus('content', 'running', 0);
-      this.logger.info('content', 'Generating marketing angles...');
+  /** The run's brand profile as it is now, so edits made since the run started apply on resume */
+  private async loadBrandProfile(): Promise<BrandProfile | null> {
+    const id = this.state.brandProfileId;
+    if (!id) return null;
 
-      const contentResult = await this.retryWithBackoff(
-        () => generateMarketingAngles(scrapingResult.data, visionResult.data),
-        'content'
-      );
+    const brand = await getBrandProfile(id);
+    if (!brand) {
+      throw new Error(`Brand profile ${id} not found; it may have been deleted since the run started`);
+    }
+    this.logger.info('content', `Writing in the ${brand.name} brand voice`);
+    return brand;
+  }
+
+  /**
+   * Pattern rules are checked locally; the LLM-judged rules cost a Mistral call, so they are
+   * skipped when the budget is spent. Without blocking, a failed judge only leaves a warning.
+   */
+  private async runCompliance(): Promise<void> {
+    const productData = this.featuredProduct();
+    const angles = this.state.marketingAngles;
+    // Runs persisted before the compliance step existed get the default rules
+    const options = this.state.complianceOptions || resolveComplianceOptions();
 
-      this.state.marketingAngles = contentResult.data;
-      this.addCost('content', contentResult.cost);
-      this.addQualityGate({
-        step: 'content',
-        passed: contentResult.confidence >= this.qualityThreshold,
-        confidence: contentResult.confidence,
-        threshold: this.qualityThreshold
+    this.updateStepStatus('compliance', 'running', 0);
+    this.logger.info('compliance', `Checking ${angles.length} angle(s) against ${options.rules.length} compliance rule(s)...`);
+
+    const judge = options.rules.some(rule => rule.type === 'llm')
+      && (await this.checkBudget('compliance', 'downgraded'));
+
+    let report: ComplianceReport;
+    try {
+      report = await this.retryWithBackoff(
+        () => checkCompliance(productData, angles, options, { judge }),
+        'compliance',
+        2
+      );
+    } catch (error) {
+      if (options.blockOnViolation) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('compliance', 'LLM-judged rules could not be checked, continuing with pattern rules only', {
+        data: { error: message }
       });
+      report = { ...(await checkCompliance(productData, angles, options, { judge: false })), judgeError: message };
+    }
 
-      this.updateStepStatus('content', 'completed', 100);
-      this.logger.success('content', 'Marketing angles generated', {
-        count: contentResult.data.length,
-        confidence: contentResult.confidence
+    this.state.compliance = report;
+    for (const result of report.angles.filter(result => result.violations.length > 0)) {
+      const angle = angles.find(a => a.id === result.angleId);
+      this.logger.warn('compliance', `"${angle?.hook}" breaks ${result.violations.length} rule(s)`, {
+        data: { angleId: result.angleId, passed: result.passed, violations: result.violations }
       });
+    }
 
-      // Step 5: Video Generation
-      this.checkCancelled();
+    const compliant = report.angles.filter(result => result.passed).length;
+    this.addQualityGate({
+      step: 'compliance',
+      passed: report.passed,
+      confidence: angles.length > 0 ? compliant / angles.length : 1,
+      threshold: 1
+    });
 
-      // Quality gate check before video generation
-      const contentGate = this.state.qualityGates.find(g => g.step === 'content');
-      if (contentGate && !contentGate.passed) {
-        throw new Error(`Content quality (${contentGate.confidence.toFixed(2)}) below threshold (${this.qualityThreshold}). Stopping before expensive video generation.`);
+    if (options.blockOnViolation && compliant === 0) {
+      throw new Error(`Every marketing angle breaks a blocking compliance rule. Stopping before video generation.`);
+    }
+
+    this.updateStepStatus('compliance', 'completed', 100);
+    this.logger.success('compliance', `${compliant}/${angles.length} angle(s) compliant`, {
+      data: { blocking: options.blockOnViolation, judged: report.judged }
+    });
+  }
+
+  /** Ranked angles that may be rendered: with blocking on, angles with blocking violations are left out */
+  private renderableAngles(): MarketingAngle[] {
+    const options = this.state.complianceOptions;
+    if (!options?.blockOnViolation) return this.state.marketingAngles;
+
+    const blocked = getBlockedAngleIds(this.state.compliance);
+    if (blocked.length > 0) {
+      this.logger.warn('video', `Skipping ${blocked.length} angle(s) that failed compliance`, { data: { blocked } });
+    }
+    return this.state.marketingAngles.filter(angle => !blocked.includes(angle.id));
+  }
+
+  private async runVideo(): Promise<void> {
+    const productData = this.featuredProduct();
+
+    // Quality gate check before video generation
+    const contentGate = this.state.qualityGates.find(g => g.step === 'content');
+    if (contentGate && !contentGate.passed) {
+      throw new Error(`Content quality (${contentGate.confidence.toFixed(2)}) below threshold (${this.qualityThreshold}). Stopping before expensive video generation.`);
+    }
+
+    // Angles are sorted by score, so the first N are the strongest hooks
+    const angles = this.renderableAngles().slice(0, this.state.variantCount ?? 1);
+    if (angles.length === 0) {
+      throw new Error(this.state.marketingAngles.length > 0
+        ? 'No marketing angles passed compliance'
+        : 'No marketing angles generated');
+    }
+
+    this.state.variants = angles.map(createVariant);
+    this.updateStepStatus('video', 'running', 0);
+    this.logger.info('video', `Generating ${angles.length} video variant(s)...`);
+
+    await this.runVariants('video', this.state.variants, async variant => {
+      const angle = angles.find(a => a.id === variant.angleId)!;
+      await this.generateVariantVideo(variant, angle, productData.images);
+    });
+
+    const primary = this.state.variants.find(variant => variant.videoResult)!.videoResult!;
+    this.state.videoResult = primary;
+
+    this.updateStepStatus('video', 'completed', 100);
+    this.logger.success('video', 'Video generated', {
+      data: {
+        url: primary.url,
+        duration: primary.duration,
+        variants: this.state.variants.filter(variant => variant.steps.video === 'completed').length
       }
+    });
+  }
 
-      this.updateStepStatus('video', 'running', 0);
-      this.logger.info('video', 'Generating video content...');
+  /**
+   * Tries each generator in the chain until one produces a base video. A paid generator
+   * that would break the budget is skipped in favour of the next one rather than
+   * aborting, as long as there is a next one.
+   */
+  private async generateVariantVideo(
+    variant: VideoVariant,
+    angle: MarketingAngle,
+    productImages: string[]
+  ): Promise<void> {
+    const chain = getVideoGeneratorChain(this.state.videoGenerator);
 
-      // Use the best marketing angle (first one, as they're sorted by score)
-      const primaryAngle = contentResult.data[0];
-      if (!primaryAngle) {
-        throw new Error('No marketing angles generated');
+    for (let i = 0; i < chain.length; i++) {
+      const generator = chain[i];
+      const next = chain[i + 1];
+
+      if (generator.billable && !(await this.checkBudget('video', next ? 'downgraded' : 'aborted', variant))) {
+        continue;
       }
 
-      const videoResult = await this.retryWithBackoff(
-        () => generateVideo(
-          primaryAngle,
-          scrapingResult.data.images,
-          transparentUrl
-        ),
-        'video'
-      );
+      try {
+        variant.videoResult = await this.retryWithBackoff(
+          () => generator.generate({
+            angle,
+            productImages,
+            transparentImageUrl: this.state.transparentImageUrl,
+          }),
+          'video'
+        );
+        variant.generator = generator.name;
+        return;
+      } catch (error) {
+        this.checkCancelled();
+        if (!next) throw error;
+        this.logger.warn('video', `${generator.name} failed for ${variant.id}, falling back to ${next.name}`, {
+          data: { error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+    }
+  }
 
-      this.state.videoResult = videoResult.data;
-      this.addCost('video', videoResult.cost);
+  private async runAssembly(): Promise<void> {
+    const videoResult = this.requireCheckpoint('videoResult');
 
-      this.updateStepStatus('video', 'completed', 100);
-      this.logger.success('video', 'Video generated', {
-        url: videoResult.data.url,
-        duration: videoResult.data.duration
-      });
+    // Runs checkpointed before variants existed only have the single video
+    if (!this.state.variants || this.state.variants.length === 0) {
+      const angle = this.state.marketingAngles[0];
+      this.state.variants = [{
+        ...createVariant(angle, 0),
+        steps: { video: 'completed', assembly: 'pending' },
+        videoResult,
+      }];
+    }
 
-      // Step 6: Video Assembly
-      this.checkCancelled();
-      this.updateStepStatus('assembly', 'running', 0);
-      this.logger.info('assembly', 'Assembling final video...');
+    const productData = this.featuredProduct();
+    const heroImage = this.heroImage(productData);
+    const locale = this.state.contentOptions?.locale;
+    const priceLabel = productData.price > 0
+      ? [productData.selectedVariant?.title, formatPrice(productData.price, productData.currency, locale)].filter(Boolean).join(' · ')
+      : undefined;
+    const renderable = this.state.variants.filter(variant => variant.steps.video === 'completed' && variant.videoResult);
+    let renderer = this.state.renderer ?? 'shotstack';
+    // Slideshow fallbacks live on this server, where Shotstack cannot download them
+    if (renderer === 'shotstack' && renderable.some(variant => isLocalRenderUrl(variant.videoResult!.url))) {
+      this.logger.warn('assembly', 'Base video was rendered locally, assembling with ffmpeg instead of Shotstack');
+      renderer = 'ffmpeg';
+    }
+    const assemble = renderer === 'ffmpeg' ? assembleVideoLocally : assembleVideo;
+
+    this.updateStepStatus('assembly', 'running', 0);
+    this.logger.info('assembly', `Assembling ${renderable.length} final video(s) with ${renderer}...`);
+
+    await this.runVariants('assembly', renderable, async variant => {
+      const variantVideo = variant.videoResult!;
+      const angle = this.state.marketingAngles.find(a => a.id === variant.angleId);
+
+      // Local renders are free, so only the Shotstack path is budgeted
+      if (renderer === 'shotstack') {
+        await this.checkBudget('assembly', 'aborted', variant);
+      }
 
       const assemblyResult = await this.retryWithBackoff(
-        () => assembleVideo(
-          videoResult.data.url,
-          videoResult.data.overlays,
-          videoResult.data.music
-        ),
+        () => assemble({
+          videoUrl: variantVideo.url,
+          productImageUrl: heroImage,
+          transparentProductUrl: this.state.transparentImageUrl || heroImage,
+          hook: angle?.hook || variant.hook,
+          script: angle?.script || '',
+          priceLabel,
+          locale: angle?.locale ?? locale,
+        }),
         'assembly'
       );
 
-      this.state.finalVideoUrl = assemblyResult.url;
-      this.addCost('assembly', assemblyResult.cost);
+      variant.finalVideoUrl = assemblyResult.url;
+    });
 
-      this.updateStepStatus('assembly', 'completed', 100);
-      this.logger.success('assembly', 'Video assembly completed', {
-        url: assemblyResult.url
-      });
+    const primary = this.state.variants.find(variant => variant.finalVideoUrl)!;
+    this.state.finalVideoUrl = primary.finalVideoUrl;
 
-      // Pipeline completed
-      this.state.endTime = Date.now();
-      const duration = this.state.endTime - this.state.startTime;
-      this.logger.success('assembly', 'Pipeline completed successfully', {
-        duration: `${(duration / 1000).toFixed(2)}s`,
-        totalCost: `$${this.state.costs.total.toFixed(4)}`
-      });
+    this.updateStepStatus('assembly', 'completed', 100);
+    this.logger.success('assembly', 'Video assembly completed', {
+      data: { url: primary.finalVideoUrl }
+    });
+  }
+
+  /**
+   * Runs `work` for each variant with bounded concurrency. A failed variant is recorded
+   * and skipped; the step only fails when no variant succeeded. A budget breach stops
+   * the remaining variants and fails the step, since the next ones would breach it too.
+   */
+  private async runVariants(
+    step: 'video' | 'assembly',
+    variants: VideoVariant[],
+    work: (variant: VideoVariant) => Promise<void>
+  ): Promise<void> {
+    const errors: Error[] = [];
+    let budgetError: BudgetExceededError | null = null;
+    let finished = 0;
 
+    await mapWithConcurrency(variants, VARIANT_CONCURRENCY, async variant => {
+      if (this.cancelled || budgetError) return;
+
+      variant.steps[step] = 'running';
       this.emitStateChange();
-      return this.state;
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const currentStep = this.state.currentStep;
+      try {
+        await withCostContext(
+          {
+            pipelineId: this.state.id,
+            step,
+            onRecord: entry => {
+              this.releaseBudgetHold(variant, entry.provider);
+              variant.costs[step] += entry.cost;
+              variant.costs.total += entry.cost;
+              this.addCost(step, entry.cost, entry.provider);
+            },
+          },
+          () => work(variant)
+        );
+        variant.steps[step] = 'completed';
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (err instanceof BudgetExceededError) budgetError = budgetError || err;
+        errors.push(err);
+        variant.steps[step] = 'failed';
+        variant.error = err.message;
+        if (step === 'video') {
+          variant.steps.assembly = 'skipped';
+        }
+        this.logger.warn(step, `Variant ${variant.id} failed: ${err.message}`);
+      } finally {
+        this.releaseBudgetHold(variant);
+      }
 
-      this.logger.error(currentStep, 'Pipeline failed', { error: errorMessage });
-      this.updateStepStatus(currentStep, 'failed', this.state.steps[currentStep].progress, errorMessage);
+      finished++;
+      this.updateStepStatus(step, 'running', Math.round((finished / variants.length) * 100));
+    });
 
-      this.state.endTime = Date.now();
-      this.state.error = errorMessage;
-      this.emitStateChange();
+    this.checkCancelled();
+    if (budgetError) throw budgetError;
 
-      throw error;
+    if (!variants.some(variant => variant.steps[step] === 'completed')) {
+      throw errors[0] || new Error(`No variants to run for ${step}`);
+    }
+  }
+
+  private requireCheckpoint<K extends 'productData' | 'visionAnalysis' | 'videoResult'>(
+    key: K
+  ): NonNullable<PipelineState[K]> {
+    const value = this.state[key];
+    if (!value) {
+      throw new Error(`Missing ${key}; the step that produces it has not completed`);
     }
+    return value as NonNullable<PipelineState[K]>;
   }
 
   cancel(): void {
+    if (this.cancelled) return;
+
     this.cancelled = true;
-    this.logger.warn(this.state.currentStep, 'Pipeline cancellation requested');
+    // Cancelled before its first step started, the run is logged against the step it would start at
+    this.logger.warn(this.state.currentStep ?? this.resumeFrom, 'Pipeline cancellation requested');
+    this.rejectCancellation(new Error('Pipeline cancelled'));
     this.emitStateChange();
   }
 
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
   getState(): PipelineState {
     return { ...this.state };
   }
@@ -344,7 +1190,7 @@ export class Joker {
     return { ...this.state.costs };
   }
 
-  getQualityGates(): QualityGate[] {
+  getQualityGates(): StepQualityGate[] {
     return [...this.state.qualityGates];
   }
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ensureDir, getDataDir } from './storage/fsUtils';
+import type { CostLedgerEntry, CostProvider, CostSummary, PipelineSteps } from './types';
+
+export const COST_PROVIDERS: CostProvider[] = ['apify', 'openai', 'removebg', 'mistral', 'vidgo', 'shotstack'];
+
+interface CostContext {
+  pipelineId: string;
+  step: keyof PipelineSteps;
+  onRecord?: (entry: CostLedgerEntry) => void;
+}
+
+export interface CostInput {
+  provider: CostProvider;
+  units?: number;
+  unitPrice: number;
+  tokens?: CostLedgerEntry['tokens'];
+  cached?: boolean;
+}
+
+export interface CostFilter {
+  pipelineId?: string;
+  provider?: CostProvider;
+  from?: Date;
+  to?: Date;
+}
+
+type LedgerGlobal = typeof globalThis & {
+  __ugcCostLedger?: CostLedger;
+  __ugcCostContext?: AsyncLocalStorage<CostContext>;
+};
+
+/**
+ * Append-only JSONL log of every billable provider call. Entries are kept in memory
+ * after the first read; appends go through a single chain so reads see them in order.
+ */
+export class CostLedger {
+  private entries: CostLedgerEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.filePath, 'utf8')
+        .then(content => {
+          const stored = content
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as CostLedgerEntry);
+          this.entries = stored;
+        })
+        .catch(error => {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        });
+    }
+    return this.loaded;
+  }
+
+  append(entry: CostLedgerEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        // Load first so the entry is never read back from disk a second time
+        await this.load();
+        this.entries.push(entry);
+        await ensureDir(path.dirname(this.filePath));
+        await fs.appendFile(this.filePath, line, 'utf8');
+      });
+    return this.writeChain;
+  }
+
+  async list(filter: CostFilter = {}): Promise<CostLedgerEntry[]> {
+    await this.writeChain.catch(() => undefined);
+    await this.load();
+
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+
+    return this.entries.filter(entry => {
+      const at = new Date(entry.timestamp).getTime();
+      return (!filter.pipelineId || entry.pipelineId === filter.pipelineId) &&
+        (!filter.provider || entry.provider === filter.provider) &&
+        (from === undefined || at >= from) &&
+        (to === undefined || at <= to);
+    });
+  }
+}
+
+export function getCostLedger(): CostLedger {
+  const g = globalThis as LedgerGlobal;
+  if (!g.__ugcCostLedger) {
+    g.__ugcCostLedger = new CostLedger(process.env.COST_LEDGER_FILE || getDataDir('ledger', 'costs.jsonl'));
+  }
+  return g.__ugcCostLedger;
+}
+
+function getCostContext(): AsyncLocalStorage<CostContext> {
+  const g = globalThis as LedgerGlobal;
+  if (!g.__ugcCostContext) {
+    g.__ugcCostContext = new AsyncLocalStorage();
+  }
+  return g.__ugcCostContext;
+}
+
+/**
+ * Attributes every `recordCost` call made while `fn` runs to one pipeline step,
+ * so concurrent runs never mix up their spend.
+ */
+export function withCostContext<T>(context: CostContext, fn: () => Promise<T>): Promise<T> {
+  return getCostContext().run(context, fn);
+}
+
+/**
+ * Called by the provider modules right after a billable call succeeds.
+ */
+export function recordCost(input: CostInput): CostLedgerEntry {
+  const context = getCostContext().getStore();
+  const units = input.units ?? 1;
+
+  const entry: CostLedgerEntry = {
+    id: `cost_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`,
+    pipelineId: context?.pipelineId ?? null,
+    step: context?.step ?? null,
+    provider: input.provider,
+    units,
+    unitPrice: input.unitPrice,
+    cost: input.cached ? 0 : units * input.unitPrice,
+    tokens: input.tokens,
+    cached: input.cached || undefined,
+    timestamp: new Date().toISOString(),
+  };
+
+  getCostLedger().append(entry).catch(error => {
+    console.error(`[ledger] Failed to persist cost entry ${entry.id}:`, error);
+  });
+
+  try {
+    context?.onRecord?.(entry);
+  } catch (error) {
+    console.error(`[ledger] Cost listener failed for ${entry.id}:`, error);
+  }
+
+  return entry;
+}
+
+export function summarizeCosts(entries: CostLedgerEntry[]): CostSummary {
+  const summary: CostSummary = {
+    total: 0,
+    entryCount: entries.length,
+    byPipeline: {},
+    byProvider: {},
+    byDay: {},
+    cacheHits: 0,
+    cacheSavings: 0,
+  };
+
+  for (const entry of entries) {
+    const day = entry.timestamp.slice(0, 10);
+    summary.total += entry.cost;
+    if (entry.cached) {
+      summary.cacheHits += 1;
+      summary.cacheSavings += entry.units * entry.unitPrice;
+    }
+    summary.byProvider[entry.provider] = (summary.byProvider[entry.provider] || 0) + entry.cost;
+    summary.byDay[day] = (summary.byDay[day] || 0) + entry.cost;
+    if (entry.pipelineId) {
+      summary.byPipeline[entry.pipelineId] = (summary.byPipeline[entry.pipelineId] || 0) + entry.cost;
+    }
+  }
+
+  return summary;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'pipelineId',
+  'step',
+  'provider',
+  'units',
+  'unitPrice',
+  'cost',
+  'promptTokens',
+  'completionTokens',
+  'cached',
+] as const;
+
+function escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: CostLedgerEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    entry.pipelineId,
+    entry.step,
+    entry.provider,
+    entry.units,
+    entry.unitPrice,
+    entry.cost.toFixed(6),
+    entry.tokens?.prompt,
+    entry.tokens?.completion,
+    entry.cached ? 'true' : '',
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -16,7 +16,7 @@ export interface CostBreakdown {
   count: number;
 }
 
-class PipelineLogger {
+export class PipelineLogger {
   private logs: LogEntry[] = [];
 
   private createLogEntry(
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ComplianceOptionsError, DEFAULT_COMPLIANCE_RULES, parseComplianceOptions } from '../compliance';
+
+function patternRule(pattern: string) {
+  return { rules: [{ id: 'custom', description: 'Custom rule', type: 'pattern', pattern }] };
+}
+
+describe('parseComplianceOptions', () => {
+  it('accepts the shapes the default rules use', () => {
+    for (const rule of DEFAULT_COMPLIANCE_RULES.filter(r => r.pattern)) {
+      expect(() => parseComplianceOptions(patternRule(rule.pattern!))).not.toThrow();
+    }
+    expect(() => parseComplianceOptions(patternRule('\\b(?:buy now|shop today)\\b'))).not.toThrow();
+    expect(() => parseComplianceOptions(patternRule('\\d+(?:\\.\\d+)?%'))).not.toThrow();
+    expect(() => parseComplianceOptions(patternRule('(ha){2}'))).not.toThrow();
+    expect(() => parseComplianceOptions(patternRule('[(a+)+]'))).not.toThrow();
+  });
+
+  it.each([
+    '(a+)+$',
+    '(?:\\w+\\s?)*!',
+    '(a|ab)*c',
+    '((ab)+)+',
+    '(x{2,})+y',
+    '(a*){3,}',
+  ])('refuses the backtracking-prone pattern %s', pattern => {
+    expect(() => parseComplianceOptions(patternRule(pattern))).toThrow(ComplianceOptionsError);
+    expect(() => parseComplianceOptions(patternRule(pattern))).toThrow(/must not repeat a group/);
+  });
+
+  it('refuses backreferences', () => {
+    expect(() => parseComplianceOptions(patternRule('(\\w)\\1'))).toThrow(/must not use backreferences/);
+  });
+
+  it('refuses invalid and overlong patterns', () => {
+    expect(() => parseComplianceOptions(patternRule('(unclosed'))).toThrow(/not a valid regular expression/);
+    expect(() => parseComplianceOptions(patternRule('a'.repeat(301)))).toThrow(/at most 300 characters/);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContentOptionsError,
+  DEFAULT_TONES,
+  parseContentOptions,
+  resolveContentOptions,
+  scriptLengthRange,
+} from '../contentOptions';
+
+describe('parseContentOptions', () => {
+  it('keeps every default when content is omitted', () => {
+    expect(parseContentOptions(undefined)).toBeUndefined();
+    expect(parseContentOptions(null)).toBeUndefined();
+    expect(parseContentOptions({})).toEqual({});
+  });
+
+  it('rejects content that is not an object', () => {
+    expect(() => parseContentOptions('funny')).toThrow(ContentOptionsError);
+    expect(() => parseContentOptions(['funny'])).toThrow('content must be an object');
+  });
+
+  it.each([1, 5, 10])('accepts angleCount %d', angleCount => {
+    expect(parseContentOptions({ angleCount })).toEqual({ angleCount });
+  });
+
+  it.each([0, 11, 2.5, '3'])('rejects angleCount %j', angleCount => {
+    expect(() => parseContentOptions({ angleCount })).toThrow('content.angleCount must be an integer from 1 to 10');
+  });
+
+  it('replaces the tone palette with normalized tones', () => {
+    expect(parseContentOptions({ tones: [' ASMR ', 'Before/After', 'asmr'] })).toEqual({
+      tones: ['asmr', 'before/after'],
+    });
+  });
+
+  it('extends the default palette with extraTones', () => {
+    expect(parseContentOptions({ extraTones: ['Unboxing', 'funny'] })?.tones).toEqual([...DEFAULT_TONES, 'unboxing']);
+  });
+
+  it('merges extraTones into a replaced palette', () => {
+    expect(parseContentOptions({ tones: ['storytime'], extraTones: ['unboxing'] })?.tones).toEqual(['storytime', 'unboxing']);
+  });
+
+  it('rejects malformed, empty and oversized tone lists', () => {
+    expect(() => parseContentOptions({ tones: 'funny' })).toThrow('content.tones must be an array of non-empty strings');
+    expect(() => parseContentOptions({ extraTones: ['  '] })).toThrow('content.extraTones must be an array of non-empty strings');
+    expect(() => parseContentOptions({ tones: [] })).toThrow('content.tones must not be empty');
+    expect(() => parseContentOptions({ tones: ['x'.repeat(41)] })).toThrow(/at most 40 characters/);
+    const many = Array.from({ length: 21 }, (_, i) => `tone ${i}`);
+    expect(() => parseContentOptions({ tones: many })).toThrow('content.tones allows at most 20 tones');
+  });
+
+  it('accepts known platforms and drops duplicates', () => {
+    expect(parseContentOptions({ platforms: ['tiktok', 'youtube_shorts', 'tiktok'] })).toEqual({
+      platforms: ['tiktok', 'youtube_shorts'],
+    });
+  });
+
+  it.each([[[]], [['vine']], ['tiktok']])('rejects platforms %j', platforms => {
+    expect(() => parseContentOptions({ platforms })).toThrow(/content\.platforms must be a non-empty array of: tiktok/);
+  });
+
+  it('accepts a duration window within 5-180 seconds', () => {
+    expect(parseContentOptions({ durationSeconds: { min: 15, max: 30 } })).toEqual({ durationSeconds: { min: 15, max: 30 } });
+    expect(parseContentOptions({ durationSeconds: { min: 5, max: 5 } })).toEqual({ durationSeconds: { min: 5, max: 5 } });
+    expect(parseContentOptions({ durationSeconds: { min: 90, max: 180 } })).toEqual({ durationSeconds: { min: 90, max: 180 } });
+  });
+
+  it.each([
+    { min: 4, max: 30 },
+    { min: 15, max: 181 },
+    { min: 40, max: 30 },
+    { min: '15', max: 30 },
+    { min: 15 },
+    null,
+  ])('rejects durationSeconds %j', durationSeconds => {
+    expect(() => parseContentOptions({ durationSeconds })).toThrow(/content\.durationSeconds must be \{ min, max \}/);
+  });
+
+  it('normalizes the locale', () => {
+    expect(parseContentOptions({ locale: 'es-mx' })).toEqual({ locale: 'es-MX' });
+    expect(parseContentOptions({ locale: ' zh-hant-tw ' })).toEqual({ locale: 'zh-Hant-TW' });
+  });
+
+  it('rejects missing and invalid locales', () => {
+    expect(() => parseContentOptions({ locale: '' })).toThrow('content.locale must be a BCP 47 language tag');
+    expect(() => parseContentOptions({ locale: 42 })).toThrow('content.locale must be a BCP 47 language tag');
+    expect(() => parseContentOptions({ locale: 'not a locale' })).toThrow('content.locale is not a valid language tag');
+  });
+});
+
+describe('resolveContentOptions', () => {
+  it('fills in the defaults', () => {
+    expect(resolveContentOptions()).toEqual({
+      angleCount: 3,
+      tones: DEFAULT_TONES,
+      platforms: ['tiktok'],
+      durationSeconds: { min: 30, max: 60 },
+      locale: 'en-US',
+    });
+  });
+
+  it('raises the angle count to cover every requested variant, up to the maximum', () => {
+    expect(resolveContentOptions({ angleCount: 2 }, 4).angleCount).toBe(4);
+    expect(resolveContentOptions({}, 12).angleCount).toBe(10);
+  });
+});
+
+describe('scriptLengthRange', () => {
+  it('sizes English scripts at 2.5 words per second with a 25% tolerance', () => {
+    expect(scriptLengthRange(resolveContentOptions({ durationSeconds: { min: 30, max: 60 } }))).toEqual({
+      unit: 'words',
+      min: 75,
+      max: 150,
+      hardMin: 56,
+      hardMax: 188,
+    });
+  });
+
+  it('counts Chinese and Japanese scripts in characters', () => {
+    expect(scriptLengthRange(resolveContentOptions({ durationSeconds: { min: 10, max: 20 }, locale: 'zh-CN' }))).toEqual({
+      unit: 'characters',
+      min: 45,
+      max: 90,
+      hardMin: 33,
+      hardMax: 113,
+    });
+    expect(scriptLengthRange(resolveContentOptions({ durationSeconds: { min: 10, max: 20 }, locale: 'ja-JP' }))).toMatchObject({
+      unit: 'characters',
+      min: 70,
+      max: 140,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  buildRepairPrompt,
+  LlmResponseError,
+  normalizedEnum,
+  numeric,
+  parseLlmJson,
+  stringList,
+} from '../llmResponse';
+
+describe('numeric', () => {
+  const score = numeric(z.number().min(0).max(100));
+
+  it.each([
+    ['85', 85],
+    [' 7.5 ', 7.5],
+    ['42%', 42],
+    [60, 60],
+  ])('reads %j as %j', (input, expected) => {
+    expect(score.parse(input)).toBe(expected);
+  });
+
+  it('reads negative numbers', () => {
+    expect(numeric(z.number()).parse('-3')).toBe(-3);
+  });
+
+  it('leaves other strings for the schema to reject', () => {
+    expect(score.safeParse('eighty').success).toBe(false);
+    expect(score.safeParse('85 points').success).toBe(false);
+    expect(score.safeParse('').success).toBe(false);
+  });
+
+  it('still applies the wrapped schema bounds', () => {
+    expect(score.safeParse('150').success).toBe(false);
+  });
+});
+
+describe('stringList', () => {
+  it('wraps a single string in a list', () => {
+    expect(stringList.parse('Clear label')).toEqual(['Clear label']);
+  });
+
+  it('keeps lists of strings as they are', () => {
+    expect(stringList.parse(['Front', 'Side'])).toEqual(['Front', 'Side']);
+  });
+
+  it('rejects lists with non-string entries', () => {
+    expect(stringList.safeParse(['Front', 3]).success).toBe(false);
+    expect(stringList.safeParse(null).success).toBe(false);
+  });
+});
+
+describe('normalizedEnum', () => {
+  const tone = normalizedEnum(['funny', 'educational']);
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(tone.parse('Funny ')).toBe('funny');
+    expect(tone.parse(' EDUCATIONAL')).toBe('educational');
+  });
+
+  it('rejects values outside the enum', () => {
+    expect(tone.safeParse('sarcastic').success).toBe(false);
+    expect(tone.safeParse(1).success).toBe(false);
+  });
+});
+
+describe('parseLlmJson', () => {
+  const schema = z.object({
+    angles: z.array(z.object({
+      hook: z.string().min(1),
+      score: numeric(z.number().min(0).max(10)),
+    })),
+  });
+
+  it('parses the first JSON object out of surrounding prose and coerces values', () => {
+    const content = 'Here you go:\n```json\n{"angles": [{"hook": "Glow in a week", "score": "8"}]}\n```';
+    expect(parseLlmJson(content, schema, 'Mistral')).toEqual({ angles: [{ hook: 'Glow in a week', score: 8 }] });
+  });
+
+  it('rejects answers without a JSON object', () => {
+    const error = captureError(() => parseLlmJson('I cannot help with that.', schema, 'Mistral'));
+    expect(error.message).toBe('No JSON object found in Mistral response');
+    expect(error.issues).toEqual(['response: expected a JSON object']);
+    expect(error.content).toBe('I cannot help with that.');
+  });
+
+  it('rejects malformed JSON', () => {
+    const error = captureError(() => parseLlmJson('{"angles": [}', schema, 'Vision'));
+    expect(error.message).toMatch(/^Failed to parse Vision response as JSON/);
+    expect(error.issues[0]).toMatch(/^response: invalid JSON/);
+  });
+
+  it('reports one issue per invalid field with its path', () => {
+    const content = JSON.stringify({ angles: [{ hook: 'Fine', score: 5 }, { hook: '', score: 'high' }] });
+    const error = captureError(() => parseLlmJson(content, schema, 'Mistral'));
+    expect(error.issues).toHaveLength(2);
+    expect(error.issues[0]).toMatch(/^angles\[1\]\.hook: /);
+    expect(error.issues[1]).toMatch(/^angles\[1\]\.score: /);
+    expect(error.message).toMatch(/^Invalid Mistral response: angles\[1\]\.hook: /);
+  });
+
+  it('summarises long issue lists in the message', () => {
+    const content = JSON.stringify({ angles: [{}, {}] });
+    const error = captureError(() => parseLlmJson(content, schema, 'Mistral'));
+    expect(error.issues).toHaveLength(4);
+    expect(error.message).toMatch(/\(\+1 more\)$/);
+  });
+
+  it('reports a wrong field type against the field and a wrong root against the response', () => {
+    expect(captureError(() => parseLlmJson('{"angles": "none"}', schema, 'Mistral')).issues[0]).toMatch(/^angles: /);
+    expect(captureError(() => parseLlmJson('{}', z.array(z.string()), 'Mistral')).issues[0]).toMatch(/^response: /);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists every issue and asks for the complete corrected JSON', () => {
+    const prompt = buildRepairPrompt(
+      new LlmResponseError('Invalid Mistral response', ['angles[0].hook: Required', 'angles[1].score: Expected number'], '{}')
+    );
+    expect(prompt).toContain('- angles[0].hook: Required\n- angles[1].score: Expected number');
+    expect(prompt).toMatch(/respond with the complete corrected JSON only/);
+  });
+});
+
+function captureError(fn: () => unknown): LlmResponseError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(LlmResponseError);
+    return error as LlmResponseError;
+  }
+  throw new Error('Expected an LlmResponseError');
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { formatPrice } from '../../utils';
+import {
+  countSpokenUnits,
+  getCaptionLayout,
+  isCjkLocale,
+  isRtlLocale,
+  splitSentences,
+} from '../locale';
+import { createTimeline } from '../shotstack';
+
+// Intl separates amount and symbol with a non-breaking space, narrow in newer ICU releases
+function plainSpaces(text: string): string {
+  return text.replace(/\s/g, ' ');
+}
+
+describe('formatPrice', () => {
+  it.each([
+    ['en-US', 'USD', '$1,299.50'],
+    ['de-DE', 'EUR', '1.299,50 €'],
+    ['fr-FR', 'EUR', '1 299,50 €'],
+    ['ja-JP', 'JPY', '￥1,300'],
+  ])('writes money the %s way in %s', (locale, currency, expected) => {
+    expect(plainSpaces(formatPrice(1299.5, currency, locale))).toBe(expected);
+  });
+
+  it('keeps the scraped currency rather than the locale one', () => {
+    expect(plainSpaces(formatPrice(19.99, 'USD', 'de-DE'))).toBe('19,99 $');
+  });
+
+  it('uses Arabic-Indic digits for Arabic locales', () => {
+    expect(formatPrice(29, 'EGP', 'ar-EG')).toContain('٢٩');
+  });
+
+  it('falls back to the amount and code for currencies Intl rejects', () => {
+    expect(formatPrice(12.5, 'BAD1', 'en-US')).toBe('12.50 BAD1');
+  });
+});
+
+describe('caption layout', () => {
+  it.each(['ar-SA', 'he-IL', 'fa-IR', 'ur-PK'])('lays %s out right to left', locale => {
+    expect(isRtlLocale(locale)).toBe(true);
+    expect(getCaptionLayout(locale).direction).toBe('rtl');
+  });
+
+  it('keeps left-to-right scripts left to right', () => {
+    expect(isRtlLocale('en-US')).toBe(false);
+    expect(isRtlLocale('tr-TR')).toBe(false);
+    expect(getCaptionLayout().direction).toBe('ltr');
+  });
+
+  it('breaks Chinese and Japanese between characters but only needs a CJK font for Korean', () => {
+    expect(getCaptionLayout('zh-CN')).toMatchObject({ cjk: true, cjkFont: true });
+    expect(getCaptionLayout('ja-JP')).toMatchObject({ cjk: true, cjkFont: true });
+    expect(getCaptionLayout('ko-KR')).toMatchObject({ cjk: false, cjkFont: true });
+    expect(isCjkLocale('en-US')).toBe(false);
+  });
+
+  it('picks a font stack per script', () => {
+    expect(getCaptionLayout('zh-TW').fontFamily).toMatch(/^'Noto Sans CJK TC'/);
+    expect(getCaptionLayout('zh-CN').fontFamily).toMatch(/^'Noto Sans CJK SC'/);
+    expect(getCaptionLayout('ja-JP').fontFamily).toMatch(/^'Noto Sans CJK JP'/);
+    expect(getCaptionLayout('ar-EG').fontFamily).toMatch(/^'Noto Sans Arabic'/);
+    expect(getCaptionLayout('he-IL').fontFamily).toMatch(/^'Noto Sans Hebrew'/);
+    expect(getCaptionLayout('es-MX').fontFamily).toBe('Arial, sans-serif');
+  });
+
+  it('splits captions with each language\'s sentence punctuation', () => {
+    expect(splitSentences('これは美容液です。毎日使えます！本当？', 'ja-JP')).toEqual([
+      'これは美容液です。',
+      '毎日使えます！',
+      '本当？',
+    ]);
+    expect(splitSentences('هل جربته؟ إنه رائع.', 'ar-EG')).toEqual(['هل جربته؟', 'إنه رائع.']);
+  });
+
+  it('counts Chinese and Japanese scripts in characters without punctuation', () => {
+    expect(countSpokenUnits('毎日使えます！', 'ja-JP')).toBe(6);
+    expect(countSpokenUnits('Use it every day!', 'en-US')).toBe(4);
+  });
+});
+
+describe('createTimeline captions', () => {
+  function captionHtml(locale: string, script: string): string[] {
+    const timeline = createTimeline({
+      videoUrl: 'https://cdn.example.com/base.mp4',
+      productImageUrl: 'https://cdn.example.com/product.jpg',
+      transparentProductUrl: 'https://cdn.example.com/cutout.png',
+      hook: '',
+      script,
+      videoDuration: 12,
+      locale,
+    });
+    return timeline.tracks[timeline.tracks.length - 1].clips.map(clip => clip.asset.html!);
+  }
+
+  it('marks Arabic captions right to left with their language', () => {
+    const [first] = captionHtml('ar-EG', 'هل جربته؟ إنه رائع.');
+    expect(first).toContain('lang="ar-EG" dir="rtl"');
+    expect(first).toContain('direction: rtl;');
+    expect(first).toContain('>هل جربته؟</div>');
+  });
+
+  it('lets Japanese captions break between characters under strict punctuation rules', () => {
+    const captions = captionHtml('ja-JP', 'これは美容液です。毎日使えます！');
+    expect(captions).toHaveLength(2);
+    expect(captions[0]).toContain('dir="ltr"');
+    expect(captions[0]).toContain('line-break: strict; word-break: normal; overflow-wrap: anywhere;');
+  });
+
+  it('keeps Latin captions from breaking inside words', () => {
+    const [first] = captionHtml('en-US', 'Glow in a week.');
+    expect(first).toContain('word-break: keep-all; overflow-wrap: break-word;');
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProductData, ProductReview } from '../../types';
+
+const { completeLlmJson } = vi.hoisted(() => ({ completeLlmJson: vi.fn() }));
+
+vi.mock('../mistral', async importOriginal => ({
+  ...(await importOriginal<typeof import('../mistral')>()),
+  completeLlmJson,
+}));
+
+import { analyzeReviews, analyzeReviewsLocally } from '../reviews';
+
+const REVIEWS: ProductReview[] = [
+  { author: 'Dana', rating: 5, text: 'My dark spots faded in three weeks. The dropper makes it easy to use.' },
+  { author: '  ', rating: 4, text: 'I use it every morning before makeup and my skin looks “so much brighter”.' },
+  { author: 'Sam', rating: 2, text: 'The bottle leaked   during shipping and half the serum was gone.' },
+];
+
+const PRODUCT = {
+  name: 'Glow Serum',
+  reviews: REVIEWS,
+} as ProductData;
+
+function mineQuotes(quotes: Array<{ review: number; text: string }>) {
+  // Validated against the real schema, as completeLlmJson would
+  completeLlmJson.mockImplementation(async (_prompt, schema) => schema.parse({
+    themes: [{ kind: 'benefit', label: 'Fades dark spots', summary: 'Spots fade fast', mentions: 2, quotes }],
+  }));
+  return analyzeReviews(PRODUCT).then(analysis => analysis.themes[0].quotes);
+}
+
+describe('analyzeReviews quote filter', () => {
+  beforeEach(() => {
+    completeLlmJson.mockReset();
+  });
+
+  it('keeps quotes that appear word for word in their review', async () => {
+    expect(await mineQuotes([{ review: 0, text: 'My dark spots faded in three weeks.' }])).toEqual([
+      { text: 'My dark spots faded in three weeks', author: 'Dana', rating: 5 },
+    ]);
+  });
+
+  it('forgives case, curly quotes, whitespace and surrounding punctuation but returns the review text', async () => {
+    expect(await mineQuotes([
+      { review: 1, text: '"I USE IT every  morning before makeup."' },
+      { review: 2, text: '“the bottle leaked during shipping!”' },
+    ])).toEqual([
+      { text: 'I use it every morning before makeup', author: 'Verified buyer', rating: 4 },
+      { text: 'The bottle leaked during shipping', author: 'Sam', rating: 2 },
+    ]);
+  });
+
+  it('drops reworded quotes and quotes attributed to the wrong review', async () => {
+    expect(await mineQuotes([
+      { review: 0, text: 'My dark spots disappeared in three weeks' },
+      { review: 1, text: 'my skin looks so much brighter' },
+      { review: 1, text: 'My dark spots faded in three weeks' },
+    ])).toEqual([]);
+  });
+
+  it('drops quotes too short or too long for a script', async () => {
+    const long = { author: 'Lee', rating: 5, text: Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ') };
+    completeLlmJson.mockImplementation(async (_prompt, schema) => schema.parse({
+      themes: [{
+        kind: 'benefit',
+        label: 'Easy',
+        summary: 'Easy to use',
+        mentions: 1,
+        quotes: [{ review: 0, text: 'easy to' }, { review: 3, text: long.text }],
+      }],
+    }));
+
+    const analysis = await analyzeReviews({ ...PRODUCT, reviews: [...REVIEWS, long] });
+    expect(analysis.themes[0].quotes).toEqual([]);
+  });
+
+  it('keeps at most three quotes per theme', async () => {
+    expect(await mineQuotes([
+      { review: 0, text: 'My dark spots faded' },
+      { review: 0, text: 'makes it easy to use' },
+      { review: 1, text: 'I use it every morning' },
+      { review: 2, text: 'half the serum was gone' },
+    ])).toHaveLength(3);
+  });
+
+  it('only quotes review sentences when clustering locally', () => {
+    const analysis = analyzeReviewsLocally(REVIEWS);
+    const reviewText = REVIEWS.map(review => review.text).join(' ');
+
+    expect(analysis.source).toBe('local');
+    expect(analysis.themes.length).toBeGreaterThan(0);
+    for (const theme of analysis.themes) {
+      for (const quote of theme.quotes) {
+        expect(reviewText).toContain(quote.text);
+      }
+    }
+  });
+
+  it('skips the LLM when asked to', async () => {
+    const analysis = await analyzeReviews(PRODUCT, { useLlm: false });
+    expect(analysis.source).toBe('local');
+    expect(completeLlmJson).not.toHaveBeenCalled();
+  });
+});
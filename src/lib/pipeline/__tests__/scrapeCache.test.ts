@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  cacheScrape,
+  canonicalizeProductUrl,
+  getCachedScrape,
+  getScrapeCacheTtlMs,
+} from '../scrapeCache';
+import type { ProductData } from '../../types';
+
+const PRODUCT = {
+  url: 'https://lumenlabs.com/products/glow-serum',
+  name: 'Glow Serum',
+  price: 29,
+  currency: 'USD',
+} as ProductData;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('canonicalizeProductUrl', () => {
+  it('drops tracking parameters and the fragment and sorts the rest', () => {
+    expect(canonicalizeProductUrl(
+      'https://lumenlabs.com/products/glow-serum?utm_source=tiktok&variant=42&fbclid=abc&color=red&ref=home#reviews'
+    )).toBe('https://lumenlabs.com/products/glow-serum?color=red&variant=42');
+  });
+
+  it('lower-cases the host and drops www. and trailing slashes', () => {
+    expect(canonicalizeProductUrl('https://WWW.LumenLabs.com/products/glow-serum/')).toBe(
+      'https://lumenlabs.com/products/glow-serum'
+    );
+    expect(canonicalizeProductUrl('https://lumenlabs.com/')).toBe('https://lumenlabs.com/');
+  });
+
+  it('treats every tracking prefix case-insensitively', () => {
+    expect(canonicalizeProductUrl('https://lumenlabs.com/p?UTM_Campaign=x&pf_rd_p=y&hsa_ad=z&_ga=1')).toBe(
+      'https://lumenlabs.com/p'
+    );
+  });
+
+  it('keeps parameters that select a product', () => {
+    expect(canonicalizeProductUrl('https://shop.example.com/index.php?route=product&product_id=7')).toBe(
+      'https://shop.example.com/index.php?product_id=7&route=product'
+    );
+  });
+
+  it('reduces Amazon links to /dp/<ASIN>', () => {
+    expect(canonicalizeProductUrl(
+      'https://www.amazon.com/Lumen-Labs-Glow-Serum/dp/b0c1234567/ref=sr_1_3?keywords=serum&qid=1700000000'
+    )).toBe('https://amazon.com/dp/B0C1234567');
+  });
+
+  it('gives the same key to links that only differ in tracking', () => {
+    expect(canonicalizeProductUrl('https://lumenlabs.com/products/glow-serum?utm_medium=paid'))
+      .toBe(canonicalizeProductUrl('https://www.lumenlabs.com/products/glow-serum#top'));
+  });
+});
+
+describe('getScrapeCacheTtlMs', () => {
+  const original = process.env.SCRAPE_CACHE_TTL_HOURS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.SCRAPE_CACHE_TTL_HOURS;
+    else process.env.SCRAPE_CACHE_TTL_HOURS = original;
+  });
+
+  it('defaults to 24 hours', () => {
+    delete process.env.SCRAPE_CACHE_TTL_HOURS;
+    expect(getScrapeCacheTtlMs()).toBe(24 * HOUR_MS);
+    process.env.SCRAPE_CACHE_TTL_HOURS = '';
+    expect(getScrapeCacheTtlMs()).toBe(24 * HOUR_MS);
+  });
+
+  it('reads fractional hours', () => {
+    process.env.SCRAPE_CACHE_TTL_HOURS = '1.5';
+    expect(getScrapeCacheTtlMs()).toBe(1.5 * HOUR_MS);
+  });
+
+  it.each(['0', '-2', 'never'])('disables the cache for %s', value => {
+    process.env.SCRAPE_CACHE_TTL_HOURS = value;
+    expect(getScrapeCacheTtlMs()).toBe(0);
+  });
+});
+
+describe('scrape cache entries', () => {
+  const KEY = 'https://lumenlabs.com/products/glow-serum';
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ugc-scrape-cache-'));
+    process.env.SCRAPE_CACHE_FILE = path.join(dir, 'scrapes.json');
+    delete (globalThis as { __ugcScrapeCache?: unknown }).__ugcScrapeCache;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    delete process.env.SCRAPE_CACHE_FILE;
+    delete (globalThis as { __ugcScrapeCache?: unknown }).__ugcScrapeCache;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves a scrape until its TTL runs out', async () => {
+    const entry = await cacheScrape(KEY, PRODUCT, 2 * HOUR_MS);
+    expect(entry).toEqual({
+      id: KEY,
+      productData: PRODUCT,
+      cachedAt: '2024-06-01T12:00:00.000Z',
+      expiresAt: '2024-06-01T14:00:00.000Z',
+    });
+
+    vi.setSystemTime(new Date('2024-06-01T13:59:59.000Z'));
+    expect((await getCachedScrape(KEY))?.productData).toEqual(PRODUCT);
+
+    vi.setSystemTime(new Date('2024-06-01T14:00:00.000Z'));
+    expect(await getCachedScrape(KEY)).toBeNull();
+  });
+
+  it('forgets an expired entry', async () => {
+    await cacheScrape(KEY, PRODUCT, HOUR_MS);
+    vi.setSystemTime(new Date('2024-06-01T15:00:00.000Z'));
+    expect(await getCachedScrape(KEY)).toBeNull();
+
+    vi.setSystemTime(new Date('2024-06-01T12:30:00.000Z'));
+    expect(await getCachedScrape(KEY)).toBeNull();
+  });
+
+  it('restarts the TTL when a product is scraped again', async () => {
+    await cacheScrape(KEY, PRODUCT, HOUR_MS);
+    vi.setSystemTime(new Date('2024-06-01T12:45:00.000Z'));
+    await cacheScrape(KEY, { ...PRODUCT, price: 25 }, HOUR_MS);
+
+    vi.setSystemTime(new Date('2024-06-01T13:30:00.000Z'));
+    expect((await getCachedScrape(KEY))?.productData.price).toBe(25);
+  });
+
+  it('misses on keys that were never cached', async () => {
+    expect(await getCachedScrape('https://lumenlabs.com/products/other')).toBeNull();
+  });
+});
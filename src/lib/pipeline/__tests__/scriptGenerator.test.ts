@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProductData, VisionAnalysis } from '../../types';
+
+const { chat, MistralClient, recordCost } = vi.hoisted(() => {
+  const chat = vi.fn();
+  return {
+    chat,
+    MistralClient: vi.fn(() => ({ chat })),
+    recordCost: vi.fn(),
+  };
+});
+
+vi.mock('@mistralai/mistralai', () => ({ default: MistralClient }));
+vi.mock('../../ledger', () => ({ recordCost }));
+
+import { completeScript } from '../scriptGenerator';
+import { generateMarketingAngles } from '../mistral';
+
+const PRODUCT: ProductData = {
+  url: 'https://lumenlabs.com/products/glow-serum',
+  name: 'Glow Serum',
+  price: 29,
+  currency: 'USD',
+  description: 'A lightweight vitamin C serum that brightens dull skin and fades dark spots in a few weeks of daily use.',
+  ingredients: 'Water, ascorbic acid, glycerin',
+  images: ['https://cdn.shopify.com/glow-serum-front.jpg'],
+  reviews: [],
+  rating: 4.6,
+  reviewCount: 128,
+  category: 'Skincare',
+  scrapedAt: '2024-01-01T00:00:00.000Z',
+  source: 'shopify',
+};
+
+const VISION: VisionAnalysis = {
+  packagingQuality: { score: 80, analysis: 'Clean dropper bottle', strengths: ['Clear label'], weaknesses: [] },
+  colorPalette: { dominant: ['#f5a623', '#ffffff'], accent: ['#333333'], mood: 'bright', vibrancy: 70 },
+  visualHooks: { hooks: ['Dropper close-up'], engagementPotential: 70, tiktokAppeal: 75 },
+  productPlacement: { recommendedAngles: ['Front'], lightingSuggestions: [], focalPoints: ['Label'] },
+  backgroundRecommendations: { settings: ['Bathroom shelf'], props: [], style: 'clean' },
+  heroImage: 'https://cdn.shopify.com/glow-serum-front.jpg',
+  images: [],
+  metadata: { completenessScore: 90, confidence: 90, estimatedCost: 0, timestamp: '2024-01-01T00:00:00.000Z', model: 'fixture' },
+};
+
+const REQUEST = {
+  messages: [{ role: 'user' as const, content: 'Write JSON' }],
+  temperature: 0.7,
+  maxTokens: 100,
+  stub: () => ({ ok: true }),
+};
+
+describe('script providers', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.MISTRAL_API_KEY = 'test-key';
+    chat.mockReset();
+    recordCost.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('sends JSON-mode chat requests through MistralClient and bills the reported usage', async () => {
+    process.env.SCRIPT_PROVIDERS = 'mistral';
+    chat.mockResolvedValue({
+      model: 'mistral-large-2402',
+      choices: [{ index: 0, message: { role: 'assistant', content: '{"ok":true}' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+    });
+
+    const result = await completeScript(REQUEST);
+
+    expect(MistralClient).toHaveBeenCalledWith('test-key');
+    expect(chat).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'mistral-large-latest',
+      messages: REQUEST.messages,
+      maxTokens: 100,
+      responseFormat: { type: 'json_object' },
+    }));
+    expect(result).toMatchObject({
+      provider: 'mistral',
+      model: 'mistral-large-2402',
+      content: '{"ok":true}',
+      usage: { prompt: 1000, completion: 500 },
+    });
+    expect(result.cost).toBeCloseTo(0.005);
+    expect(recordCost).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'mistral',
+      tokens: { prompt: 1000, completion: 500 },
+    }));
+  });
+
+  it('falls back to the next provider when Mistral answers with an HTTP error', async () => {
+    process.env.SCRIPT_PROVIDERS = 'mistral,stub';
+    chat.mockRejectedValue(new Error('HTTP error! status: 401 Response: \n{"message":"Unauthorized"}'));
+
+    const result = await completeScript(REQUEST);
+
+    expect(result).toMatchObject({ provider: 'stub', content: '{"ok":true}', cost: 0 });
+    expect(recordCost).not.toHaveBeenCalled();
+  });
+
+  it('writes the same angles on every offline run with the stub provider', async () => {
+    process.env.SCRIPT_PROVIDERS = 'stub';
+
+    const first = await generateMarketingAngles(PRODUCT, VISION, { angleCount: 3 });
+    const second = await generateMarketingAngles(PRODUCT, VISION, { angleCount: 3 });
+
+    expect(first).toHaveLength(3);
+    expect(first.map(angle => [angle.hook, angle.script, angle.tone]))
+      .toEqual(second.map(angle => [angle.hook, angle.script, angle.tone]));
+    for (const angle of first) {
+      expect(angle.hook).toContain('Glow Serum');
+      expect(angle).toMatchObject({ metadata: { provider: 'stub', cost: 0 } });
+    }
+    expect(chat).not.toHaveBeenCalled();
+  });
+});
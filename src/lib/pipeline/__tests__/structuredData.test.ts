@@ -0,0 +1,219 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import {
+  extractJsonLd,
+  extractMicrodata,
+  extractOpenGraph,
+  extractStructuredData,
+  mergeProductFields,
+  parsePrice,
+} from '../structuredData';
+
+const BASE_URL = 'https://shop.example.com/products/glow-serum';
+
+function page(head: string, body: string = ''): cheerio.CheerioAPI {
+  return cheerio.load(`<html><head>${head}</head><body>${body}</body></html>`);
+}
+
+function jsonLd(data: unknown): string {
+  return `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+}
+
+const JSON_LD_PRODUCT = {
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: 'Glow Serum',
+  description: 'A lightweight vitamin C serum that brightens dull skin.',
+  image: ['/images/serum-front.jpg', { '@type': 'ImageObject', contentUrl: 'https://cdn.example.com/serum-side.jpg' }],
+  brand: { '@type': 'Brand', name: 'Lumen Labs' },
+  offers: { '@type': 'Offer', price: '29.00', priceCurrency: 'usd' },
+  aggregateRating: { '@type': 'AggregateRating', ratingValue: '4.6', reviewCount: 128 },
+  review: [
+    {
+      '@type': 'Review',
+      author: { '@type': 'Person', name: 'Dana' },
+      reviewRating: { ratingValue: 5 },
+      reviewBody: 'My dark spots faded in three weeks.',
+      datePublished: '2024-02-10',
+    },
+    { '@type': 'Review', author: 'Sam', reviewRating: { ratingValue: 4 } },
+  ],
+};
+
+const MICRODATA_PRODUCT = `
+  <div itemscope itemtype="https://schema.org/Product">
+    <h1 itemprop="name">Glow Serum 30ml</h1>
+    <img itemprop="image" src="/images/serum-micro.jpg">
+    <div itemprop="brand" itemscope itemtype="https://schema.org/Brand"><span itemprop="name">Lumen Labs</span></div>
+    <p itemprop="description">Brightening serum with 15% vitamin C for daily use.</p>
+    <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+      <meta itemprop="priceCurrency" content="EUR">
+      <span itemprop="price" content="27.50">27,50 €</span>
+    </div>
+    <div itemprop="aggregateRating" itemscope itemtype="https://schema.org/AggregateRating">
+      <span itemprop="ratingValue">4.4</span> from <span itemprop="reviewCount">52</span> reviews
+    </div>
+    <div itemprop="review" itemscope itemtype="https://schema.org/Review">
+      <span itemprop="author">Ana</span>
+      <meta itemprop="datePublished" content="2024-01-05">
+      <div itemprop="reviewRating" itemscope><meta itemprop="ratingValue" content="5"></div>
+      <p itemprop="reviewBody">Absorbs fast and smells fine.</p>
+    </div>
+  </div>`;
+
+const OPEN_GRAPH_META = `
+  <meta property="og:title" content="Glow Serum | Lumen Labs Store">
+  <meta property="og:description" content="Shop the serum everyone is talking about.">
+  <meta property="og:image" content="https://cdn.example.com/og-serum.jpg">
+  <meta property="og:image:secure_url" content="https://cdn.example.com/og-serum-secure.jpg">
+  <meta property="product:price:amount" content="31.00">
+  <meta property="product:price:currency" content="gbp">
+  <meta property="product:brand" content="Lumen Labs">`;
+
+describe('extractJsonLd', () => {
+  it('maps a schema.org Product with offers, ratings and reviews', () => {
+    expect(extractJsonLd(page(jsonLd(JSON_LD_PRODUCT)), BASE_URL)).toEqual({
+      name: 'Glow Serum',
+      price: 29,
+      currency: 'USD',
+      description: 'A lightweight vitamin C serum that brightens dull skin.',
+      images: ['https://shop.example.com/images/serum-front.jpg', 'https://cdn.example.com/serum-side.jpg'],
+      brand: 'Lumen Labs',
+      rating: 4.6,
+      reviewCount: 128,
+      reviews: [{ rating: 5, text: 'My dark spots faded in three weeks.', author: 'Dana', date: '2024-02-10' }],
+    });
+  });
+
+  it('finds the Product inside an @graph', () => {
+    const $ = page(jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebSite', name: 'Lumen Labs Store' },
+        { '@type': ['Product'], name: 'Glow Serum', offers: [{ '@type': 'Offer', lowPrice: 24, priceCurrency: 'USD' }] },
+      ],
+    }));
+    expect(extractJsonLd($, BASE_URL)).toMatchObject({ name: 'Glow Serum', price: 24, currency: 'USD' });
+  });
+
+  it('reads the offer of a ProductGroup variant', () => {
+    const $ = page(jsonLd({
+      '@type': 'ProductGroup',
+      name: 'Glow Serum',
+      hasVariant: [{ '@type': 'Product', sku: 'GS-30', image: '/images/serum-30.jpg', offers: { price: 29, priceCurrency: 'USD' } }],
+    }));
+    expect(extractJsonLd($, BASE_URL)).toMatchObject({
+      price: 29,
+      images: ['https://shop.example.com/images/serum-30.jpg'],
+    });
+  });
+
+  it('tolerates raw newlines inside JSON-LD strings', () => {
+    const $ = page('<script type="application/ld+json">{"@type": "Product", "name": "Glow\n\tSerum"}</script>');
+    expect(extractJsonLd($, BASE_URL).name).toBe('Glow Serum');
+  });
+
+  it('returns nothing without a Product node or with broken JSON', () => {
+    expect(extractJsonLd(page(jsonLd({ '@type': 'Organization', name: 'Lumen Labs' })), BASE_URL)).toEqual({});
+    expect(extractJsonLd(page('<script type="application/ld+json">{"@type": "Product",</script>'), BASE_URL)).toEqual({});
+  });
+});
+
+describe('extractMicrodata', () => {
+  it('reads itemprops scoped to the Product, preferring content attributes', () => {
+    expect(extractMicrodata(page('', MICRODATA_PRODUCT), BASE_URL)).toEqual({
+      name: 'Glow Serum 30ml',
+      price: 27.5,
+      currency: 'EUR',
+      description: 'Brightening serum with 15% vitamin C for daily use.',
+      images: ['https://shop.example.com/images/serum-micro.jpg'],
+      brand: 'Lumen Labs',
+      rating: 4.4,
+      reviewCount: 52,
+      reviews: [{ rating: 5, text: 'Absorbs fast and smells fine.', author: 'Ana', date: '2024-01-05' }],
+    });
+  });
+
+  it('ignores pages without a Product itemscope', () => {
+    expect(extractMicrodata(page('', '<div itemscope itemtype="https://schema.org/Organization"></div>'), BASE_URL)).toEqual({});
+  });
+});
+
+describe('extractOpenGraph', () => {
+  it('reads og and product meta tags, secure images first', () => {
+    expect(extractOpenGraph(page(OPEN_GRAPH_META), BASE_URL)).toEqual({
+      name: 'Glow Serum | Lumen Labs Store',
+      price: 31,
+      currency: 'GBP',
+      description: 'Shop the serum everyone is talking about.',
+      images: ['https://cdn.example.com/og-serum-secure.jpg', 'https://cdn.example.com/og-serum.jpg'],
+      brand: 'Lumen Labs',
+    });
+  });
+
+  it('falls back to og:price tags', () => {
+    const $ = page('<meta property="og:price:amount" content="1.299,00"><meta property="og:price:currency" content="EUR">');
+    expect(extractOpenGraph($, BASE_URL)).toMatchObject({ price: 1299, currency: 'EUR' });
+  });
+});
+
+describe('mergeProductFields', () => {
+  it('takes each field from the most trusted source and records where it came from', () => {
+    const $ = page(jsonLd({ '@type': 'Product', name: 'Glow Serum', offers: { price: 29, priceCurrency: 'USD' } }) + OPEN_GRAPH_META, MICRODATA_PRODUCT);
+    const { fields, fieldSources } = mergeProductFields(extractStructuredData($, BASE_URL));
+
+    expect(fields).toMatchObject({ name: 'Glow Serum', price: 29, currency: 'USD', rating: 4.4, brand: 'Lumen Labs' });
+    expect(fieldSources).toMatchObject({
+      name: 'json-ld',
+      price: 'json-ld',
+      currency: 'json-ld',
+      description: 'microdata',
+      rating: 'microdata',
+      brand: 'microdata',
+      images: 'microdata',
+    });
+    expect(fields.images).toEqual([
+      'https://shop.example.com/images/serum-micro.jpg',
+      'https://cdn.example.com/og-serum-secure.jpg',
+      'https://cdn.example.com/og-serum.jpg',
+    ]);
+  });
+
+  it('keeps the price and currency from the same source', () => {
+    const { fields, fieldSources } = mergeProductFields([
+      { source: 'json-ld', fields: { price: 29 } },
+      { source: 'opengraph', fields: { price: 31, currency: 'GBP' } },
+    ]);
+    expect(fields).toMatchObject({ price: 29 });
+    expect(fieldSources.price).toBe('json-ld');
+    expect(fields.currency).toBe('GBP');
+    expect(fieldSources.currency).toBe('opengraph');
+
+    const paired = mergeProductFields([
+      { source: 'json-ld', fields: { price: 29, currency: 'USD' } },
+      { source: 'opengraph', fields: { currency: 'GBP' } },
+    ]);
+    expect(paired.fields.currency).toBe('USD');
+  });
+
+  it('skips descriptions too short to be useful', () => {
+    const { fieldSources } = mergeProductFields([
+      { source: 'json-ld', fields: { description: 'Serum' } },
+      { source: 'opengraph', fields: { description: 'Shop the serum everyone is talking about.' } },
+    ]);
+    expect(fieldSources.description).toBe('opengraph');
+  });
+});
+
+describe('parsePrice', () => {
+  it.each([
+    ['$29.00', 29],
+    ['1,299.00', 1299],
+    ['1.299,00 €', 1299],
+    ['27,50', 27.5],
+    ['1,299', 1299],
+    ['free', 0],
+  ])('reads %s as %d', (input, expected) => {
+    expect(parsePrice(input)).toBe(expected);
+  });
+});
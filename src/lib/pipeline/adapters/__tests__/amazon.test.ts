@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { detectSiteAdapter, loadPage, scrapeWithAdapter } from '..';
+import { amazonAdapter } from '../amazon';
+import { loadFixturePage } from './helpers';
+
+const PRODUCT_URL = 'https://www.amazon.com/Trail-Bottle-Insulated/dp/B0TRAIL001/ref=sr_1_1?keywords=bottle';
+
+describe('amazonAdapter', () => {
+  it('matches Amazon storefront hosts only', () => {
+    expect(detectSiteAdapter(PRODUCT_URL)?.name).toBe('amazon');
+    expect(detectSiteAdapter('https://www.amazon.co.uk/dp/B0TRAIL001')?.name).toBe('amazon');
+    expect(detectSiteAdapter('https://amazon.example.com/dp/B0TRAIL001')).toBeNull();
+  });
+
+  it('uses the ASIN as the canonical URL', () => {
+    expect(amazonAdapter.canonicalUrl!(new URL(PRODUCT_URL))).toBe('https://www.amazon.com/dp/B0TRAIL001');
+    expect(amazonAdapter.canonicalUrl!(new URL('https://www.amazon.com/gp/product/b0trail001?th=1')))
+      .toBe('https://www.amazon.com/dp/B0TRAIL001');
+  });
+
+  it('maps the product page', async () => {
+    const product = await scrapeWithAdapter(amazonAdapter, PRODUCT_URL, loadFixturePage('amazon-product.html'));
+
+    expect(product).toMatchObject({
+      source: 'amazon',
+      name: 'Trail Bottle Insulated Water Bottle, 750 ml',
+      price: 24.99,
+      currency: 'USD',
+      description: 'Keeps drinks cold for 24 hours Leak-proof lid\n\nDouble-walled stainless steel bottle.',
+      ingredients: '',
+      images: [
+        'https://m.media-amazon.com/images/I/trail-main._AC_SL1500_.jpg',
+        'https://m.media-amazon.com/images/I/trail-main._AC_SX300_.jpg',
+        'https://m.media-amazon.com/images/I/trail-side._AC_SL1500_.jpg',
+      ],
+      brand: 'Summit',
+      category: 'Water Bottles',
+      rating: 4.4,
+      reviewCount: 2314,
+    });
+    // Reviews without a body are dropped
+    expect(product.reviews).toEqual([
+      {
+        author: 'Sam',
+        rating: 5,
+        text: 'Still cold after a full day hiking.',
+        date: 'Reviewed in the United States on March 2, 2024',
+      },
+    ]);
+  });
+
+  it('prices and stocks only the selected twister variant', async () => {
+    const product = await scrapeWithAdapter(amazonAdapter, PRODUCT_URL, loadFixturePage('amazon-product.html'));
+
+    expect(product.variants).toEqual([
+      {
+        id: 'B0TRAIL001',
+        sku: 'B0TRAIL001',
+        title: 'Black / 750 ml',
+        options: { Colour: 'Black', Size: '750 ml' },
+        price: 24.99,
+        available: true,
+      },
+      {
+        id: 'B0TRAIL002',
+        sku: 'B0TRAIL002',
+        title: 'Sage / 750 ml',
+        options: { Colour: 'Sage', Size: '750 ml' },
+        price: undefined,
+        available: undefined,
+      },
+    ]);
+  });
+
+  it('fails with BLOCKED on a captcha page', async () => {
+    await expect(scrapeWithAdapter(amazonAdapter, PRODUCT_URL, loadFixturePage('amazon-captcha.html')))
+      .rejects.toMatchObject({ adapter: 'amazon', code: 'BLOCKED' });
+  });
+
+  it('fails with EMPTY_PRODUCT without a product title', async () => {
+    await expect(scrapeWithAdapter(amazonAdapter, PRODUCT_URL, loadPage('<html><body></body></html>')))
+      .rejects.toMatchObject({ code: 'EMPTY_PRODUCT' });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { detectSiteAdapter, scrapeWithAdapter } from '..';
+import { etsyAdapter } from '../etsy';
+import { loadFixturePage } from './helpers';
+
+const LISTING_URL = 'https://www.etsy.com/listing/123456789/hand-thrown-mug?ref=shop_home';
+
+describe('etsyAdapter', () => {
+  it('matches listing URLs only', () => {
+    expect(detectSiteAdapter(LISTING_URL)?.name).toBe('etsy');
+    expect(detectSiteAdapter('https://www.etsy.com/shop/ClayCornerStudio')).toBeNull();
+  });
+
+  it('uses the listing id as the canonical URL', () => {
+    expect(etsyAdapter.canonicalUrl!(new URL(LISTING_URL))).toBe('https://www.etsy.com/listing/123456789');
+  });
+
+  it('maps the schema.org listing and keeps the longer page description', async () => {
+    const product = await scrapeWithAdapter(etsyAdapter, LISTING_URL, loadFixturePage('etsy-listing.html'));
+
+    expect(product).toMatchObject({
+      source: 'etsy',
+      name: 'Hand-thrown Stoneware Mug',
+      price: 32,
+      currency: 'USD',
+      description: 'Stoneware mug, thrown by hand and glazed in small batches. Holds 350 ml and is dishwasher safe.',
+      images: ['https://i.etsystatic.com/1/mug-front.jpg', 'https://i.etsystatic.com/1/mug-side.jpg'],
+      brand: 'ClayCorner',
+      rating: 4.9,
+      reviewCount: 87,
+      reviews: [{ author: 'Jo', rating: 5, text: 'Beautiful glaze, holds heat well.', date: '2024-03-01' }],
+      fieldSources: { name: 'json-ld', price: 'json-ld', description: 'platform' },
+    });
+  });
+
+  it('turns each variation option into a priced variant', async () => {
+    const product = await scrapeWithAdapter(etsyAdapter, LISTING_URL, loadFixturePage('etsy-listing.html'));
+
+    expect(product.variants).toEqual([
+      {
+        id: '123456789-1101',
+        title: 'Ocean blue',
+        options: { 'Glaze colour': 'Ocean blue' },
+        price: 32,
+        available: true,
+      },
+      {
+        id: '123456789-1102',
+        title: 'Speckled white',
+        options: { 'Glaze colour': 'Speckled white' },
+        price: 38,
+        available: true,
+      },
+      {
+        id: '123456789-1103',
+        title: 'Forest green',
+        options: { 'Glaze colour': 'Forest green' },
+        price: undefined,
+        available: false,
+      },
+    ]);
+  });
+
+  it('fails with EMPTY_PRODUCT when the page has no listing data', async () => {
+    await expect(scrapeWithAdapter(etsyAdapter, LISTING_URL, loadFixturePage('etsy-blocked.html')))
+      .rejects.toMatchObject({ adapter: 'etsy', code: 'EMPTY_PRODUCT' });
+  });
+});
@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import type { AxiosRequestConfig } from 'axios';
+import { vi } from 'vitest';
+import { loadPage } from '../common';
+import type { AdapterPage } from '../common';
+
+export function readFixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+export function readJsonFixture<T = unknown>(name: string): T {
+  return JSON.parse(readFixture(name));
+}
+
+export function loadFixturePage(name: string): AdapterPage {
+  return loadPage(readFixture(name));
+}
+
+/**
+ * Answers axios GETs from a map of URL (with query string, if any) to response body.
+ * Anything else fails the way a missing endpoint would.
+ */
+export function mockHttp(routes: Record<string, unknown>) {
+  return vi.spyOn(axios, 'get').mockImplementation(async (url: string, config?: AxiosRequestConfig) => {
+    const params: Record<string, unknown> = config?.params || {};
+    const query = new URLSearchParams(Object.keys(params).map(key => [key, String(params[key])])).toString();
+    const key = query ? `${url}?${query}` : url;
+
+    if (!(key in routes)) {
+      throw Object.assign(new Error(`Request failed with status code 404 (${key})`), { response: { status: 404 } });
+    }
+    return { data: routes[key] };
+  });
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AdapterError, detectSiteAdapter, loadPage, scrapeWithAdapter } from '..';
+import { shopifyAdapter } from '../shopify';
+import { loadFixturePage, mockHttp, readJsonFixture } from './helpers';
+
+const PRODUCT_URL = 'https://lumen-labs.myshopify.com/products/glow-serum';
+const PRODUCT_JS = 'https://lumen-labs.myshopify.com/products/glow-serum.js';
+
+describe('shopifyAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('matches myshopify product URLs and custom domains by their markup', () => {
+    expect(detectSiteAdapter(PRODUCT_URL)?.name).toBe('shopify');
+    expect(detectSiteAdapter('https://lumen-labs.myshopify.com/collections/all')).toBeNull();
+    expect(detectSiteAdapter('https://lumenlabs.com/products/glow-serum')).toBeNull();
+    expect(detectSiteAdapter('https://lumenlabs.com/products/glow-serum', loadFixturePage('shopify-page.html'))?.name)
+      .toBe('shopify');
+  });
+
+  it('uses the /products/<handle> URL as the canonical URL', () => {
+    const url = new URL('https://lumenlabs.com/collections/sale/products/glow-serum?variant=42002');
+    expect(shopifyAdapter.canonicalUrl!(url)).toBe('https://lumenlabs.com/products/glow-serum');
+  });
+
+  it('maps the product endpoint and the reviews published on the page', async () => {
+    mockHttp({ [PRODUCT_JS]: readJsonFixture('shopify-product.json') });
+
+    const product = await scrapeWithAdapter(shopifyAdapter, PRODUCT_URL, loadFixturePage('shopify-page.html'));
+
+    expect(product).toMatchObject({
+      url: PRODUCT_URL,
+      source: 'shopify',
+      name: 'Glow Serum',
+      price: 29,
+      currency: 'CAD',
+      description: 'A vitamin C serum for brighter skin.',
+      images: [
+        'https://cdn.shopify.com/s/files/1/0001/products/glow-serum-front.jpg',
+        'https://cdn.shopify.com/s/files/1/0001/products/glow-serum-back.jpg',
+      ],
+      brand: 'Lumen Labs',
+      category: 'Skincare',
+      rating: 4.6,
+      reviewCount: 128,
+      reviews: [{ author: 'Dana', rating: 5, text: 'My skin looks brighter after two weeks.', date: '2024-01-04' }],
+      fieldSources: { name: 'platform', price: 'platform', rating: 'json-ld', reviews: 'json-ld' },
+    });
+    expect(product.variants).toEqual([
+      {
+        id: '42001',
+        sku: 'GLOW-30',
+        title: '30 ml',
+        options: { Size: '30 ml' },
+        price: 29,
+        available: true,
+        image: 'https://cdn.shopify.com/s/files/1/0001/products/glow-serum-30.jpg',
+      },
+      {
+        id: '42002',
+        sku: undefined,
+        title: '50 ml',
+        options: { Size: '50 ml' },
+        price: 44,
+        available: false,
+        image: undefined,
+      },
+    ]);
+  });
+
+  it('leaves out the placeholder variant of single-variant products', async () => {
+    const product = readJsonFixture<Record<string, any>>('shopify-product.json');
+    mockHttp({
+      [PRODUCT_JS]: {
+        ...product,
+        options: ['Title'],
+        variants: [{ ...product.variants[0], title: 'Default Title', option1: 'Default Title' }],
+      },
+    });
+
+    const scraped = await scrapeWithAdapter(shopifyAdapter, PRODUCT_URL, loadPage('<html></html>'));
+
+    expect(scraped.variants).toBeUndefined();
+    expect(scraped.rating).toBe(0);
+    expect(scraped.fieldSources).not.toHaveProperty('rating');
+  });
+
+  it('fails with EMPTY_PRODUCT when the endpoint has no product', async () => {
+    mockHttp({ [PRODUCT_JS]: {} });
+
+    const scrape = scrapeWithAdapter(shopifyAdapter, PRODUCT_URL, loadFixturePage('shopify-page.html'));
+
+    await expect(scrape).rejects.toBeInstanceOf(AdapterError);
+    await expect(scrape).rejects.toMatchObject({ adapter: 'shopify', code: 'EMPTY_PRODUCT' });
+  });
+
+  it('fails with NOT_A_PRODUCT for pages without a product handle', async () => {
+    await expect(scrapeWithAdapter(shopifyAdapter, 'https://lumenlabs.com/pages/about', loadPage('<html></html>')))
+      .rejects.toMatchObject({ code: 'NOT_A_PRODUCT' });
+  });
+});
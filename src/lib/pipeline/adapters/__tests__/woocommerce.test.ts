@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectSiteAdapter, scrapeWithAdapter } from '..';
+import { woocommerceAdapter } from '../woocommerce';
+import { loadFixturePage, mockHttp, readJsonFixture } from './helpers';
+
+const PRODUCT_URL = 'https://shop.example.com/product/linen-apron/';
+const STORE_API = 'https://shop.example.com/wp-json/wc/store/v1';
+
+function storeRoutes(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    [`${STORE_API}/products?slug=linen-apron`]: readJsonFixture('woocommerce-products.json'),
+    [`${STORE_API}/products/302`]: readJsonFixture('woocommerce-variation-302.json'),
+    [`${STORE_API}/products/reviews?product_id=301&per_page=10`]: readJsonFixture('woocommerce-reviews.json'),
+    ...overrides,
+  };
+}
+
+describe('woocommerceAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is only detected by page fingerprint', () => {
+    expect(detectSiteAdapter(PRODUCT_URL)).toBeNull();
+    expect(detectSiteAdapter(PRODUCT_URL, loadFixturePage('woocommerce-page.html'))?.name).toBe('woocommerce');
+  });
+
+  it('maps the Store API product, its variations and reviews', async () => {
+    mockHttp(storeRoutes());
+
+    const product = await scrapeWithAdapter(woocommerceAdapter, PRODUCT_URL);
+
+    expect(product).toMatchObject({
+      source: 'woocommerce',
+      name: 'Linen Apron',
+      price: 34.5,
+      currency: 'EUR',
+      description: 'Stonewashed linen apron with two deep pockets.',
+      images: ['https://shop.example.com/wp-content/uploads/apron.jpg'],
+      category: 'Kitchen',
+      rating: 4.5,
+      reviewCount: 12,
+      fieldSources: { name: 'platform', currency: 'platform', reviews: 'platform' },
+    });
+    expect(product.reviews).toEqual([
+      { author: 'Marta', rating: 5, text: 'Sturdy and soft, washes well.', date: '2024-02-10T09:00:00' },
+      { author: 'Anonymous', rating: 3, text: 'Runs a little short.', date: '2024-02-12T09:00:00' },
+    ]);
+    // Variation 303 has no detail record, so it keeps its options only
+    expect(product.variants).toEqual([
+      {
+        id: '302',
+        sku: 'APRON-SAND',
+        title: 'Sand',
+        options: { Colour: 'Sand' },
+        price: 34.5,
+        available: true,
+        image: 'https://shop.example.com/wp-content/uploads/apron-sand.jpg',
+      },
+      {
+        id: '303',
+        sku: undefined,
+        title: 'Charcoal',
+        options: { Colour: 'Charcoal' },
+        price: undefined,
+        available: undefined,
+        image: undefined,
+      },
+    ]);
+  });
+
+  it('reads the slug from ?product= links', async () => {
+    mockHttp(storeRoutes());
+
+    const product = await scrapeWithAdapter(woocommerceAdapter, 'https://shop.example.com/?product=linen-apron');
+
+    expect(product.name).toBe('Linen Apron');
+  });
+
+  it('still returns the product when the reviews endpoint fails', async () => {
+    const routes = storeRoutes();
+    delete routes[`${STORE_API}/products/reviews?product_id=301&per_page=10`];
+    mockHttp(routes);
+
+    const product = await scrapeWithAdapter(woocommerceAdapter, PRODUCT_URL);
+
+    expect(product.reviews).toEqual([]);
+    expect(product.reviewCount).toBe(12);
+  });
+
+  it('fails with EMPTY_PRODUCT when no product has the slug', async () => {
+    mockHttp(storeRoutes({ [`${STORE_API}/products?slug=linen-apron`]: [] }));
+
+    await expect(scrapeWithAdapter(woocommerceAdapter, PRODUCT_URL))
+      .rejects.toMatchObject({ adapter: 'woocommerce', code: 'EMPTY_PRODUCT' });
+  });
+
+  it('fails with NOT_A_PRODUCT without a slug', async () => {
+    await expect(scrapeWithAdapter(woocommerceAdapter, 'https://shop.example.com/shop/'))
+      .rejects.toMatchObject({ code: 'NOT_A_PRODUCT' });
+  });
+});
@@ -0,0 +1,165 @@
+import { parsePrice, parseRating, uniqueUrls } from '../structuredData';
+import {
+  AdapterError,
+  SiteAdapter,
+  buildProductData,
+  currencyFromSymbol,
+  variantTitle,
+} from './common';
+import type { ProductReview, ProductVariant } from '../../types';
+import type { CheerioAPI } from 'cheerio';
+
+const AMAZON_HOST = /(^|\.)amazon\.(com|co\.uk|de|fr|it|es|ca|com\.mx|com\.br|in|cn|co\.jp|com\.au)$/i;
+const ASIN_PATTERN = /\/(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})/i;
+const MAX_REVIEWS = 10;
+
+const PRICE_SELECTORS = [
+  '#corePrice_feature_div .a-offscreen',
+  '#corePriceDisplay_desktop_feature_div .a-offscreen',
+  '#apex_desktop .a-price .a-offscreen',
+  '#priceblock_ourprice',
+  '#priceblock_dealprice',
+  '.a-price .a-offscreen',
+];
+
+function text($: CheerioAPI, selector: string): string {
+  return $(selector).first().text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Gallery images: the hi-res landing image, the `data-a-dynamic-image` size map and the
+ * `colorImages` blob the image block is initialised from.
+ */
+function extractImages($: CheerioAPI, html: string, baseUrl: string): string[] {
+  const landing = $('#landingImage, #imgBlkFront').first();
+  const sources: string[] = [landing.attr('data-old-hires') || ''];
+
+  try {
+    sources.push(...Object.keys(JSON.parse(landing.attr('data-a-dynamic-image') || '{}')));
+  } catch {
+    // Attribute is missing or truncated; the other sources still apply
+  }
+
+  const hiRes = html.match(/"hiRes"\s*:\s*"(https:[^"]+)"/g) || [];
+  sources.push(...hiRes.map(entry => entry.replace(/^"hiRes"\s*:\s*"/, '').replace(/"$/, '')));
+
+  return uniqueUrls(sources.filter(Boolean), baseUrl);
+}
+
+function extractReviews($: CheerioAPI): ProductReview[] {
+  return $('[data-hook="review"]')
+    .slice(0, MAX_REVIEWS)
+    .toArray()
+    .map(elem => {
+      const review = $(elem);
+      return {
+        author: review.find('.a-profile-name').first().text().trim() || 'Anonymous',
+        rating: parseRating(review.find('[data-hook="review-star-rating"], [data-hook="cmps-review-star-rating"]').first().text()),
+        text: review.find('[data-hook="review-body"]').first().text().replace(/\s+/g, ' ').trim(),
+        date: review.find('[data-hook="review-date"]').first().text().trim() || undefined,
+      };
+    })
+    .filter(review => review.text);
+}
+
+function readJsonAssignment(html: string, key: string): any {
+  const match = html.match(new RegExp(`"${key}"\\s*:\\s*(\\{[^{}]*\\}|\\[[^\\[\\]]*\\])`));
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Twister (variation picker) data maps each child ASIN to its option values. Amazon only
+ * renders the price and stock of the selected child, so siblings carry options alone.
+ */
+function extractVariants(html: string, asin: string | undefined, price: number, available: boolean): ProductVariant[] {
+  const dimensions: string[] = readJsonAssignment(html, 'dimensionsDisplay') || [];
+  const values: Record<string, string[]> = readJsonAssignment(html, 'dimensionValuesDisplayData') || {};
+
+  return Object.keys(values).map(childAsin => {
+    const options: Record<string, string> = {};
+    values[childAsin].forEach((value, index) => {
+      options[dimensions[index] || `Option ${index + 1}`] = value;
+    });
+
+    const isCurrent = childAsin === asin;
+    return {
+      id: childAsin,
+      sku: childAsin,
+      title: variantTitle(options),
+      options,
+      price: isCurrent && price > 0 ? price : undefined,
+      available: isCurrent ? available : undefined,
+    };
+  });
+}
+
+export const amazonAdapter: SiteAdapter = {
+  name: 'amazon',
+
+  matchesUrl: url => AMAZON_HOST.test(url.hostname),
+
+  // Slugs, ref paths and query strings vary per click; the ASIN is the product
+  canonicalUrl: url => {
+    const asin = url.pathname.match(ASIN_PATTERN)?.[1];
+    return asin ? `${url.origin}/dp/${asin.toUpperCase()}` : url.href;
+  },
+
+  async scrape({ url, page }) {
+    const { html, $ } = await page();
+
+    if ($('form[action*="validateCaptcha"]').length > 0 || /api-services-support@amazon\.com/.test(html)) {
+      throw new AdapterError('Amazon served a captcha instead of the product page', 'amazon', 'BLOCKED');
+    }
+
+    const name = text($, '#productTitle');
+    if (!name) {
+      throw new AdapterError('Amazon page has no #productTitle', 'amazon', 'EMPTY_PRODUCT');
+    }
+
+    const priceText = PRICE_SELECTORS.map(selector => text($, selector)).find(Boolean) || '';
+    const price = parsePrice(priceText);
+    const bullets = $('#feature-bullets li span.a-list-item')
+      .toArray()
+      .map(elem => $(elem).text().replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    const description = [bullets.join(' '), text($, '#productDescription')].filter(Boolean).join('\n\n');
+    const asin = url.pathname.match(ASIN_PATTERN)?.[1] || $('input#ASIN').attr('value');
+    const available = !/currently unavailable|out of stock/i.test(text($, '#availability'));
+    const brand = text($, '#bylineInfo')
+      .replace(/^Visit the\s+/i, '')
+      .replace(/\s+Store$/i, '')
+      .replace(/^Brand:\s*/i, '');
+
+    return buildProductData(
+      url,
+      'amazon',
+      {
+        name,
+        price,
+        currency: currencyFromSymbol(priceText),
+        description,
+        ingredients: text($, '#important-information .content, #ingredients_feature_div'),
+        images: extractImages($, html, url.href),
+        brand: brand || undefined,
+        category: text($, '#wayfinding-breadcrumbs_feature_div li:last-child a') || undefined,
+        rating: parseRating($('#acrPopover').attr('title') || text($, '#acrPopover .a-icon-alt')),
+        reviewCount: parseInt(text($, '#acrCustomerReviewText').replace(/\D/g, ''), 10) || undefined,
+        reviews: extractReviews($),
+        variants: extractVariants(html, asin, price, available),
+      },
+      {
+        name: 'platform',
+        price: 'platform',
+        description: 'platform',
+        images: 'platform',
+        rating: 'platform',
+        reviews: 'platform',
+      }
+    );
+  },
+};
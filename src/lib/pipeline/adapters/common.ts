@@ -0,0 +1,118 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import type { ProductData, ProductFieldSource, ProductVariant } from '../../types';
+
+export const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+};
+
+const REQUEST_TIMEOUT = 20000;
+export const MAX_VARIANTS = 50;
+
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['A$', 'AUD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+export type SiteAdapterName = 'shopify' | 'woocommerce' | 'amazon' | 'etsy';
+
+export class AdapterError extends Error {
+  constructor(message: string, public adapter: SiteAdapterName, public code: string) {
+    super(message);
+    this.name = 'AdapterError';
+  }
+}
+
+export interface AdapterPage {
+  html: string;
+  $: cheerio.CheerioAPI;
+}
+
+export interface AdapterContext {
+  url: URL;
+  /** The product page, fetched on first use unless the caller already has it */
+  page(): Promise<AdapterPage>;
+}
+
+export interface SiteAdapter {
+  name: SiteAdapterName;
+  /** Cheap check on the URL alone, before anything is fetched */
+  matchesUrl(url: URL): boolean;
+  /** Fingerprint for platforms that run on arbitrary domains */
+  matchesPage?(page: AdapterPage): boolean;
+  /** Shortest URL that still identifies the product, used as the scrape cache key */
+  canonicalUrl?(url: URL): string;
+  scrape(context: AdapterContext): Promise<ProductData>;
+}
+
+export function loadPage(html: string): AdapterPage {
+  return { html, $: cheerio.load(html) };
+}
+
+export async function fetchPage(url: string): Promise<string> {
+  const response = await axios.get<string>(url, {
+    headers: BROWSER_HEADERS,
+    timeout: REQUEST_TIMEOUT,
+    responseType: 'text',
+  });
+  return response.data;
+}
+
+export async function fetchJson<T>(url: string, params?: Record<string, string | number>): Promise<T> {
+  const response = await axios.get<T>(url, {
+    headers: { ...BROWSER_HEADERS, 'Accept': 'application/json' },
+    params,
+    timeout: REQUEST_TIMEOUT,
+  });
+  return response.data;
+}
+
+export function currencyFromSymbol(text: string): string {
+  const match = CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol));
+  return match ? match[1] : '';
+}
+
+export function variantTitle(options: Record<string, string>): string {
+  return Object.keys(options).map(name => options[name]).join(' / ');
+}
+
+/**
+ * Fills in the fields every adapter shares so each one only maps what its platform
+ * actually exposes.
+ */
+export function buildProductData(
+  url: URL,
+  source: SiteAdapterName,
+  fields: Partial<ProductData> & Pick<ProductData, 'name'>,
+  fieldSources: Partial<Record<string, ProductFieldSource>> = {}
+): ProductData {
+  const reviews = fields.reviews || [];
+  const variants: ProductVariant[] | undefined = fields.variants?.length ? fields.variants.slice(0, MAX_VARIANTS) : undefined;
+
+  return {
+    url: url.href,
+    name: fields.name,
+    price: fields.price || variants?.find(variant => variant.price)?.price || 0,
+    currency: fields.currency || 'USD',
+    description: fields.description || '',
+    ingredients: fields.ingredients || '',
+    images: fields.images || [],
+    reviews,
+    rating: fields.rating || 0,
+    reviewCount: fields.reviewCount || reviews.length,
+    brand: fields.brand,
+    category: fields.category,
+    variants,
+    scrapedAt: new Date().toISOString(),
+    source,
+    fieldSources,
+  };
+}
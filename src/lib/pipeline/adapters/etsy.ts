@@ -0,0 +1,99 @@
+import { extractJsonLd, parsePrice } from '../structuredData';
+import {
+  AdapterError,
+  SiteAdapter,
+  buildProductData,
+  currencyFromSymbol,
+} from './common';
+import type { ProductVariant } from '../../types';
+import type { CheerioAPI } from 'cheerio';
+
+const ETSY_HOST = /(^|\.)etsy\.com$/i;
+const LISTING_PATTERN = /\/listing\/(\d+)/;
+
+/**
+ * Etsy renders one <select> per variation property (size, colour, ...) and prices each
+ * option on its own, e.g. "Large (USD 32.00)" or "Small [Sold out]". Combinations are
+ * resolved client-side, so every option becomes a single-property variant.
+ */
+function extractVariants($: CheerioAPI, listingId: string): ProductVariant[] {
+  const variants: ProductVariant[] = [];
+
+  $('select[id^="variation-selector"], select[data-variation-number]').each((_, select) => {
+    const $select = $(select);
+    const id = $select.attr('id');
+    const property = (id ? $(`label[for="${id}"]`).first().text() : '').replace(/\s+/g, ' ').trim() || 'Option';
+
+    $select.find('option').each((__, option) => {
+      const $option = $(option);
+      const value = $option.attr('value');
+      const label = $option.text().replace(/\s+/g, ' ').trim();
+      if (!value || !label) return;
+
+      const priceMatch = label.match(/\(([^)]*\d[^)]*)\)/);
+      const optionValue = label.replace(/\s*\([^)]*\)\s*/g, ' ').replace(/\s*\[[^\]]*\]\s*/g, ' ').trim();
+
+      variants.push({
+        id: `${listingId}-${value}`,
+        title: optionValue,
+        options: { [property]: optionValue },
+        price: priceMatch ? parsePrice(priceMatch[1]) || undefined : undefined,
+        available: !/sold out/i.test(label) && !$option.is('[disabled]'),
+      });
+    });
+  });
+
+  return variants;
+}
+
+export const etsyAdapter: SiteAdapter = {
+  name: 'etsy',
+
+  matchesUrl: url => ETSY_HOST.test(url.hostname) && LISTING_PATTERN.test(url.pathname),
+
+  canonicalUrl: url => `${url.origin}/listing/${url.pathname.match(LISTING_PATTERN)?.[1]}`,
+
+  async scrape({ url, page }) {
+    const listingId = url.pathname.match(LISTING_PATTERN)?.[1];
+    if (!listingId) {
+      throw new AdapterError('Not an Etsy listing URL', 'etsy', 'NOT_A_PRODUCT');
+    }
+
+    const { $ } = await page();
+
+    // Etsy publishes a complete schema.org Product for every listing
+    const listing = extractJsonLd($, url.href);
+    if (!listing.name) {
+      throw new AdapterError('Etsy listing has no product data (page may be bot-protected)', 'etsy', 'EMPTY_PRODUCT');
+    }
+
+    const priceText = $('[data-buy-box-region="price"] p, [data-selector="price-only"]').first().text();
+    const description = $('[data-product-details-description-text-content]').first().text().replace(/\s+/g, ' ').trim();
+    const shopName = $('[data-shop-name]').first().attr('data-shop-name');
+
+    return buildProductData(
+      url,
+      'etsy',
+      {
+        name: listing.name,
+        price: listing.price || parsePrice(priceText),
+        currency: listing.currency || currencyFromSymbol(priceText),
+        description: description.length > (listing.description || '').length ? description : listing.description,
+        images: listing.images,
+        brand: listing.brand || shopName,
+        rating: listing.rating,
+        reviewCount: listing.reviewCount,
+        reviews: listing.reviews,
+        variants: extractVariants($, listingId),
+      },
+      {
+        name: 'json-ld',
+        price: listing.price ? 'json-ld' : 'platform',
+        images: 'json-ld',
+        rating: 'json-ld',
+        reviews: 'json-ld',
+        description: description.length > (listing.description || '').length ? 'platform' : 'json-ld',
+      }
+    );
+  },
+};
@@ -0,0 +1,47 @@
+import { amazonAdapter } from './amazon';
+import { etsyAdapter } from './etsy';
+import { shopifyAdapter } from './shopify';
+import { woocommerceAdapter } from './woocommerce';
+import { fetchPage, loadPage } from './common';
+import type { AdapterPage, SiteAdapter } from './common';
+import type { ProductData } from '../../types';
+
+export { AdapterError, BROWSER_HEADERS, loadPage } from './common';
+export type { AdapterPage, SiteAdapter, SiteAdapterName } from './common';
+
+// URL matches are checked in order before any page fingerprints
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  amazonAdapter,
+  etsyAdapter,
+  shopifyAdapter,
+  woocommerceAdapter,
+];
+
+/**
+ * Picks the adapter for a product URL. Without a page only URL patterns are checked;
+ * with one, platforms that run on arbitrary domains are recognised by their markup.
+ */
+export function detectSiteAdapter(url: string, page?: AdapterPage): SiteAdapter | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  return SITE_ADAPTERS.find(adapter => adapter.matchesUrl(parsed))
+    || (page ? SITE_ADAPTERS.find(adapter => adapter.matchesPage?.(page)) : undefined)
+    || null;
+}
+
+export function scrapeWithAdapter(adapter: SiteAdapter, url: string, page?: AdapterPage): Promise<ProductData> {
+  let loaded: Promise<AdapterPage> | null = page ? Promise.resolve(page) : null;
+
+  return adapter.scrape({
+    url: new URL(url),
+    page: () => {
+      loaded = loaded || fetchPage(url).then(loadPage);
+      return loaded;
+    },
+  });
+}
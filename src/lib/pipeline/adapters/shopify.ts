@@ -0,0 +1,131 @@
+import { extractJsonLd, extractOpenGraph, toText } from '../structuredData';
+import {
+  AdapterError,
+  SiteAdapter,
+  buildProductData,
+  fetchJson,
+  variantTitle,
+} from './common';
+import type { ProductVariant } from '../../types';
+
+// Shape of the storefront's /products/<handle>.js endpoint; prices are in minor units
+interface ShopifyProductJs {
+  id: number;
+  title: string;
+  handle: string;
+  description?: string;
+  vendor?: string;
+  type?: string;
+  price?: number;
+  images?: string[];
+  options?: Array<string | { name: string; position?: number; values?: string[] }>;
+  variants?: Array<{
+    id: number;
+    title?: string;
+    sku?: string | null;
+    price?: number;
+    available?: boolean;
+    option1?: string | null;
+    option2?: string | null;
+    option3?: string | null;
+    featured_image?: { src?: string } | null;
+  }>;
+}
+
+const HANDLE_PATTERN = /\/products\/([^/?#]+)/;
+
+function normalizeImage(src: string | undefined): string | undefined {
+  if (!src) return undefined;
+  return src.startsWith('//') ? `https:${src}` : src;
+}
+
+function optionNames(product: ShopifyProductJs): string[] {
+  return (product.options || []).map(option => (typeof option === 'string' ? option : option.name));
+}
+
+function mapVariants(product: ShopifyProductJs): ProductVariant[] {
+  const names = optionNames(product);
+
+  return (product.variants || []).map(variant => {
+    const options: Record<string, string> = {};
+    [variant.option1, variant.option2, variant.option3].forEach((value, index) => {
+      // Single-variant products report a placeholder "Default Title" option
+      if (value && value !== 'Default Title') {
+        options[names[index] || `Option ${index + 1}`] = value;
+      }
+    });
+
+    return {
+      id: String(variant.id),
+      sku: variant.sku || undefined,
+      title: variantTitle(options) || variant.title || product.title,
+      options,
+      price: typeof variant.price === 'number' ? variant.price / 100 : undefined,
+      available: variant.available,
+      image: normalizeImage(variant.featured_image?.src),
+    };
+  });
+}
+
+// Shopify.currency is set by every theme; og:price:currency is the fallback
+function pageCurrency(html: string, ogCurrency: string | undefined): string {
+  const match = html.match(/Shopify\.currency\s*=\s*\{[^}]*"active"\s*:\s*"([A-Z]{3})"/);
+  return match?.[1] || ogCurrency || '';
+}
+
+export const shopifyAdapter: SiteAdapter = {
+  name: 'shopify',
+
+  matchesUrl: url => /\.myshopify\.com$/i.test(url.hostname) && HANDLE_PATTERN.test(url.pathname),
+
+  // /collections/<x>/products/<handle> is the same product as /products/<handle>
+  canonicalUrl: url => `${url.origin}/products/${url.pathname.match(HANDLE_PATTERN)?.[1]}`,
+
+  matchesPage: ({ html }) =>
+    /cdn\.shopify\.com|window\.Shopify\s*=|Shopify\.theme\s*=/.test(html),
+
+  async scrape({ url, page }) {
+    const handle = url.pathname.match(HANDLE_PATTERN)?.[1];
+    if (!handle) {
+      throw new AdapterError('Not a Shopify product URL', 'shopify', 'NOT_A_PRODUCT');
+    }
+
+    const product = await fetchJson<ShopifyProductJs>(`${url.origin}/products/${handle}.js`);
+    if (!product?.title) {
+      throw new AdapterError('Shopify product endpoint returned no product', 'shopify', 'EMPTY_PRODUCT');
+    }
+
+    // Shopify has no native reviews; review apps publish them as JSON-LD on the page
+    const { html, $ } = await page();
+    const jsonLd = extractJsonLd($, url.href);
+    const openGraph = extractOpenGraph($, url.href);
+    const variants = mapVariants(product);
+
+    return buildProductData(
+      url,
+      'shopify',
+      {
+        name: product.title,
+        price: typeof product.price === 'number' ? product.price / 100 : undefined,
+        currency: pageCurrency(html, jsonLd.currency || openGraph.currency),
+        description: toText(product.description || ''),
+        images: (product.images || []).map(normalizeImage).filter((src): src is string => Boolean(src)),
+        brand: product.vendor,
+        category: product.type || undefined,
+        rating: jsonLd.rating,
+        reviewCount: jsonLd.reviewCount,
+        reviews: jsonLd.reviews,
+        variants: variants.length > 1 || Object.keys(variants[0]?.options || {}).length > 0 ? variants : undefined,
+      },
+      {
+        name: 'platform',
+        price: 'platform',
+        description: 'platform',
+        images: 'platform',
+        brand: 'platform',
+        ...(jsonLd.rating ? { rating: 'json-ld', reviewCount: 'json-ld' } : {}),
+        ...(jsonLd.reviews?.length ? { reviews: 'json-ld' } : {}),
+      }
+    );
+  },
+};
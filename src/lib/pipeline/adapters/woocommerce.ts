@@ -0,0 +1,149 @@
+import { mapWithConcurrency } from '../../utils';
+import { toNumber, toText } from '../structuredData';
+import {
+  AdapterError,
+  MAX_VARIANTS,
+  SiteAdapter,
+  buildProductData,
+  fetchJson,
+  variantTitle,
+} from './common';
+import type { ProductReview, ProductVariant } from '../../types';
+
+interface WooPrices {
+  price: string;
+  currency_code: string;
+  currency_minor_unit: number;
+}
+
+// WooCommerce Store API (wp-json/wc/store/v1), public on every store running WC 5.x+
+interface WooProduct {
+  id: number;
+  name: string;
+  slug: string;
+  sku?: string;
+  description?: string;
+  short_description?: string;
+  prices: WooPrices;
+  images?: Array<{ src: string }>;
+  categories?: Array<{ name: string }>;
+  average_rating?: string;
+  review_count?: number;
+  is_in_stock?: boolean;
+  attributes?: Array<{ name: string; has_variations?: boolean }>;
+  variations?: Array<{ id: number; attributes: Array<{ name: string; value: string }> }>;
+}
+
+interface WooReview {
+  reviewer: string;
+  review: string;
+  rating: number;
+  date_created: string;
+}
+
+const SLUG_PATTERN = /\/product\/([^/?#]+)/;
+const VARIATION_CONCURRENCY = 4;
+const MAX_REVIEWS = 10;
+
+function storeApi(url: URL, path: string): string {
+  return `${url.origin}/wp-json/wc/store/v1${path}`;
+}
+
+function toPrice(prices: WooPrices | undefined): number | undefined {
+  if (!prices?.price) return undefined;
+  return Number(prices.price) / Math.pow(10, prices.currency_minor_unit ?? 2);
+}
+
+async function fetchVariants(url: URL, product: WooProduct): Promise<ProductVariant[]> {
+  const variations = (product.variations || []).slice(0, MAX_VARIANTS);
+
+  return mapWithConcurrency(variations, VARIATION_CONCURRENCY, async variation => {
+    const options: Record<string, string> = {};
+    for (const attribute of variation.attributes) {
+      options[attribute.name] = attribute.value;
+    }
+
+    // Variation prices and images live on the variation's own product record
+    const detail = await fetchJson<WooProduct>(storeApi(url, `/products/${variation.id}`)).catch(() => null);
+
+    return {
+      id: String(variation.id),
+      sku: detail?.sku || undefined,
+      title: variantTitle(options),
+      options,
+      price: toPrice(detail?.prices),
+      available: detail?.is_in_stock,
+      image: detail?.images?.[0]?.src,
+    };
+  });
+}
+
+async function fetchReviews(url: URL, productId: number): Promise<ProductReview[]> {
+  const reviews = await fetchJson<WooReview[]>(storeApi(url, '/products/reviews'), {
+    product_id: productId,
+    per_page: MAX_REVIEWS,
+  }).catch(() => []);
+
+  return reviews
+    .map(review => ({
+      author: review.reviewer || 'Anonymous',
+      rating: review.rating || 0,
+      text: toText(review.review || ''),
+      date: review.date_created,
+    }))
+    .filter(review => review.text);
+}
+
+export const woocommerceAdapter: SiteAdapter = {
+  name: 'woocommerce',
+
+  // Runs on any WordPress domain, so it is only picked by page fingerprint
+  matchesUrl: () => false,
+
+  matchesPage: ({ html }) =>
+    /wp-content\/plugins\/woocommerce|class="[^"]*\bwoocommerce\b|wc-block-/.test(html),
+
+  async scrape({ url }) {
+    const slug = url.pathname.match(SLUG_PATTERN)?.[1] || url.searchParams.get('product');
+    if (!slug) {
+      throw new AdapterError('Not a WooCommerce product URL', 'woocommerce', 'NOT_A_PRODUCT');
+    }
+
+    const products = await fetchJson<WooProduct[]>(storeApi(url, '/products'), { slug });
+    const product = products?.[0];
+    if (!product) {
+      throw new AdapterError(`No WooCommerce product with slug ${slug}`, 'woocommerce', 'EMPTY_PRODUCT');
+    }
+
+    const [variants, reviews] = await Promise.all([
+      fetchVariants(url, product),
+      fetchReviews(url, product.id),
+    ]);
+
+    return buildProductData(
+      url,
+      'woocommerce',
+      {
+        name: toText(product.name),
+        price: toPrice(product.prices),
+        currency: product.prices?.currency_code,
+        description: toText(product.description || product.short_description || ''),
+        images: (product.images || []).map(image => image.src),
+        category: product.categories?.[0]?.name,
+        rating: toNumber(product.average_rating),
+        reviewCount: product.review_count,
+        reviews,
+        variants,
+      },
+      {
+        name: 'platform',
+        price: 'platform',
+        currency: 'platform',
+        description: 'platform',
+        images: 'platform',
+        rating: 'platform',
+        reviews: 'platform',
+      }
+    );
+  },
+};
@@ -1,6 +1,17 @@
 import axios, { AxiosError } from 'axios';
 import * as cheerio from 'cheerio';
 import { ProductData } from '../types';
+import { recordCost } from '../ledger';
+import { extractJsonLdVariants, extractStructuredData, mergeProductFields, parsePrice } from './structuredData';
+import { BROWSER_HEADERS, detectSiteAdapter, loadPage, scrapeWithAdapter } from './adapters';
+import type { SiteAdapter } from './adapters';
+import {
+  cacheScrape,
+  canonicalizeProductUrl,
+  getCachedScrape,
+  getScrapeCacheTtlMs,
+} from './scrapeCache';
+import type { ScrapeCacheStatus } from './scrapeCache';
 
 interface ApifyRunResponse {
   data: {
@@ -31,6 +42,17 @@ interface ApifyDatasetItem {
   reviewCount?: number;
 }
 
+export interface ScrapeResult {
+  data: ProductData;
+  /** 0-1, from the weighted field completeness in validateProductData */
+  confidence: number;
+  cache: {
+    status: ScrapeCacheStatus;
+    key: string;
+    cachedAt?: string;
+  };
+}
+
 export class ScraperError extends Error {
   constructor(message: string, public code: string, public details?: any) {
     super(message);
@@ -48,20 +70,10 @@ export class ValidationError extends Error {
 const APIFY_API_TOKEN = process.env.APIFY_API_TOKEN || '';
 const APIFY_ACTOR_ID = process.env.APIFY_ACTOR_ID || 'apify/web-scraper';
 const APIFY_BASE_URL = 'https://api.apify.com/v2';
-const APIFY_COST_PER_CALL = 0.01;
+export const APIFY_COST_PER_CALL = 0.01;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 1000;
 
-let totalCost = 0;
-
-export function getTotalCost(): number {
-  return totalCost;
-}
-
-export function resetCostTracking(): void {
-  totalCost = 0;
-}
-
 function isAmazonUrl(url: string): boolean {
   return /amazon\.(com|co\.uk|de|fr|it|es|ca|com\.mx|com\.br|in|cn|co\.jp|com\.au)/i.test(url);
 }
@@ -157,7 +169,7 @@ async function scrapeWithApify(url: string): Promise<ProductData> {
     throw new ScraperError('No data returned from Apify', 'EMPTY_DATASET');
   }
 
-  totalCost += APIFY_COST_PER_CALL;
+  recordCost({ provider: 'apify', unitPrice: APIFY_COST_PER_CALL });
 
   const item = datasetResponse.data[0];
   return transformApifyData(item, url);
@@ -231,21 +243,10 @@ function transformApifyData(item: ApifyDatasetItem, url: string): ProductData {
   };
 }
 
-function parsePrice(priceString: string): number {
-  const cleaned = priceString.replace(/[^0-9.,]/g, '');
-  const normalized = cleaned.replace(',', '.');
-  const parsed = parseFloat(normalized);
-  return isNaN(parsed) ? 0 : parsed;
-}
-
-async function scrapeWithAxios(url: string): Promise<ProductData> {
+async function scrapeWithAxios(url: string, triedAdapter?: SiteAdapter | null): Promise<ProductData> {
   const response = await retryWithBackoff(async () => {
     return await axios.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
+      headers: BROWSER_HEADERS,
       timeout: 30000,
     });
   });
@@ -254,27 +255,49 @@ async function scrapeWithAxios(url: string): Promise<ProductData> {
     throw new ScraperError('Empty response from direct scraping', 'EMPTY_RESPONSE');
   }
 
-  const $ = cheerio.load(response.data);
+  const page = loadPage(String(response.data));
+  const adapter = detectSiteAdapter(url, page);
+  if (adapter && adapter !== triedAdapter) {
+    const adapted = await tryAdapter(adapter, url, page);
+    if (adapted) return adapted;
+  }
 
-  const name = extractName($);
-  const price = extractPrice($);
-  const currency = extractCurrency($);
-  const description = extractDescription($);
-  const ingredients = extractIngredients($);
-  const images = extractImages($, url);
+  const { $ } = page;
   const { reviews, rating, reviewCount } = extractReviews($);
 
+  const { fields, fieldSources } = mergeProductFields([
+    ...extractStructuredData($, url),
+    {
+      source: 'selector',
+      fields: {
+        name: extractName($),
+        price: extractPrice($),
+        currency: extractCurrency($),
+        description: extractDescription($),
+        images: extractImages($, url),
+        reviews,
+        rating,
+        reviewCount,
+      },
+    },
+  ]);
+  const mergedReviews = fields.reviews || [];
+  const variants = extractJsonLdVariants($, url);
+
   return {
     url,
-    name,
-    price,
-    currency,
-    description,
-    ingredients,
-    images,
-    reviews,
-    rating,
-    reviewCount,
+    name: fields.name || '',
+    price: fields.price || 0,
+    currency: fields.currency || 'USD',
+    description: fields.description || '',
+    ingredients: extractIngredients($),
+    images: fields.images || [],
+    reviews: mergedReviews,
+    rating: fields.rating || 0,
+    reviewCount: fields.reviewCount || mergedReviews.length,
+    brand: fields.brand || '',
+    variants: variants.length > 0 ? variants : undefined,
+    fieldSources,
     scrapedAt: new Date().toISOString(),
     source: 'direct',
   };
@@ -337,7 +360,7 @@ function extractCurrency($: cheerio.CheerioAPI): string {
   const currencyMeta = $('meta[itemprop="priceCurrency"]').attr('content');
   if (currencyMeta) return currencyMeta;
 
-  return 'USD';
+  return '';
 }
 
 function extractDescription($: cheerio.CheerioAPI): string {
@@ -427,7 +450,7 @@ function extractReviews($: cheerio.CheerioAPI): {
   const rating = parseFloat(ratingText) || 0;
 
   const reviewCountText = $('[itemprop="reviewCount"], .review-count').first().text();
-  const reviewCount = parseInt(reviewCountText.replace(/\D/g, '')) || reviews.length;
+  const reviewCount = parseInt(reviewCountText.replace(/\D/g, '')) || 0;
 
   return { reviews, rating, reviewCount };
 }
@@ -471,6 +494,19 @@ export function validateProductData(data: ProductData): { isValid: boolean; scor
   return { isValid, score, missingFields, confidence };
 }
 
+async function tryAdapter(
+  adapter: SiteAdapter,
+  url: string,
+  page?: ReturnType<typeof loadPage>
+): Promise<ProductData | null> {
+  try {
+    return await scrapeWithAdapter(adapter, url, page);
+  } catch (error) {
+    console.warn(`${adapter.name} adapter failed: ${(error as Error).message}. Falling back to generic scraping.`);
+    return null;
+  }
+}
+
 export async function scrapeProduct(url: string): Promise<ProductData> {
   if (!url || typeof url !== 'string') {
     throw new ScraperError('Invalid URL provided', 'INVALID_URL');
@@ -482,29 +518,35 @@ export async function scrapeProduct(url: string): Promise<ProductData> {
     throw new ScraperError('Malformed URL', 'MALFORMED_URL');
   }
 
-  let productData: ProductData;
-  let useApify = Boolean(APIFY_API_TOKEN);
+  let productData: ProductData | null = null;
+  const useApify = Boolean(APIFY_API_TOKEN);
 
-  try {
-    if (useApify) {
-      productData = await scrapeWithApify(url);
-    } else {
-      productData = await scrapeWithAxios(url);
-    }
-  } catch (error) {
-    if (useApify && error instanceof ScraperError) {
-      console.warn(`Apify scraping failed: ${error.message}. Falling back to direct scraping.`);
-      try {
-        productData = await scrapeWithAxios(url);
-      } catch (fallbackError: any) {
-        throw new ScraperError(
-          'Both Apify and direct scraping failed',
-          'ALL_METHODS_FAILED',
-          { apifyError: error.message, directError: fallbackError.message }
-        );
+  // Platform adapters are free and return variants, so they go before the paid actor
+  const urlAdapter = detectSiteAdapter(url);
+  if (urlAdapter) {
+    productData = await tryAdapter(urlAdapter, url);
+  }
+
+  if (!productData) {
+    try {
+      productData = useApify
+        ? await scrapeWithApify(url)
+        : await scrapeWithAxios(url, urlAdapter);
+    } catch (error) {
+      if (useApify && error instanceof ScraperError) {
+        console.warn(`Apify scraping failed: ${error.message}. Falling back to direct scraping.`);
+        try {
+          productData = await scrapeWithAxios(url, urlAdapter);
+        } catch (fallbackError: any) {
+          throw new ScraperError(
+            'Both Apify and direct scraping failed',
+            'ALL_METHODS_FAILED',
+            { apifyError: error.message, directError: fallbackError.message }
+          );
+        }
+      } else {
+        throw error;
       }
-    } else {
-      throw error;
     }
   }
 
@@ -518,4 +560,67 @@ export async function scrapeProduct(url: string): Promise<ProductData> {
   }
 
   return productData;
-}
\ No newline at end of file
+}
+
+function scrapeCacheKey(url: string): string {
+  try {
+    return canonicalizeProductUrl(url);
+  } catch {
+    throw new ScraperError('Malformed URL', 'MALFORMED_URL');
+  }
+}
+
+/**
+ * The cached scrape for a product URL, or null on a miss, when the cache is disabled or
+ * when `forceRefresh` asks for a new scrape. Lets callers skip paid-call checks on a hit.
+ */
+export async function findCachedScrape(
+  url: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<ScrapeResult | null> {
+  const key = scrapeCacheKey(url);
+  if (getScrapeCacheTtlMs() <= 0 || options.forceRefresh) return null;
+
+  const cached = await getCachedScrape(key);
+  if (!cached) return null;
+
+  // Zero-cost ledger entry, so reports show what the cache saved
+  if (cached.productData.source === 'apify') {
+    recordCost({ provider: 'apify', unitPrice: APIFY_COST_PER_CALL, cached: true });
+  }
+  return {
+    data: cached.productData,
+    confidence: validateProductData(cached.productData).confidence / 100,
+    cache: { status: 'hit', key, cachedAt: cached.cachedAt },
+  };
+}
+
+/**
+ * `scrapeProduct` behind the scrape cache, keyed by the canonical product URL. A hit
+ * skips the scrape entirely; `forceRefresh` scrapes again and replaces the entry.
+ */
+export async function scrapeProductCached(
+  url: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<ScrapeResult> {
+  const key = scrapeCacheKey(url);
+  const ttlMs = getScrapeCacheTtlMs();
+
+  const cached = await findCachedScrape(url, options);
+  if (cached) return cached;
+
+  const data = await scrapeProduct(url);
+  const status: ScrapeCacheStatus = ttlMs <= 0 ? 'disabled' : options.forceRefresh ? 'refresh' : 'miss';
+
+  if (ttlMs > 0) {
+    await cacheScrape(key, data, ttlMs).catch(error => {
+      console.warn(`Failed to cache scrape for ${key}: ${(error as Error).message}`);
+    });
+  }
+
+  return {
+    data,
+    confidence: validateProductData(data).confidence / 100,
+    cache: { status, key },
+  };
+}
@@ -0,0 +1,142 @@
+import type { BrandProfile } from '../types';
+
+// Most emoji a "sparing" profile allows in one hook or script
+const SPARING_EMOJI_LIMIT = 2;
+// Built at runtime: the `u` flag is not available for the compile target
+const EMOJI_PATTERN = new RegExp(
+  '[\\p{Extended_Pictographic}\\p{Regional_Indicator}]\\uFE0F?(?:\\u200D\\p{Extended_Pictographic}\\uFE0F?)*',
+  'gu'
+);
+// Pictographic by Unicode's definition, but part of ordinary brand copy
+const TRADEMARK_SYMBOLS = ['©', '®', '™'];
+
+export interface BrandCheckedText {
+  hook: string;
+  script: string;
+}
+
+export interface BrandViolation {
+  field: keyof BrandCheckedText;
+  message: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive match, so "cure" doesn't flag "secure" */
+function containsPhrase(text: string, phrase: string): boolean {
+  const start = /^\w/.test(phrase) ? '\\b' : '';
+  const end = /\w$/.test(phrase) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(phrase)}${end}`, 'i').test(text);
+}
+
+function findEmoji(text: string): string[] {
+  return (text.match(EMOJI_PATTERN) || []).filter(match => !TRADEMARK_SYMBOLS.includes(match));
+}
+
+function limitEmoji(text: string, limit: number): string {
+  let kept = 0;
+  return text
+    .replace(EMOJI_PATTERN, match => {
+      if (TRADEMARK_SYMBOLS.includes(match)) return match;
+      kept++;
+      return kept <= limit ? match : '';
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/** Brand section for the Mistral prompt */
+export function buildBrandVoicePrompt(profile: BrandProfile): string {
+  const lines = [`Brand Voice (${profile.name}):`, `- Voice: ${profile.voice}`];
+
+  if (profile.bannedWords.length > 0) {
+    lines.push(`- Never use these words or phrases: ${profile.bannedWords.join(', ')}`);
+  }
+  if (profile.mandatoryClaims.length > 0) {
+    lines.push(`- Every script must include, word for word: ${profile.mandatoryClaims.map(claim => `"${claim}"`).join('; ')}`);
+  }
+  if (profile.disclaimers.length > 0) {
+    lines.push(`- End every script with: ${profile.disclaimers.map(disclaimer => `"${disclaimer}"`).join(' ')}`);
+  }
+  if (profile.preferredCtas.length > 0) {
+    lines.push(`- Close with one of these calls to action: ${profile.preferredCtas.map(cta => `"${cta}"`).join(', ')}`);
+  }
+  lines.push(
+    profile.emojiPolicy === 'none'
+      ? '- Do not use emoji'
+      : profile.emojiPolicy === 'sparing'
+        ? `- Use at most ${SPARING_EMOJI_LIMIT} emoji in the hook and ${SPARING_EMOJI_LIMIT} in the script`
+        : '- Emoji are welcome where they fit the voice'
+  );
+
+  if (profile.exampleScripts.length > 0) {
+    lines.push('', 'Example scripts in this voice (match the style, do not copy them):');
+    profile.exampleScripts.forEach((example, index) => {
+      lines.push(`${index + 1}. ${example}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The fixes that need no judgement: emoji beyond the policy are removed and missing
+ * disclaimers are appended. Returns the repaired text and a note per fix.
+ */
+export function applyBrandFixes<T extends BrandCheckedText>(angle: T, profile: BrandProfile): { angle: T; fixes: string[] } {
+  const fixes: string[] = [];
+  const limit = profile.emojiPolicy === 'none' ? 0 : profile.emojiPolicy === 'sparing' ? SPARING_EMOJI_LIMIT : Infinity;
+  let { hook, script } = angle;
+
+  if (Number.isFinite(limit)) {
+    const fields: Array<keyof BrandCheckedText> = ['hook', 'script'];
+    for (const field of fields) {
+      const text = field === 'hook' ? hook : script;
+      const removed = findEmoji(text).length - limit;
+      if (removed > 0) {
+        const trimmed = limitEmoji(text, limit);
+        if (field === 'hook') hook = trimmed; else script = trimmed;
+        fixes.push(`Removed ${removed} emoji from the ${field}`);
+      }
+    }
+  }
+
+  const missing = profile.disclaimers.filter(disclaimer => !script.toLowerCase().includes(disclaimer.toLowerCase()));
+  if (missing.length > 0) {
+    script = `${script.trim()} ${missing.join(' ')}`;
+    fixes.push(`Appended disclaimer: ${missing.join(' ')}`);
+  }
+
+  return { angle: { ...angle, hook, script }, fixes };
+}
+
+/** What a rewrite has to fix: banned words, missing claims and a missing call to action */
+export function findBrandViolations(angle: BrandCheckedText, profile: BrandProfile): BrandViolation[] {
+  const violations: BrandViolation[] = [];
+  const fields: Array<keyof BrandCheckedText> = ['hook', 'script'];
+
+  for (const field of fields) {
+    const banned = profile.bannedWords.filter(word => containsPhrase(angle[field], word));
+    if (banned.length > 0) {
+      violations.push({ field, message: `uses banned word(s) for ${profile.name}: ${banned.join(', ')}` });
+    }
+  }
+
+  const missingClaims = profile.mandatoryClaims.filter(
+    claim => !angle.script.toLowerCase().includes(claim.toLowerCase())
+  );
+  if (missingClaims.length > 0) {
+    violations.push({ field: 'script', message: `must include the claim(s): ${missingClaims.map(claim => `"${claim}"`).join('; ')}` });
+  }
+
+  if (profile.preferredCtas.length > 0 && !profile.preferredCtas.some(cta => containsPhrase(angle.script, cta))) {
+    violations.push({
+      field: 'script',
+      message: `must close with one of the calls to action: ${profile.preferredCtas.map(cta => `"${cta}"`).join(', ')}`,
+    });
+  }
+
+  return violations;
+}
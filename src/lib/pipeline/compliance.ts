@@ -0,0 +1,399 @@
+import { z } from 'zod';
+import type {
+  AngleComplianceResult,
+  ComplianceField,
+  ComplianceOptions,
+  ComplianceReport,
+  ComplianceRule,
+  ComplianceViolation,
+  MarketingAngle,
+  ProductData,
+} from '../types';
+import { normalizedEnum, numeric } from './llmResponse';
+import { completeLlmJson, ESTIMATED_COST_PER_GENERATION } from './mistral';
+
+const COMPLIANCE_FIELDS: ComplianceField[] = ['hook', 'script'];
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const MAX_RULES = 30;
+const MAX_DESCRIPTION_LENGTH = 500;
+// User-supplied regexes run on every script; keep them small
+const MAX_PATTERN_LENGTH = 300;
+// Product text the judge needs to tell supported claims from unsupported ones
+const MAX_PRODUCT_TEXT = 1500;
+const JUDGE_TOKENS_PER_ANGLE = 250;
+
+/** One judge call reviews every angle, at roughly the size of a generation */
+export const ESTIMATED_COST_PER_JUDGEMENT = ESTIMATED_COST_PER_GENERATION;
+
+/**
+ * Applied unless a run replaces or disables them. Pattern rules catch the words that are
+ * never acceptable in an ad; the LLM-judged rules cover claims that depend on the product.
+ */
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    id: 'cure-claims',
+    description: 'Claims to cure or heal a condition',
+    type: 'pattern',
+    pattern: '\\b(?:cures?|cured|curing|heals? (?:your|any|all)|miracle (?:cure|pill|treatment))\\b',
+    fields: ['hook', 'script'],
+    severity: 'block',
+  },
+  {
+    id: 'regulatory-approval',
+    description: 'Claims of FDA or regulator approval',
+    type: 'pattern',
+    pattern: '\\b(?:FDA|EMA|MHRA)[- ]?(?:approved|certified|cleared)\\b',
+    fields: ['hook', 'script'],
+    severity: 'block',
+  },
+  {
+    id: 'guaranteed-results',
+    description: 'Guaranteed, permanent or instant results',
+    type: 'pattern',
+    pattern: '\\b(?:guaranteed? (?:results?|to work)|100% (?:effective|guaranteed|results)|permanent(?:ly)? (?:results?|removes?|fix(?:es)?)|results? overnight|overnight results?|lose \\d+ ?(?:lbs?|pounds|kg|kilos) in)\\b',
+    fields: ['hook', 'script'],
+    severity: 'block',
+  },
+  {
+    id: 'ad-disclosure',
+    description: 'Paid content must carry an ad disclosure such as #ad or #sponsored',
+    type: 'pattern',
+    pattern: '#(?:ad|ads|advert|sponsored|partner|paidpartnership|publicidad|werbung|anzeige|pub)\\b|\\bpaid partnership\\b',
+    match: 'require',
+    fields: ['hook', 'script'],
+    severity: 'warn',
+  },
+  {
+    id: 'health-claims',
+    description: 'Claims that the product treats, prevents or mitigates a disease or medical condition, or changes how the body works (weight, hormones, immunity, hair regrowth), beyond what the product description and ingredients support',
+    type: 'llm',
+    fields: ['hook', 'script'],
+    severity: 'block',
+  },
+  {
+    id: 'before-after-guarantee',
+    description: 'Before/after comparisons or testimonials presented as typical or guaranteed results for every buyer',
+    type: 'llm',
+    fields: ['hook', 'script'],
+    severity: 'block',
+  },
+  {
+    id: 'unsubstantiated-claims',
+    description: 'Specific efficacy, superiority or statistical claims ("clinically proven", "dermatologist recommended", "#1", "doubles your energy") that the product description does not back up',
+    type: 'llm',
+    fields: ['hook', 'script'],
+    severity: 'warn',
+  },
+];
+
+export class ComplianceOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComplianceOptionsError';
+  }
+}
+
+/** Whether the quantifier at `index` can repeat its atom more than once */
+function repeatsAt(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return true;
+  if (char !== '{') return false;
+
+  const bounds = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+  if (!bounds) return false;
+  if (!bounds[2]) return Number(bounds[1]) > 1;
+  return bounds[3] === '' || Number(bounds[3]) > 1;
+}
+
+/**
+ * User-supplied regexes run on every script without a time limit, so the shapes that
+ * backtrack exponentially are refused up front: a repeated group that itself repeats or
+ * branches, such as `(a+)+` or `(a|ab)*`, and backreferences.
+ */
+function findBacktrackingRisk(pattern: string): string | null {
+  // One entry per open group: whether it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = pattern[i + 1] || '';
+      if (!inClass && (/[1-9]/.test(next) || next === 'k')) {
+        return 'must not use backreferences';
+      }
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const complex = groups.pop() || false;
+      const repeated = repeatsAt(pattern, i + 1);
+      if (complex && repeated) {
+        return 'must not repeat a group that contains a quantifier or alternation, e.g. (a+)+ or (a|b)*';
+      }
+      if ((complex || repeated) && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (groups.length > 0 && (char === '|' || repeatsAt(pattern, i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return null;
+}
+
+function parseRule(input: unknown, index: number): ComplianceRule {
+  const field = `compliance.rules[${index}]`;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ComplianceOptionsError(`${field} must be an object`);
+  }
+
+  const raw = input as Record<string, any>;
+  if (typeof raw.id !== 'string' || !RULE_ID_PATTERN.test(raw.id)) {
+    throw new ComplianceOptionsError(`${field}.id must be a lower-case slug such as "no-weight-loss"`);
+  }
+  if (typeof raw.description !== 'string' || !raw.description.trim() || raw.description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new ComplianceOptionsError(`${field}.description must be a non-empty string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  if (raw.type !== 'pattern' && raw.type !== 'llm') {
+    throw new ComplianceOptionsError(`${field}.type must be "pattern" or "llm"`);
+  }
+
+  const rule: ComplianceRule = {
+    id: raw.id,
+    description: raw.description.trim(),
+    type: raw.type,
+    fields: COMPLIANCE_FIELDS,
+    severity: 'block',
+  };
+
+  if (raw.type === 'pattern') {
+    if (typeof raw.pattern !== 'string' || !raw.pattern || raw.pattern.length > MAX_PATTERN_LENGTH) {
+      throw new ComplianceOptionsError(`${field}.pattern must be a regex of at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+    try {
+      new RegExp(raw.pattern, 'i');
+    } catch {
+      throw new ComplianceOptionsError(`${field}.pattern is not a valid regular expression`);
+    }
+    const risk = findBacktrackingRisk(raw.pattern);
+    if (risk) {
+      throw new ComplianceOptionsError(`${field}.pattern ${risk}`);
+    }
+    if (raw.match !== undefined && raw.match !== 'forbid' && raw.match !== 'require') {
+      throw new ComplianceOptionsError(`${field}.match must be "forbid" or "require"`);
+    }
+    rule.pattern = raw.pattern;
+    rule.match = raw.match ?? 'forbid';
+  }
+
+  if (raw.fields !== undefined) {
+    if (!Array.isArray(raw.fields) || raw.fields.length === 0 || raw.fields.some((f: unknown) => !COMPLIANCE_FIELDS.includes(f as ComplianceField))) {
+      throw new ComplianceOptionsError(`${field}.fields must be a non-empty array of: ${COMPLIANCE_FIELDS.join(', ')}`);
+    }
+    rule.fields = Array.from(new Set(raw.fields as ComplianceField[]));
+  }
+
+  if (raw.severity !== undefined) {
+    if (raw.severity !== 'block' && raw.severity !== 'warn') {
+      throw new ComplianceOptionsError(`${field}.severity must be "block" or "warn"`);
+    }
+    rule.severity = raw.severity;
+  }
+
+  return rule;
+}
+
+/**
+ * Validates the `compliance` object of a pipeline request. `rules` are added to the
+ * default rule set, replacing a default with the same id; `disabledRules` drops rules by id.
+ */
+export function parseComplianceOptions(input: unknown): Partial<ComplianceOptions> | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ComplianceOptionsError('compliance must be an object');
+  }
+
+  const raw = input as Record<string, any>;
+  const options: Partial<ComplianceOptions> = {};
+
+  if (raw.blockOnViolation !== undefined) {
+    if (typeof raw.blockOnViolation !== 'boolean') {
+      throw new ComplianceOptionsError('compliance.blockOnViolation must be a boolean');
+    }
+    options.blockOnViolation = raw.blockOnViolation;
+  }
+
+  if (raw.disabledRules !== undefined && (!Array.isArray(raw.disabledRules) || raw.disabledRules.some((id: unknown) => typeof id !== 'string'))) {
+    throw new ComplianceOptionsError('compliance.disabledRules must be an array of rule ids');
+  }
+  if (raw.rules !== undefined && !Array.isArray(raw.rules)) {
+    throw new ComplianceOptionsError('compliance.rules must be an array');
+  }
+
+  if (raw.rules !== undefined || raw.disabledRules !== undefined) {
+    const custom = ((raw.rules || []) as unknown[]).map(parseRule);
+    const disabled: string[] = raw.disabledRules || [];
+    const rules = [
+      ...DEFAULT_COMPLIANCE_RULES.filter(rule => !custom.some(c => c.id === rule.id)),
+      ...custom,
+    ].filter(rule => !disabled.includes(rule.id));
+
+    if (rules.length > MAX_RULES) {
+      throw new ComplianceOptionsError(`compliance allows at most ${MAX_RULES} rules`);
+    }
+    options.rules = rules;
+  }
+
+  return options;
+}
+
+/** Fills in defaults; blocking is off unless the run or COMPLIANCE_BLOCK_ON_VIOLATION turns it on */
+export function resolveComplianceOptions(options: Partial<ComplianceOptions> = {}): ComplianceOptions {
+  return {
+    blockOnViolation: options.blockOnViolation ?? process.env.COMPLIANCE_BLOCK_ON_VIOLATION === 'true',
+    rules: options.rules ?? DEFAULT_COMPLIANCE_RULES,
+  };
+}
+
+function checkPatternRule(angle: MarketingAngle, rule: ComplianceRule): ComplianceViolation[] {
+  const pattern = new RegExp(rule.pattern!, 'i');
+
+  if (rule.match === 'require') {
+    if (rule.fields.some(field => pattern.test(angle[field]))) return [];
+    return [{
+      ruleId: rule.id,
+      severity: rule.severity,
+      field: rule.fields[rule.fields.length - 1],
+      message: rule.description,
+    }];
+  }
+
+  const violations: ComplianceViolation[] = [];
+  for (const field of rule.fields) {
+    const match = angle[field].match(pattern);
+    if (match) {
+      violations.push({ ruleId: rule.id, severity: rule.severity, field, message: rule.description, excerpt: match[0] });
+    }
+  }
+  return violations;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+function buildJudgePrompt(productData: ProductData, angles: MarketingAngle[], rules: ComplianceRule[]): string {
+  const ruleLines = rules
+    .map(rule => `- ${rule.id} (checks the ${rule.fields.join(' and ')}): ${rule.description}`)
+    .join('\n');
+  const angleLines = angles
+    .map((angle, index) => `[${index}]\nHook: ${angle.hook}\nScript: ${angle.script}`)
+    .join('\n\n');
+
+  return `You are an advertising compliance reviewer for short-form social video ads, applying FTC and platform advertising policies. Check each marketing angle below against the rules.
+
+Product:
+- Name: ${productData.name}
+- Category: ${productData.category || 'Not specified'}
+- Description: ${truncate(productData.description || 'Not specified', MAX_PRODUCT_TEXT)}
+- Ingredients: ${truncate(productData.ingredients || 'Not listed', MAX_PRODUCT_TEXT)}
+
+Rules:
+${ruleLines}
+
+Marketing angles (hooks and scripts may be in any language):
+${angleLines}
+
+Report every clear violation: the angle number, the rule id, the field ("hook" or "script"), the offending words quoted exactly and a one-sentence reason. Claims the product description or ingredients support are not violations. Report nothing for an angle that breaks no rule.
+
+Respond with valid JSON only:
+{
+  "violations": [
+    { "angle": 0, "ruleId": "string", "field": "script", "excerpt": "string", "reason": "string" }
+  ]
+}`;
+}
+
+async function judgeAngles(
+  productData: ProductData,
+  angles: MarketingAngle[],
+  rules: ComplianceRule[]
+): Promise<Array<{ angle: number; violation: ComplianceViolation }>> {
+  const schema = z.object({
+    violations: z.array(z.object({
+      angle: numeric(z.number().int().min(0).max(angles.length - 1)),
+      ruleId: normalizedEnum(rules.map(rule => rule.id) as [string, ...string[]]),
+      field: normalizedEnum(COMPLIANCE_FIELDS as [string, ...string[]]),
+      excerpt: z.string().trim().optional(),
+      reason: z.string().trim().min(1),
+    })),
+  });
+
+  const result = await completeLlmJson(
+    buildJudgePrompt(productData, angles, rules),
+    schema,
+    'compliance judge',
+    { maxTokens: Math.max(500, angles.length * JUDGE_TOKENS_PER_ANGLE), stub: () => ({ violations: [] }) }
+  );
+
+  return result.violations.map(verdict => {
+    const rule = rules.find(r => r.id === verdict.ruleId)!;
+    return {
+      angle: verdict.angle,
+      violation: {
+        ruleId: rule.id,
+        severity: rule.severity,
+        field: verdict.field as ComplianceField,
+        message: verdict.reason,
+        excerpt: verdict.excerpt || undefined,
+      },
+    };
+  });
+}
+
+/**
+ * Checks every angle against the rule set. Pattern rules always run; the LLM-judged rules
+ * run in one Mistral call unless `judge` is false, and a judge failure is thrown.
+ */
+export async function checkCompliance(
+  productData: ProductData,
+  angles: MarketingAngle[],
+  options: ComplianceOptions,
+  { judge = true }: { judge?: boolean } = {}
+): Promise<ComplianceReport> {
+  const patternRules = options.rules.filter(rule => rule.type === 'pattern');
+  const llmRules = options.rules.filter(rule => rule.type === 'llm');
+  const judged = judge && llmRules.length > 0 && angles.length > 0
+    ? await judgeAngles(productData, angles, llmRules)
+    : [];
+
+  const results: AngleComplianceResult[] = angles.map((angle, index) => {
+    const violations = [
+      ...patternRules.flatMap(rule => checkPatternRule(angle, rule)),
+      ...judged.filter(verdict => verdict.angle === index).map(verdict => verdict.violation),
+    ];
+    return {
+      angleId: angle.id,
+      passed: !violations.some(violation => violation.severity === 'block'),
+      violations,
+    };
+  });
+
+  return {
+    checkedAt: new Date().toISOString(),
+    passed: results.every(result => result.passed),
+    angles: results,
+    judged: judge || llmRules.length === 0,
+  };
+}
+
+/** Ids of the angles with "block" violations in `report` */
+export function getBlockedAngleIds(report: ComplianceReport | undefined): string[] {
+  return (report?.angles || []).filter(result => !result.passed).map(result => result.angleId);
+}
@@ -0,0 +1,148 @@
+import type { ContentOptions, ContentPlatform } from '../types';
+import { DEFAULT_LOCALE, normalizeLocale, spokenUnit, spokenUnitsPerSecond } from './locale';
+
+export const DEFAULT_TONES = ['funny', 'educational', 'emotional', 'inspirational', 'controversial', 'trending'];
+export const MIN_ANGLE_COUNT = 1;
+export const MAX_ANGLE_COUNT = 10;
+const DEFAULT_ANGLE_COUNT = 3;
+const MAX_TONES = 20;
+const MAX_TONE_LENGTH = 40;
+const MIN_DURATION_SECONDS = 5;
+const MAX_DURATION_SECONDS = 180;
+
+// Scripts this far outside the duration window are still usable, just penalised in scoring
+const LENGTH_TOLERANCE = 0.25;
+
+export const CONTENT_PLATFORMS: Record<ContentPlatform, string> = {
+  tiktok: 'TikTok',
+  instagram_reels: 'Instagram Reels',
+  youtube_shorts: 'YouTube Shorts',
+  facebook_reels: 'Facebook Reels',
+  snapchat_spotlight: 'Snapchat Spotlight',
+};
+
+export class ContentOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentOptionsError';
+  }
+}
+
+function normalizeTone(tone: string): string {
+  return tone.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function parseToneList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(tone => typeof tone !== 'string' || !tone.trim())) {
+    throw new ContentOptionsError(`content.${field} must be an array of non-empty strings`);
+  }
+
+  const tones = value.map(normalizeTone);
+  const tooLong = tones.find(tone => tone.length > MAX_TONE_LENGTH);
+  if (tooLong) {
+    throw new ContentOptionsError(`content.${field} entries must be at most ${MAX_TONE_LENGTH} characters: "${tooLong}"`);
+  }
+  return tones;
+}
+
+/**
+ * Validates the `content` object of a pipeline request. `tones` replaces the default tone
+ * palette, `extraTones` adds to it; omitted fields keep their defaults.
+ */
+export function parseContentOptions(input: unknown): Partial<ContentOptions> | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ContentOptionsError('content must be an object');
+  }
+
+  const raw = input as Record<string, any>;
+  const options: Partial<ContentOptions> = {};
+
+  if (raw.angleCount !== undefined) {
+    if (!Number.isInteger(raw.angleCount) || raw.angleCount < MIN_ANGLE_COUNT || raw.angleCount > MAX_ANGLE_COUNT) {
+      throw new ContentOptionsError(`content.angleCount must be an integer from ${MIN_ANGLE_COUNT} to ${MAX_ANGLE_COUNT}`);
+    }
+    options.angleCount = raw.angleCount;
+  }
+
+  const tones = parseToneList(raw.tones, 'tones');
+  const extraTones = parseToneList(raw.extraTones, 'extraTones');
+  if (tones || extraTones) {
+    const palette = Array.from(new Set([...(tones || DEFAULT_TONES), ...(extraTones || [])]));
+    if (palette.length === 0) {
+      throw new ContentOptionsError('content.tones must not be empty');
+    }
+    if (palette.length > MAX_TONES) {
+      throw new ContentOptionsError(`content.tones allows at most ${MAX_TONES} tones`);
+    }
+    options.tones = palette;
+  }
+
+  if (raw.platforms !== undefined) {
+    const known = Object.keys(CONTENT_PLATFORMS);
+    if (!Array.isArray(raw.platforms) || raw.platforms.length === 0 || raw.platforms.some((p: unknown) => !known.includes(p as string))) {
+      throw new ContentOptionsError(`content.platforms must be a non-empty array of: ${known.join(', ')}`);
+    }
+    options.platforms = Array.from(new Set(raw.platforms as ContentPlatform[]));
+  }
+
+  if (raw.durationSeconds !== undefined) {
+    const { min, max } = raw.durationSeconds || {};
+    const inRange = (value: unknown) =>
+      typeof value === 'number' && value >= MIN_DURATION_SECONDS && value <= MAX_DURATION_SECONDS;
+    if (!inRange(min) || !inRange(max) || min > max) {
+      throw new ContentOptionsError(
+        `content.durationSeconds must be { min, max } with ${MIN_DURATION_SECONDS} <= min <= max <= ${MAX_DURATION_SECONDS}`
+      );
+    }
+    options.durationSeconds = { min, max };
+  }
+
+  if (raw.locale !== undefined) {
+    if (typeof raw.locale !== 'string' || !raw.locale.trim()) {
+      throw new ContentOptionsError('content.locale must be a BCP 47 language tag such as "es-MX"');
+    }
+    try {
+      options.locale = normalizeLocale(raw.locale);
+    } catch {
+      throw new ContentOptionsError(`content.locale is not a valid language tag: ${raw.locale}`);
+    }
+  }
+
+  return options;
+}
+
+/** Fills in defaults; at least `minAngles` angles are generated so every requested video has one */
+export function resolveContentOptions(options: Partial<ContentOptions> = {}, minAngles: number = 1): ContentOptions {
+  return {
+    angleCount: Math.min(MAX_ANGLE_COUNT, Math.max(options.angleCount ?? DEFAULT_ANGLE_COUNT, minAngles)),
+    tones: options.tones?.length ? options.tones : DEFAULT_TONES,
+    platforms: options.platforms?.length ? options.platforms : ['tiktok'],
+    durationSeconds: options.durationSeconds ?? { min: 30, max: 60 },
+    locale: options.locale ?? DEFAULT_LOCALE,
+  };
+}
+
+/**
+ * Target script length for the duration window, and the looser bounds validation accepts.
+ * Counted in words, or in characters for Chinese and Japanese.
+ */
+export function scriptLengthRange(options: ContentOptions): {
+  unit: 'words' | 'characters';
+  min: number;
+  max: number;
+  hardMin: number;
+  hardMax: number;
+} {
+  const rate = spokenUnitsPerSecond(options.locale);
+  const min = Math.round(options.durationSeconds.min * rate);
+  const max = Math.round(options.durationSeconds.max * rate);
+  return {
+    unit: spokenUnit(options.locale),
+    min,
+    max,
+    hardMin: Math.floor(min * (1 - LENGTH_TOLERANCE)),
+    hardMax: Math.ceil(max * (1 + LENGTH_TOLERANCE)),
+  };
+}
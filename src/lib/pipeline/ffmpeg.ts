@@ -0,0 +1,471 @@
+import axios from 'axios';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffmpeg from 'fluent-ffmpeg';
+import { ensureDir, getDataDir } from '../storage/fsUtils';
+import { calculateConfidence, createTimeline } from './shotstack';
+import { CJK_CHARACTER, getCaptionLayout } from './locale';
+import type { CaptionLayout } from './locale';
+import type {
+  AssembleVideoParams,
+  AssembleVideoResult,
+  ShotstackClip,
+  ShotstackTimeline,
+} from './shotstack';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export const OUTPUT_WIDTH = 1080;
+export const OUTPUT_HEIGHT = 1920;
+export const OUTPUT_FPS = 30;
+const RENDER_TIMEOUT = 300000;
+const DOWNLOAD_TIMEOUT = 60000;
+const MAX_ASSET_BYTES = 200 * 1024 * 1024;
+const TEXT_MARGIN = 60;
+const DEFAULT_FONT_SIZE = 40;
+// Average advance as a fraction of the font size; Han and kana glyphs are full-width
+const NARROW_GLYPH_WIDTH = 0.55;
+const WIDE_GLYPH_WIDTH = 1;
+// Kept on the line before rather than starting a new one
+const NO_LINE_START = /^[)\]}»”’,.!?:;%、。，．！？：；」』）】〉》〕ー…・ぁぃぅぇぉっゃゅょァィゥェォッャュョ]/;
+const RENDER_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const OWN_RENDER_PATTERN = /\/api\/renders\/([A-Za-z0-9-]+)$/;
+
+export class LocalRenderError extends Error {
+  constructor(message: string, public details?: any) {
+    super(message);
+    this.name = 'LocalRenderError';
+  }
+}
+
+export interface LocalRenderResult {
+  renderId: string;
+  filePath: string;
+  url: string;
+  duration: number;
+}
+
+export function getRendersDir(): string {
+  return process.env.RENDERS_DIR || getDataDir('renders');
+}
+
+export function getRenderPath(renderId: string): string | null {
+  if (!RENDER_ID_PATTERN.test(renderId)) return null;
+  return path.join(getRendersDir(), `${renderId}.mp4`);
+}
+
+export function getRenderUrl(renderId: string): string {
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/$/, '');
+  return `${baseUrl}/api/renders/${renderId}`;
+}
+
+/** Whether a URL points at a video rendered on this server, which cloud renderers cannot fetch */
+export function isLocalRenderUrl(src: string): boolean {
+  const ownRender = src.match(OWN_RENDER_PATTERN);
+  return Boolean(ownRender && getRenderPath(ownRender[1]));
+}
+
+function isInsideDir(dir: string, filePath: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Brings a timeline asset onto local disk. Supports data URLs (remove.bg cutouts),
+ * http(s) URLs, our own /api/renders links and absolute paths inside the render's
+ * work directory or the renders directory; any other file path is refused.
+ */
+export async function resolveAsset(src: string, workDir: string, name: string): Promise<string> {
+  if (src.startsWith('data:')) {
+    const match = src.match(/^data:([^;,]+)?(;base64)?,([\s\S]*)$/);
+    if (!match) {
+      throw new LocalRenderError('Malformed data URL asset');
+    }
+    const filePath = path.join(workDir, name);
+    const body = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]));
+    await fs.writeFile(filePath, body);
+    return filePath;
+  }
+
+  const ownRender = src.match(OWN_RENDER_PATTERN);
+  if (ownRender) {
+    const renderPath = getRenderPath(ownRender[1]);
+    if (renderPath) return renderPath;
+  }
+
+  if (/^https?:\/\//i.test(src)) {
+    const response = await axios.get<ArrayBuffer>(src, {
+      responseType: 'arraybuffer',
+      timeout: DOWNLOAD_TIMEOUT,
+      maxContentLength: MAX_ASSET_BYTES,
+    });
+    const filePath = path.join(workDir, name);
+    await fs.writeFile(filePath, Buffer.from(response.data));
+    return filePath;
+  }
+
+  if (path.isAbsolute(src)) {
+    if (!isInsideDir(workDir, src) && !isInsideDir(getRendersDir(), src)) {
+      throw new LocalRenderError(`Asset path is outside the render directories: ${src.slice(0, 100)}`);
+    }
+    await fs.access(src);
+    return src;
+  }
+
+  throw new LocalRenderError(`Unsupported asset source: ${src.slice(0, 100)}`);
+}
+
+/**
+ * Reads the container duration from ffmpeg's banner, since the bundled installer
+ * ships ffmpeg without ffprobe.
+ */
+export function probeDuration(filePath: string): Promise<number | null> {
+  return new Promise(resolve => {
+    const child = spawn(ffmpegInstaller.path, ['-hide_banner', '-i', filePath]);
+    let stderr = '';
+
+    child.stderr.on('data', chunk => {
+      stderr += chunk.toString();
+    });
+    child.on('error', () => resolve(null));
+    child.on('close', () => {
+      const match = stderr.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+      resolve(match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null);
+    });
+  });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function textWidth(text: string, fontSize: number): number {
+  return Array.from(text).reduce(
+    (width, char) => width + fontSize * (CJK_CHARACTER.test(char) ? WIDE_GLYPH_WIDTH : NARROW_GLYPH_WIDTH),
+    0
+  );
+}
+
+/** Words, with every Han or kana character on its own since lines may break between them */
+function breakOpportunities(paragraph: string): Array<{ text: string; spaced: boolean }> {
+  const tokens: Array<{ text: string; spaced: boolean }> = [];
+  let spaced = false;
+  let word = '';
+
+  const flush = () => {
+    if (!word) return;
+    tokens.push({ text: word, spaced });
+    word = '';
+    spaced = false;
+  };
+
+  for (const char of Array.from(paragraph)) {
+    if (/\s/.test(char)) {
+      flush();
+      spaced = tokens.length > 0;
+    } else if (CJK_CHARACTER.test(char)) {
+      flush();
+      tokens.push({ text: char, spaced });
+      spaced = false;
+    } else {
+      word += char;
+    }
+  }
+  flush();
+
+  return tokens;
+}
+
+// drawtext has no word wrap, so break lines at roughly the width of the frame
+function wrapText(text: string, fontSize: number): string {
+  const maxWidth = Math.max(fontSize * 10 * NARROW_GLYPH_WIDTH, OUTPUT_WIDTH - TEXT_MARGIN * 2);
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const token of breakOpportunities(paragraph)) {
+      const next = line && token.spaced ? `${line} ${token.text}` : `${line}${token.text}`;
+      if (line && textWidth(next, fontSize) > maxWidth && !NO_LINE_START.test(token.text)) {
+        lines.push(line);
+        line = token.text;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Font for a caption language: FFMPEG_FONT_FILE_CJK or FFMPEG_FONT_FILE_RTL when set,
+ * FFMPEG_FONT_FILE for Latin text, otherwise the first family of the layout's font stack
+ * looked up through fontconfig. drawtext shapes Arabic and Hebrew right to left itself.
+ */
+function fontOption(layout: CaptionLayout): string {
+  const scriptFontFile = layout.cjkFont
+    ? process.env.FFMPEG_FONT_FILE_CJK
+    : layout.direction === 'rtl'
+      ? process.env.FFMPEG_FONT_FILE_RTL
+      : undefined;
+  const isLatin = !layout.cjkFont && layout.direction === 'ltr';
+  const fontFile = scriptFontFile || (isLatin ? process.env.FFMPEG_FONT_FILE : undefined);
+  if (fontFile) {
+    return `fontfile='${escapeFilterPath(fontFile)}'`;
+  }
+
+  const family = layout.fontFamily.split(',')[0].trim().replace(/^'|'$/g, '');
+  return `font='${family}'`;
+}
+
+/**
+ * Shotstack positions and offsets as overlay/drawtext expressions. Offsets are fractions
+ * of the frame; on an anchored edge they push the element inward from that edge, and
+ * everything is clamped so text never renders off-frame.
+ */
+function positionExpr(
+  clip: ShotstackClip,
+  itemWidth: string,
+  itemHeight: string,
+  margin: number = 0
+): { x: string; y: string } {
+  const position = clip.position || 'center';
+  const offsetX = Math.round((clip.offset?.x || 0) * OUTPUT_WIDTH);
+  const offsetY = Math.round((clip.offset?.y || 0) * OUTPUT_HEIGHT);
+
+  const horizontal = /left/i.test(position)
+    ? `${margin + Math.abs(offsetX)}`
+    : /right/i.test(position)
+      ? `${OUTPUT_WIDTH}-${itemWidth}-${margin + Math.abs(offsetX)}`
+      : `(${OUTPUT_WIDTH}-${itemWidth})/2+(${offsetX})`;
+  const vertical = /^top/i.test(position)
+    ? `${margin + Math.abs(offsetY)}`
+    : /^bottom/i.test(position)
+      ? `${OUTPUT_HEIGHT}-${itemHeight}-${margin + Math.abs(offsetY)}`
+      : `(${OUTPUT_HEIGHT}-${itemHeight})/2-(${offsetY})`;
+
+  const clamp = (expr: string, max: string) => `max(${margin},min(${max}-${margin},${expr}))`;
+
+  return {
+    x: clamp(horizontal, `${OUTPUT_WIDTH}-${itemWidth}`),
+    y: clamp(vertical, `${OUTPUT_HEIGHT}-${itemHeight}`),
+  };
+}
+
+function enableExpr(clip: ShotstackClip): string {
+  return `between(t,${clip.start.toFixed(2)},${(clip.start + clip.length).toFixed(2)})`;
+}
+
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/:/g, '\\:').replace(/'/g, "\\'");
+}
+
+export function runFfmpeg(command: ffmpeg.FfmpegCommand): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      command.kill('SIGKILL');
+      reject(new LocalRenderError(`Local render timed out after ${RENDER_TIMEOUT / 1000} seconds`));
+    }, RENDER_TIMEOUT);
+
+    command
+      .on('end', () => {
+        clearTimeout(timer);
+        resolve();
+      })
+      .on('error', (error: Error, _stdout: string | null, stderr: string | null) => {
+        clearTimeout(timer);
+        reject(new LocalRenderError(`ffmpeg failed: ${error.message}`, stderr?.split('\n').slice(-20).join('\n')));
+      })
+      .run();
+  });
+}
+
+/**
+ * Renders a Shotstack timeline to MP4 with ffmpeg: the first video clip is the base layer,
+ * image clips become overlays and html clips become drawtext captions.
+ */
+export async function renderTimelineLocally(
+  timeline: ShotstackTimeline,
+  duration: number
+): Promise<LocalRenderResult> {
+  const renderId = randomUUID();
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ugc-render-'));
+  const outputPath = getRenderPath(renderId)!;
+
+  try {
+    await ensureDir(getRendersDir());
+
+    const clips = timeline.tracks.flatMap(track => track.clips);
+    const baseClip = clips.find(clip => clip.asset.type === 'video');
+    const command = ffmpeg();
+    const filters: string[] = [];
+    let inputIndex = 0;
+
+    if (baseClip) {
+      command.input(await resolveAsset(baseClip.asset.src, workDir, 'base-video'));
+      filters.push(
+        `[0:v]scale=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:force_original_aspect_ratio=increase,` +
+        `crop=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT},setsar=1,fps=${OUTPUT_FPS}[layer0]`
+      );
+    } else {
+      command
+        .input(`color=c=black:s=${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}:r=${OUTPUT_FPS}:d=${duration}`)
+        .inputFormat('lavfi');
+      filters.push('[0:v]setsar=1[layer0]');
+    }
+    inputIndex++;
+
+    let current = 'layer0';
+    let layer = 0;
+    const nextLabel = () => `layer${++layer}`;
+
+    // Layers stack in the order createTimeline lists them: base video, product, hook, captions
+    const overlayClips = clips.filter(clip => clip !== baseClip);
+
+    for (const clip of overlayClips) {
+      if (clip.asset.type === 'image' && clip.asset.src) {
+        const imagePath = await resolveAsset(clip.asset.src, workDir, `image-${inputIndex}`);
+        command.input(imagePath).inputOptions(['-loop 1']);
+
+        const width = Math.round(OUTPUT_WIDTH * (clip.scale || 1));
+        const { x, y } = positionExpr(clip, 'w', 'h', TEXT_MARGIN / 2);
+        const scaled = `img${inputIndex}`;
+        const label = nextLabel();
+
+        filters.push(`[${inputIndex}:v]scale=${width}:-1,format=rgba[${scaled}]`);
+        filters.push(
+          `[${current}][${scaled}]overlay=x='${x}':y='${y}':enable='${enableExpr(clip)}':shortest=1[${label}]`
+        );
+        current = label;
+        inputIndex++;
+      } else if (clip.asset.type === 'html' && clip.asset.html) {
+        const text = htmlToText(clip.asset.html);
+        if (!text) continue;
+
+        const fontSize = Number(clip.asset.html.match(/font-size:\s*(\d+)px/)?.[1]) || DEFAULT_FONT_SIZE;
+        const layout = getCaptionLayout(clip.asset.html.match(/\blang="([^"]+)"/)?.[1]);
+        const hasBackground = /background/i.test(clip.asset.html);
+        const textPath = path.join(workDir, `text-${layer + 1}.txt`);
+        await fs.writeFile(textPath, wrapText(text, fontSize), 'utf8');
+
+        const { x, y } = positionExpr(clip, 'text_w', 'text_h', TEXT_MARGIN);
+        const options = [
+          `textfile='${escapeFilterPath(textPath)}'`,
+          // Scripts contain "%" (discounts) which drawtext would otherwise treat as expansions
+          'expansion=none',
+          fontOption(layout),
+          `fontsize=${fontSize}`,
+          'fontcolor=white',
+          'line_spacing=8',
+          hasBackground ? 'box=1:boxcolor=black@0.7:boxborderw=20' : 'borderw=3:bordercolor=black@0.8',
+          `x='${x}'`,
+          `y='${y}'`,
+          `enable='${enableExpr(clip)}'`,
+        ];
+        const label = nextLabel();
+
+        filters.push(`[${current}]drawtext=${options.join(':')}[${label}]`);
+        current = label;
+      }
+    }
+
+    command
+      .complexFilter(filters, current)
+      .outputOptions([
+        ...(baseClip ? ['-map 0:a?'] : []),
+        `-t ${duration.toFixed(2)}`,
+        '-c:v libx264',
+        '-preset veryfast',
+        '-crf 23',
+        '-pix_fmt yuv420p',
+        '-c:a aac',
+        '-movflags +faststart',
+      ])
+      .output(outputPath);
+
+    await runFfmpeg(command);
+
+    return {
+      renderId,
+      filePath: outputPath,
+      url: getRenderUrl(renderId),
+      duration: (await probeDuration(outputPath)) ?? duration,
+    };
+  } catch (error) {
+    await fs.rm(outputPath, { force: true }).catch(() => undefined);
+    throw error;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Drop-in replacement for Shotstack's `assembleVideo` that renders on this machine,
+ * so assembly works offline and costs nothing per render.
+ */
+export async function assembleVideoLocally(params: AssembleVideoParams): Promise<AssembleVideoResult> {
+  if (!params.videoUrl) {
+    throw new Error('Video URL is required');
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ugc-source-'));
+
+  try {
+    const localVideo = await resolveAsset(params.videoUrl, workDir, 'source-video');
+    const videoDuration = Math.min(60, (await probeDuration(localVideo)) ?? 15);
+
+    const timeline = createTimeline({
+      videoUrl: localVideo,
+      productImageUrl: params.productImageUrl,
+      transparentProductUrl: params.transparentProductUrl || params.productImageUrl,
+      script: params.script,
+      hook: params.hook,
+      videoDuration,
+      priceLabel: params.priceLabel,
+      locale: params.locale,
+    });
+
+    const result = await renderTimelineLocally(timeline, videoDuration);
+
+    const layers = [
+      'base_video',
+      params.transparentProductUrl || params.productImageUrl ? 'product_overlay' : '',
+      params.hook ? 'hook_text' : '',
+      params.priceLabel ? 'price_badge' : '',
+      params.script ? 'captions' : '',
+    ].filter(Boolean);
+
+    return {
+      url: result.url,
+      layers,
+      metadata: {
+        renderId: result.renderId,
+        duration: result.duration,
+        resolution: `${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}`,
+        cost: 0,
+        confidence: calculateConfidence({
+          hasVideo: true,
+          hasProduct: Boolean(params.transparentProductUrl || params.productImageUrl),
+          hasHook: Boolean(params.hook),
+          hasScript: Boolean(params.script),
+          duration: videoDuration,
+        }),
+      },
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
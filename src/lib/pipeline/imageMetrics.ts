@@ -0,0 +1,284 @@
+import sharp from 'sharp';
+import type { ImageMetrics } from '../types';
+
+const PALETTE_SIZE = 96;
+const SHARPNESS_SIZE = 512;
+const CLUSTERS = 5;
+const KMEANS_ITERATIONS = 12;
+const KMEANS_SEED = 0x9e3779b9;
+const MIN_ALPHA = 128;
+// Clusters closer than this (CIE76 ΔE) are one colour split by k-means, e.g. on two-tone images
+const MERGE_DISTANCE = 12;
+const MIN_DOMINANT_SHARE = 0.15;
+const MAX_DOMINANT = 3;
+const MAX_ACCENT = 2;
+// Lab chroma above which a small cluster reads as an accent rather than a shadow or tint
+const MIN_ACCENT_CHROMA = 25;
+// Chroma of a fully saturated product shot; mean chroma is scaled against it for vibrancy
+const VIBRANT_CHROMA = 60;
+// Laplacian variance of a crisp 512px product photo; blurrier images score proportionally lower
+const SHARP_LAPLACIAN_VARIANCE = 400;
+
+interface LabPixel {
+  l: number;
+  a: number;
+  b: number;
+  rgb: [number, number, number];
+}
+
+interface Cluster {
+  centroid: [number, number, number];
+  rgb: [number, number, number];
+  count: number;
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/** sRGB to CIE Lab (D65), so distances follow perceived colour difference */
+function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function distanceSq(p: LabPixel, c: [number, number, number]): number {
+  return (p.l - c[0]) ** 2 + (p.a - c[1]) ** 2 + (p.b - c[2]) ** 2;
+}
+
+function centroidDistance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function toHex(rgb: [number, number, number]): string {
+  return `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Fixed-seed PRNG so the same image always yields the same palette
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** k-means++ seeding followed by Lloyd iterations, all in Lab space */
+function kMeans(pixels: LabPixel[], k: number): Cluster[] {
+  const random = mulberry32(KMEANS_SEED);
+  const centroids: Array<[number, number, number]> = [];
+
+  const first = pixels[Math.floor(random() * pixels.length)];
+  centroids.push([first.l, first.a, first.b]);
+
+  const nearest = pixels.map(p => distanceSq(p, centroids[0]));
+  while (centroids.length < k) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break;
+
+    let target = random() * total;
+    let index = 0;
+    while (index < nearest.length - 1 && target > nearest[index]) {
+      target -= nearest[index];
+      index++;
+    }
+
+    const picked = pixels[index];
+    centroids.push([picked.l, picked.a, picked.b]);
+    pixels.forEach((p, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSq(p, centroids[centroids.length - 1]));
+    });
+  }
+
+  const assignments = new Array<number>(pixels.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let moved = false;
+    pixels.forEach((p, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((c, j) => {
+        const d = distanceSq(p, c);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = j;
+        }
+      });
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        moved = true;
+      }
+    });
+
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    pixels.forEach((p, i) => {
+      const sum = sums[assignments[i]];
+      sum[0] += p.l;
+      sum[1] += p.a;
+      sum[2] += p.b;
+      sum[3] += 1;
+    });
+    sums.forEach((sum, j) => {
+      if (sum[3] > 0) {
+        centroids[j] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+      }
+    });
+
+    if (!moved && iteration > 0) break;
+  }
+
+  const clusters: Cluster[] = centroids.map(centroid => ({ centroid, rgb: [0, 0, 0], count: 0 }));
+  pixels.forEach((p, i) => {
+    const cluster = clusters[assignments[i]];
+    cluster.rgb[0] += p.rgb[0];
+    cluster.rgb[1] += p.rgb[1];
+    cluster.rgb[2] += p.rgb[2];
+    cluster.count += 1;
+  });
+
+  return mergeClusters(clusters.filter(cluster => cluster.count > 0).sort((a, b) => b.count - a.count))
+    .map(cluster => ({
+      ...cluster,
+      rgb: cluster.rgb.map(v => v / cluster.count) as [number, number, number],
+    }));
+}
+
+/** Folds each cluster into a larger one within MERGE_DISTANCE; expects rgb as sums, largest first */
+function mergeClusters(clusters: Cluster[]): Cluster[] {
+  const merged: Cluster[] = [];
+
+  for (const cluster of clusters) {
+    const target = merged.find(existing => centroidDistance(existing.centroid, cluster.centroid) < MERGE_DISTANCE);
+    if (!target) {
+      merged.push({ ...cluster });
+      continue;
+    }
+
+    const total = target.count + cluster.count;
+    target.centroid = target.centroid.map(
+      (v, i) => (v * target.count + cluster.centroid[i] * cluster.count) / total
+    ) as [number, number, number];
+    target.rgb = target.rgb.map((v, i) => v + cluster.rgb[i]) as [number, number, number];
+    target.count = total;
+  }
+
+  return merged;
+}
+
+async function readPixels(image: Buffer): Promise<LabPixel[]> {
+  const { data, info } = await sharp(image)
+    .resize(PALETTE_SIZE, PALETTE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: LabPixel[] = [];
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    // Cutouts and PNG packshots are mostly transparent; only the product counts
+    if (data[offset + 3] < MIN_ALPHA) continue;
+
+    const rgb: [number, number, number] = [data[offset], data[offset + 1], data[offset + 2]];
+    const [l, a, b] = rgbToLab(rgb[0], rgb[1], rgb[2]);
+    pixels.push({ l, a, b, rgb });
+  }
+  return pixels;
+}
+
+/** Variance of the 4-neighbour Laplacian on a greyscale copy; low values mean blur */
+async function laplacianVariance(image: Buffer): Promise<number> {
+  const { data, info } = await sharp(image)
+    .resize(SHARPNESS_SIZE, SHARPNESS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+function clamp(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Deterministic colour and quality metrics for one product image: a k-means palette in
+ * Lab space, brightness and contrast from Lab lightness, and sharpness from the
+ * Laplacian variance. Scores are 0-100.
+ */
+export async function measureImageMetrics(image: Buffer): Promise<ImageMetrics> {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const [pixels, variance] = await Promise.all([readPixels(image), laplacianVariance(image)]);
+
+  if (pixels.length === 0) {
+    throw new Error('Image has no opaque pixels');
+  }
+
+  const meanL = pixels.reduce((sum, p) => sum + p.l, 0) / pixels.length;
+  const stdL = Math.sqrt(pixels.reduce((sum, p) => sum + (p.l - meanL) ** 2, 0) / pixels.length);
+  const meanChroma = pixels.reduce((sum, p) => sum + Math.sqrt(p.a * p.a + p.b * p.b), 0) / pixels.length;
+
+  const clusters = kMeans(pixels, Math.min(CLUSTERS, pixels.length));
+  const chroma = (cluster: Cluster) => Math.sqrt(cluster.centroid[1] ** 2 + cluster.centroid[2] ** 2);
+
+  const dominant = clusters
+    .filter((cluster, index) => index === 0 || cluster.count / pixels.length >= MIN_DOMINANT_SHARE)
+    .slice(0, MAX_DOMINANT);
+  const accent = clusters
+    .filter(cluster => dominant.indexOf(cluster) < 0 && chroma(cluster) >= MIN_ACCENT_CHROMA)
+    .sort((a, b) => chroma(b) - chroma(a))
+    .slice(0, MAX_ACCENT);
+
+  return {
+    width,
+    height,
+    aspectRatio: height > 0 ? Math.round((width / height) * 100) / 100 : 0,
+    brightness: clamp(meanL),
+    // A standard deviation of 50 L* units is already a hard black-and-white image
+    contrast: clamp((stdL / 50) * 100),
+    sharpness: clamp((variance / SHARP_LAPLACIAN_VARIANCE) * 100),
+    vibrancy: clamp((meanChroma / VIBRANT_CHROMA) * 100),
+    dominantColors: dominant.map(cluster => toHex(cluster.rgb)),
+    accentColors: accent.map(cluster => toHex(cluster.rgb)),
+  };
+}
+
+/** Rough mood word from the metrics, using the same vocabulary as the vision prompt */
+export function describeMood(metrics: ImageMetrics): string {
+  if (metrics.vibrancy >= 55) return 'vibrant';
+  if (metrics.brightness < 35) return 'elegant';
+  if (metrics.vibrancy >= 35 && metrics.brightness >= 60) return 'playful';
+  return 'muted';
+}
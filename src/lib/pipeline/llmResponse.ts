@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+// Cap on how much of a rejected answer is echoed back, so a runaway response can't blow the context
+const MAX_ECHOED_RESPONSE = 6000;
+
+/** An LLM answer that is not valid JSON or does not match its schema, with one line per issue */
+export class LlmResponseError extends Error {
+  constructor(message: string, public issues: string[], public content: string) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+/** Numbers sent as strings ("85", " 7.5 ", "42%") are read as numbers; anything else is left for the schema to reject */
+export function numeric<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    const trimmed = value.trim().replace(/%$/, '').trim();
+    return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : value;
+  }, schema);
+}
+
+/** Lists sometimes come back as a single string */
+export const stringList = z.preprocess(
+  value => (typeof value === 'string' ? [value] : value),
+  z.array(z.string())
+);
+
+/** Case and surrounding whitespace don't change an enum value ("Funny " is "funny") */
+export function normalizedEnum<T extends [string, ...string[]]>(values: T) {
+  return z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(values)
+  );
+}
+
+/** `angles[1].script` style path for an issue; the root is `response` */
+export function formatIssuePath(path: Array<string | number>): string {
+  if (path.length === 0) return 'response';
+  return path.reduce<string>(
+    (formatted, key) => (typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key),
+    ''
+  );
+}
+
+/**
+ * Parses the first JSON object in an LLM answer and validates it against `schema`,
+ * returning the coerced value. Throws LlmResponseError with field-level issues.
+ */
+export function parseLlmJson<T extends z.ZodTypeAny>(content: string, schema: T, source: string): z.output<T> {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new LlmResponseError(`No JSON object found in ${source} response`, ['response: expected a JSON object'], content);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new LlmResponseError(
+      `Failed to parse ${source} response as JSON: ${message}`,
+      [`response: invalid JSON (${message})`],
+      content
+    );
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${formatIssuePath(issue.path)}: ${issue.message}`);
+    throw new LlmResponseError(
+      `Invalid ${source} response: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`,
+      issues,
+      content
+    );
+  }
+  return result.data;
+}
+
+/** Follow-up instruction that lists what was wrong with the previous answer and asks for a corrected one */
+export function buildRepairPrompt(error: LlmResponseError): string {
+  return `Your previous response could not be used. Fix these problems:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+
+Keep every field that was already valid unchanged and respond with the complete corrected JSON only, no commentary.`;
+}
+
+/** The rejected answer, trimmed for inclusion in a repair request */
+export function echoRejectedResponse(error: LlmResponseError): string {
+  return error.content.length > MAX_ECHOED_RESPONSE
+    ? `${error.content.slice(0, MAX_ECHOED_RESPONSE)}...`
+    : error.content;
+}
@@ -0,0 +1,123 @@
+export const DEFAULT_LOCALE = 'en-US';
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'sd', 'yi', 'dv', 'ckb', 'ug'];
+const RTL_SCRIPTS = ['Arab', 'Hebr', 'Thaa', 'Syrc', 'Nkoo'];
+// Written without spaces between words, so lines break between characters
+const CJK_LANGUAGES = ['zh', 'ja'];
+
+// Conversational voice-over pace; Chinese and Japanese are counted in characters, not words
+const WORDS_PER_SECOND = 2.5;
+const CHARACTERS_PER_SECOND: Record<string, number> = { zh: 4.5, ja: 7 };
+
+// Han, kana and full-width forms; Hangul is left out because Korean separates words with spaces
+export const CJK_CHARACTER = /[\u2e80-\u2fdf\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+const SPOKEN_PUNCTUATION = /[\s.,!?;:'"()[\]{}…\-–—、。，．！？；：「」『』（）【】〈〉《》・〜]/g;
+
+const FONT_STACKS = {
+  latin: 'Arial, sans-serif',
+  zh: "'Noto Sans CJK SC', 'PingFang SC', 'Microsoft YaHei', sans-serif",
+  zhHant: "'Noto Sans CJK TC', 'PingFang TC', 'Microsoft JhengHei', sans-serif",
+  ja: "'Noto Sans CJK JP', 'Hiragino Sans', 'Yu Gothic', sans-serif",
+  ko: "'Noto Sans CJK KR', 'Apple SD Gothic Neo', 'Malgun Gothic', sans-serif",
+  arabic: "'Noto Sans Arabic', Tahoma, sans-serif",
+  hebrew: "'Noto Sans Hebrew', Arial, sans-serif",
+};
+
+export interface CaptionLayout {
+  lang: string;
+  direction: 'ltr' | 'rtl';
+  /** Lines may break between any two characters */
+  cjk: boolean;
+  /** Needs a font with Han, kana or Hangul glyphs (Korean included) */
+  cjkFont: boolean;
+  fontFamily: string;
+}
+
+/** Canonical BCP 47 tag ("es-mx" becomes "es-MX"); throws on anything Intl doesn't accept */
+export function normalizeLocale(locale: string): string {
+  const [canonical] = Intl.getCanonicalLocales(locale.trim());
+  if (!canonical) {
+    throw new RangeError(`Invalid locale: ${locale}`);
+  }
+  return canonical;
+}
+
+function parseLocale(locale: string): { language: string; script?: string } {
+  try {
+    const parsed = new Intl.Locale(locale).maximize();
+    return { language: parsed.language, script: parsed.script };
+  } catch {
+    return { language: locale.split(/[-_]/)[0].toLowerCase() };
+  }
+}
+
+/** English display name for prompts, e.g. "Spanish (Mexico)" */
+export function describeLocale(locale: string): string {
+  try {
+    const names = new Intl.DisplayNames(['en'], { type: 'language' });
+    return names.of(locale) || locale;
+  } catch {
+    return locale;
+  }
+}
+
+export function isRtlLocale(locale: string): boolean {
+  const { language, script } = parseLocale(locale);
+  return RTL_LANGUAGES.includes(language) || (script !== undefined && RTL_SCRIPTS.includes(script));
+}
+
+export function isCjkLocale(locale: string): boolean {
+  return CJK_LANGUAGES.includes(parseLocale(locale).language);
+}
+
+export function getCaptionLayout(locale: string = DEFAULT_LOCALE): CaptionLayout {
+  const { language, script } = parseLocale(locale);
+  const cjkFont = language === 'zh' || language === 'ja' || language === 'ko';
+  const fontFamily = language === 'zh' && script === 'Hant' ? FONT_STACKS.zhHant
+    : cjkFont ? FONT_STACKS[language as 'zh' | 'ja' | 'ko']
+    : script === 'Arab' ? FONT_STACKS.arabic
+    : script === 'Hebr' ? FONT_STACKS.hebrew
+    : FONT_STACKS.latin;
+
+  return {
+    lang: locale,
+    direction: isRtlLocale(locale) ? 'rtl' : 'ltr',
+    cjk: isCjkLocale(locale),
+    cjkFont,
+    fontFamily,
+  };
+}
+
+/**
+ * Caption-sized sentences with their punctuation, using the locale's sentence rules where
+ * the runtime has Intl.Segmenter ("。", "؟" and "¿...?" included).
+ */
+export function splitSentences(text: string, locale: string = DEFAULT_LOCALE): string[] {
+  if (typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), segment => segment.segment.trim()).filter(Boolean);
+  }
+
+  return (text.match(/[^.!?。！？؟]+[.!?。！？؟]*/g) || []).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+/** Words, or characters for languages written without spaces */
+export function spokenUnit(locale: string = DEFAULT_LOCALE): 'words' | 'characters' {
+  return isCjkLocale(locale) ? 'characters' : 'words';
+}
+
+export function spokenUnitsPerSecond(locale: string = DEFAULT_LOCALE): number {
+  return CHARACTERS_PER_SECOND[parseLocale(locale).language] ?? WORDS_PER_SECOND;
+}
+
+export function countSpokenUnits(text: string, locale: string = DEFAULT_LOCALE): number {
+  if (spokenUnit(locale) === 'characters') {
+    return Array.from(text.replace(SPOKEN_PUNCTUATION, '')).length;
+  }
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/** Voice-over length of a script in seconds */
+export function estimateSpokenSeconds(text: string, locale: string = DEFAULT_LOCALE): number {
+  return countSpokenUnits(text, locale) / spokenUnitsPerSecond(locale);
+}
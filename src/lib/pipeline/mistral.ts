@@ -1,71 +1,171 @@
-import Mistral from '@mistralai/mistralai';
-import type { ProductData, VisionAnalysis, MarketingAngle } from '../types';
+import { z } from 'zod';
+import type {
+  BrandProfile,
+  ContentOptions,
+  ProductData,
+  ReviewAnalysis,
+  ReviewThemeKind,
+  ScriptProviderName,
+  VisionAnalysis,
+  MarketingAngle,
+} from '../types';
+import { formatPrice } from '../utils';
+import {
+  LlmResponseError,
+  buildRepairPrompt,
+  echoRejectedResponse,
+  normalizedEnum,
+  numeric,
+  parseLlmJson,
+} from './llmResponse';
+import { applyBrandFixes, buildBrandVoicePrompt, findBrandViolations } from './brandVoice';
+import { CONTENT_PLATFORMS, resolveContentOptions, scriptLengthRange } from './contentOptions';
+import { countSpokenUnits, describeLocale, estimateSpokenSeconds } from './locale';
+import { completeScript, estimateScriptCost, getBilledScriptModel } from './scriptGenerator';
+import type { ChatMessage } from './scriptGenerator';
 
-const mistralClient = new Mistral({
-  apiKey: process.env.MISTRAL_API_KEY || '',
-});
-
-const MODEL = 'mistral-large-latest';
 const MAX_RETRIES = 3;
 const MIN_QUALITY_SCORE = 7;
 const RETRY_DELAY_BASE = 1000;
-const COST_PER_1K_TOKENS = 0.002;
+const MAX_COMPLETION_TOKENS = 2500;
+// Room for the hook, audience and scores of one angle, on top of its script
+const TOKENS_PER_ANGLE = 120;
+const TOKENS_PER_SPOKEN_UNIT = 1.5;
+const COMPLETION_TOKEN_CEILING = 8000;
+// The gate judges the strongest angles; extra ones are alternatives, not a quality bar
+const QUALITY_SAMPLE_SIZE = 3;
+// Largest deduction for a script that runs long or short of the requested duration
+const MAX_DURATION_PENALTY = 2;
+// Review themes and quotes handed to the prompt
+const PROMPT_REVIEW_THEMES = 5;
+const PROMPT_QUOTES_PER_THEME = 2;
+const ESTIMATED_PROMPT_TOKENS = 1000;
+const billedModel = getBilledScriptModel();
+/** Projected price of one generation with the first paid provider in the chain, used by the budget guard */
+export const ESTIMATED_COST_PER_GENERATION = billedModel
+  ? estimateScriptCost(billedModel, ESTIMATED_PROMPT_TOKENS, MAX_COMPLETION_TOKENS)
+  : 0;
 
-let totalCost = 0;
+/**
+ * Shape, duration and tone rules from the content options. With a brand profile, each
+ * angle is also auto-fixed (emoji, disclaimers) and then checked for the rest of the
+ * profile, so violations come back as field-level issues for the repair prompt.
+ */
+function buildAngleResponseSchema(options: ContentOptions, brand: BrandProfile | null) {
+  const length = scriptLengthRange(options);
 
-export function getTotalCost(): number {
-  return totalCost;
-}
+  const angleSchema = z.object({
+    hook: z.string().trim().min(10).max(150),
+    script: z.string().trim().superRefine((script, ctx) => {
+      const count = countSpokenUnits(script, options.locale);
+      if (count < length.hardMin || count > length.hardMax) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${count} ${length.unit} does not fit ${options.durationSeconds.min}-${options.durationSeconds.max}s; write ${length.min}-${length.max} ${length.unit}`,
+        });
+      }
+    }),
+    targetAudience: z.string().trim().min(10),
+    tone: normalizedEnum(options.tones as [string, ...string[]]),
+    qualityScore: numeric(z.number().min(1).max(10)),
+    estimatedEngagement: numeric(z.number().min(0).max(100)),
+  })
+    .transform(angle => {
+      if (!brand) return { ...angle, brandFixes: [] as string[] };
+      const fixed = applyBrandFixes(angle, brand);
+      return { ...fixed.angle, brandFixes: fixed.fixes };
+    })
+    .superRefine((angle, ctx) => {
+      if (!brand) return;
+      for (const violation of findBrandViolations(angle, brand)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [violation.field], message: violation.message });
+      }
+    });
 
-export function resetCostTracking(): void {
-  totalCost = 0;
+  return z.object({
+    angles: z.array(angleSchema).length(options.angleCount),
+  });
 }
 
-interface MistralAngleResponse {
-  angles: Array<{
-    hook: string;
-    script: string;
-    targetAudience: string;
-    tone: string;
-    qualityScore: number;
-    estimatedEngagement: number;
-  }>;
+type AngleResponse = z.infer<ReturnType<typeof buildAngleResponseSchema>>;
+
+const REVIEW_THEME_LABELS: Record<ReviewThemeKind, string> = {
+  benefit: 'Benefit',
+  complaint: 'Complaint',
+  use_case: 'Use case',
+};
+
+/** The strongest review themes with verbatim quotes, so social proof uses real customer words */
+function buildCustomerVoiceSection(analysis: ReviewAnalysis): string {
+  const lines = [`Customer Voice (from ${analysis.reviewCount} reviews):`];
+
+  for (const theme of analysis.themes.slice(0, PROMPT_REVIEW_THEMES)) {
+    lines.push(`- ${REVIEW_THEME_LABELS[theme.kind]}: ${theme.label} (${theme.mentions} review${theme.mentions === 1 ? '' : 's'}) - ${theme.summary}`);
+    for (const quote of theme.quotes.slice(0, PROMPT_QUOTES_PER_THEME)) {
+      lines.push(`  "${quote.text}" - ${quote.author}, ${quote.rating}/5`);
+    }
+  }
+
+  lines.push(
+    '',
+    'For social proof, use these customers\' own words: quote them exactly (translate faithfully if the script is in another language) and never invent testimonials, reviewers or statistics. Answer the top complaint where it fits.'
+  );
+  return lines.join('\n');
 }
 
-function buildPrompt(productData: ProductData, visionAnalysis: VisionAnalysis): string {
+function buildPrompt(
+  productData: ProductData,
+  visionAnalysis: VisionAnalysis,
+  options: ContentOptions,
+  brand: BrandProfile | null,
+  reviews: ReviewAnalysis | null
+): string {
   const dominantColors = visionAnalysis.colorPalette?.dominant?.join(', ') || 'Not specified';
   const visualHooks = visionAnalysis.visualHooks?.hooks?.join(', ') || 'Not specified';
   const tiktokAppeal = visionAnalysis.visualHooks?.tiktokAppeal || 50;
+  const variantLine = productData.selectedVariant
+    ? `\n- Featured Variant: ${productData.selectedVariant.title} (feature this option, not the whole range)`
+    : '';
+  const platforms = options.platforms.map(platform => CONTENT_PLATFORMS[platform]).join(', ');
+  const length = scriptLengthRange(options);
+  const { min, max } = options.durationSeconds;
+  const language = `${describeLocale(options.locale)} (${options.locale})`;
+  const count = options.angleCount;
+  const writingFor = brand ? ` writing for the brand ${brand.name}` : '';
+  const brandSection = brand ? `\n\n${buildBrandVoicePrompt(brand)}` : '';
+  const customerSection = reviews && reviews.themes.length > 0 ? `\n\n${buildCustomerVoiceSection(reviews)}` : '';
   
-  return `You are an expert TikTok marketing strategist. Generate 3 high-quality marketing angles for the following product.
+  return `You are an expert short-form video marketing strategist for ${platforms}${writingFor}. Generate ${count} high-quality marketing angle${count === 1 ? '' : 's'} for the following product.
 
 Product Information:
 - Name: ${productData.name}
 - Description: ${productData.description}
-- Price: $${productData.price}
-- Rating: ${productData.rating || 'N/A'}/5 (${productData.reviewCount || 0} reviews)
+- Price: ${formatPrice(productData.price, productData.currency, options.locale)}${variantLine}
+- Rating: ${productData.rating || 'N/A'}/5 (${productData.reviewCount || 0} reviews)${customerSection}
 
 Visual Analysis:
 - Dominant Colors: ${dominantColors}
 - Visual Hooks: ${visualHooks}
 - TikTok Appeal Score: ${tiktokAppeal}/100
 - Packaging Quality: ${visionAnalysis.packagingQuality?.score || 'N/A'}/100
-- Visual Style: ${visionAnalysis.backgroundRecommendations?.style || 'clean'}
+- Visual Style: ${visionAnalysis.backgroundRecommendations?.style || 'clean'}${brandSection}
 
-Generate EXACTLY 3 distinct marketing angles. Each angle must include:
-1. hook: A catchy 2-second TikTok hook (8-12 words max, attention-grabbing)
-2. script: Complete TikTok script (30-60 seconds when read aloud, 150-300 words)
+Generate EXACTLY ${count} distinct marketing angle${count === 1 ? '' : 's'}. Each angle must include:
+1. hook: A catchy 2-second hook (${length.unit === 'words' ? '8-12 words' : '10-20 characters'} max, attention-grabbing)
+2. script: Complete voice-over script (${min}-${max} seconds when read aloud, ${length.min}-${length.max} ${length.unit})
 3. targetAudience: Specific demographic (age, interests, pain points)
-4. tone: One of: funny, educational, emotional, inspirational, controversial, trending
+4. tone: One of: ${options.tones.join(', ')}
 5. qualityScore: Self-assessment score 1-10 (must be >= ${MIN_QUALITY_SCORE})
 6. estimatedEngagement: Predicted engagement rate percentage (1-100)
 
 Requirements:
-- Each angle must be unique and target different audiences or approaches
-- Scripts must be natural, conversational, and TikTok-native
+- Each angle must be unique and target different audiences or approaches${count > 1 && options.tones.length > 1 ? '\n- Vary the tone across angles' : ''}
+- Scripts must be natural, conversational, and native to ${platforms}
+- Write hook, script and targetAudience in ${language} as a native speaker would say them, not translated from English, with prices and units as written locally
+- Keep the JSON keys and the tone values exactly as listed above, in English
 - Hooks must create immediate curiosity or emotional response
 - Quality scores must reflect realistic assessment of viral potential
-- All 3 angles must score >= ${MIN_QUALITY_SCORE}/10 in quality
+- ${count === 1 ? 'The angle' : `All ${count} angles`} must score >= ${MIN_QUALITY_SCORE}/10 in quality
 
 Respond with valid JSON only:
 {
@@ -82,122 +182,171 @@ Respond with valid JSON only:
 }`;
 }
 
-function validateAngle(angle: any): boolean {
-  if (!angle || typeof angle !== 'object') return false;
-  
-  if (typeof angle.hook !== 'string' || angle.hook.length < 10 || angle.hook.length > 150) {
-    return false;
-  }
-  
-  if (typeof angle.script !== 'string' || angle.script.length < 100 || angle.script.length > 1500) {
-    return false;
-  }
-  
-  if (typeof angle.targetAudience !== 'string' || angle.targetAudience.length < 10) {
-    return false;
-  }
-  
-  const validTones = ['funny', 'educational', 'emotional', 'inspirational', 'controversial', 'trending'];
-  if (!validTones.includes(angle.tone?.toLowerCase())) {
-    return false;
-  }
-  
-  if (typeof angle.qualityScore !== 'number' || angle.qualityScore < 1 || angle.qualityScore > 10) {
-    return false;
-  }
-  
-  if (typeof angle.estimatedEngagement !== 'number' || angle.estimatedEngagement < 0 || angle.estimatedEngagement > 100) {
-    return false;
+
+/**
+ * The model's self-assessed score, less up to MAX_DURATION_PENALTY for a script that
+ * validation let through but that runs outside the requested duration window.
+ */
+function adjustedQualityScore(angle: AngleResponse['angles'][number], options: ContentOptions): number {
+  const length = scriptLengthRange(options);
+  const count = countSpokenUnits(angle.script, options.locale);
+
+  let overshoot = 0;
+  if (count < length.min) {
+    overshoot = (length.min - count) / Math.max(1, length.min - length.hardMin);
+  } else if (count > length.max) {
+    overshoot = (count - length.max) / Math.max(1, length.hardMax - length.max);
   }
-  
-  return true;
+
+  return Math.max(1, angle.qualityScore - Math.min(1, overshoot) * MAX_DURATION_PENALTY);
 }
 
-function validateResponse(response: any): response is MistralAngleResponse {
-  if (!response || typeof response !== 'object') return false;
-  if (!Array.isArray(response.angles)) return false;
-  if (response.angles.length !== 3) return false;
-  
-  return response.angles.every(validateAngle);
+function calculateAverageQuality(scores: number[]): number {
+  const sample = scores.slice().sort((a, b) => b - a).slice(0, QUALITY_SAMPLE_SIZE);
+  return sample.reduce((acc, score) => acc + score, 0) / sample.length;
 }
 
-function calculateAverageQuality(angles: MistralAngleResponse['angles']): number {
-  const sum = angles.reduce((acc, angle) => acc + angle.qualityScore, 0);
-  return sum / angles.length;
+function completionTokenBudget(options: ContentOptions): number {
+  const perAngle = TOKENS_PER_ANGLE + scriptLengthRange(options).hardMax * TOKENS_PER_SPOKEN_UNIT;
+  return Math.min(COMPLETION_TOKEN_CEILING, Math.max(MAX_COMPLETION_TOKENS, Math.ceil(options.angleCount * perAngle)));
 }
 
-function estimateCost(promptTokens: number, completionTokens: number): number {
-  const totalTokens = promptTokens + completionTokens;
-  return (totalTokens / 1000) * COST_PER_1K_TOKENS;
+const STUB_HOOKS = [
+  'Stop scrolling if you need this',
+  'Nobody told me about this one',
+  'Here is why everyone is buying',
+];
+
+/**
+ * The offline stub's answer: angles cut from the product text, sized to the middle of the
+ * duration window, so the same product and options always give the same scripts.
+ */
+function buildStubAngles(productData: ProductData, options: ContentOptions) {
+  const length = scriptLengthRange(options);
+  const target = Math.round((length.min + length.max) / 2);
+  const source = `${productData.name}. ${productData.description}`.split(/\s+/).filter(Boolean);
+
+  return {
+    angles: Array.from({ length: options.angleCount }, (_, index) => {
+      const words: string[] = [];
+      // Capped for product text that is all punctuation, which counts for nothing in CJK
+      while (countSpokenUnits(words.join(' '), options.locale) < target && words.length < length.hardMax) {
+        words.push(source[(index + words.length) % source.length]);
+      }
+
+      return {
+        hook: `${STUB_HOOKS[index % STUB_HOOKS.length]}: ${productData.name}`.slice(0, 150),
+        script: words.join(' '),
+        targetAudience: `Shoppers interested in ${productData.category || productData.name}`,
+        tone: options.tones[index % options.tones.length],
+        qualityScore: 8,
+        estimatedEngagement: 5,
+      };
+    }),
+  };
 }
 
-async function callMistralAPIWithRetry(
+/**
+ * Retries transport failures with backoff. A response that fails the angle schema is
+ * answered with its field-level issues so the model corrects it instead of starting over.
+ * Each attempt goes down the whole provider chain, so a repair may come from a fallback.
+ */
+async function requestAnglesWithRetry(
   productData: ProductData,
   visionAnalysis: VisionAnalysis,
-  attempt: number = 0
-): Promise<{ response: MistralAngleResponse; cost: number }> {
-  const prompt = buildPrompt(productData, visionAnalysis);
-  
+  options: ContentOptions,
+  brand: BrandProfile | null,
+  reviews: ReviewAnalysis | null,
+  attempt: number = 0,
+  messages: ChatMessage[] = [{ role: 'user', content: buildPrompt(productData, visionAnalysis, options, brand, reviews) }]
+): Promise<{ response: AngleResponse; cost: number; provider: ScriptProviderName; model: string }> {
+  let content: string | undefined;
+
   try {
-    const response = await mistralClient.chat.complete({
-      model: MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const result = await completeScript({
+      messages,
       temperature: 0.7,
-      maxTokens: 2500,
-      responseFormat: {
-        type: 'json_object',
-      },
+      maxTokens: completionTokenBudget(options),
+      stub: () => buildStubAngles(productData, options),
     });
-    
-    const content = response.choices?.[0]?.message?.content;
-    if (!content) {
-      throw new Error('Empty response from Mistral API');
-    }
-    
-    let parsed: any;
-    try {
-      parsed = JSON.parse(content);
-    } catch (parseError) {
-      throw new Error(`Failed to parse Mistral response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-    }
-    
-    if (!validateResponse(parsed)) {
-      throw new Error('Invalid response structure from Mistral API');
-    }
-    
-    const promptTokens = prompt.length / 4;
-    const completionTokens = content.length / 4;
-    const cost = estimateCost(promptTokens, completionTokens);
-    
-    return { response: parsed, cost };
+    content = result.content;
+
+    return {
+      response: parseLlmJson(content, buildAngleResponseSchema(options, brand), result.provider),
+      cost: result.cost,
+      provider: result.provider,
+      model: result.model,
+    };
   } catch (error) {
     if (attempt < MAX_RETRIES) {
+      if (error instanceof LlmResponseError && content) {
+        console.warn(`Script attempt ${attempt + 1}: ${error.message}; asking for a repair`);
+        return requestAnglesWithRetry(productData, visionAnalysis, options, brand, reviews, attempt + 1, [
+          messages[0],
+          { role: 'assistant', content: echoRejectedResponse(error) },
+          { role: 'user', content: buildRepairPrompt(error) },
+        ]);
+      }
+
       const delay = RETRY_DELAY_BASE * Math.pow(2, attempt);
-      console.warn(`Mistral API attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+      console.warn(`Script generation attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
       await new Promise(resolve => setTimeout(resolve, delay));
-      return callMistralAPIWithRetry(productData, visionAnalysis, attempt + 1);
+      return requestAnglesWithRetry(productData, visionAnalysis, options, brand, reviews, attempt + 1, messages);
     }
     
     if (error instanceof Error) {
-      throw new Error(`Mistral API call failed: ${error.message}`);
+      throw new Error(`Script generation failed: ${error.message}`);
     }
-    throw new Error('Mistral API call failed: Unknown error');
+    throw new Error('Script generation failed: Unknown error');
   }
 }
 
+/**
+ * A deterministic JSON completion validated against `schema`, for checks run on generated
+ * content such as the compliance judge. An invalid answer gets one repair round. `stub`
+ * is what the offline stub provider answers with.
+ */
+export async function completeLlmJson<T extends z.ZodTypeAny>(
+  prompt: string,
+  schema: T,
+  source: string,
+  { maxTokens = MAX_COMPLETION_TOKENS, stub }: { maxTokens?: number; stub?: () => z.input<T> } = {}
+): Promise<z.output<T>> {
+  let messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+
+  for (let attempt = 0; ; attempt++) {
+    const { content } = await completeScript({ messages, temperature: 0, maxTokens, stub });
+
+    try {
+      return parseLlmJson(content, schema, source);
+    } catch (error) {
+      if (!(error instanceof LlmResponseError) || attempt >= 1) throw error;
+      messages = [
+        messages[0],
+        { role: 'assistant', content: echoRejectedResponse(error) },
+        { role: 'user', content: buildRepairPrompt(error) },
+      ];
+    }
+  }
+}
+
+/**
+ * Generates `options.angleCount` angles (default 3) through the script provider chain
+ * (SCRIPT_PROVIDERS) in the allowed tones, with scripts
+ * sized to the requested duration, in the voice of `brand` when one is given and quoting
+ * the customers in `reviews` when there are themes to draw on. Angles come
+ * back strongest first; angles that still break the brand profile after the repair
+ * attempts are rejected.
+ */
 export async function generateMarketingAngles(
   productData: ProductData,
-  visionAnalysis: VisionAnalysis
+  visionAnalysis: VisionAnalysis,
+  contentOptions: Partial<ContentOptions> = {},
+  brand: BrandProfile | null = null,
+  reviews: ReviewAnalysis | null = null
 ): Promise<MarketingAngle[]> {
-  if (!process.env.MISTRAL_API_KEY) {
-    throw new Error('MISTRAL_API_KEY environment variable is not set');
-  }
-  
+  const options = resolveContentOptions(contentOptions);
+
   if (!productData || !productData.name || !productData.description) {
     throw new Error('Invalid product data: name and description are required');
   }
@@ -210,10 +359,14 @@ export async function generateMarketingAngles(
   
   for (let qualityAttempt = 1; qualityAttempt <= 2; qualityAttempt++) {
     try {
-      const { response, cost } = await callMistralAPIWithRetry(productData, visionAnalysis);
-      totalCost += cost;
+      const { response, cost, provider, model } = await requestAnglesWithRetry(
+        productData, visionAnalysis, options, brand, reviews
+      );
       
-      const averageQuality = calculateAverageQuality(response.angles);
+      const scored = response.angles
+        .map(angle => ({ angle, score: adjustedQualityScore(angle, options) }))
+        .sort((a, b) => b.score - a.score);
+      const averageQuality = calculateAverageQuality(scored.map(entry => entry.score));
       
       if (averageQuality < MIN_QUALITY_SCORE) {
         lastError = new Error(
@@ -229,23 +382,28 @@ export async function generateMarketingAngles(
         }
       }
       
-      const marketingAngles: MarketingAngle[] = response.angles.map((angle, index) => {
-        const confidence = Math.min(100, Math.round((angle.qualityScore / 10) * 100));
+      const marketingAngles: MarketingAngle[] = scored.map(({ angle, score }, index) => {
+        const confidence = Math.min(100, Math.round((score / 10) * 100));
         
         return {
           id: `angle-${Date.now()}-${index}`,
-          hook: angle.hook.trim(),
-          script: angle.script.trim(),
-          targetAudience: angle.targetAudience.trim(),
-          tone: angle.tone.toLowerCase() as MarketingAngle['tone'],
-          qualityScore: Math.round(angle.qualityScore * 10) / 10,
+          hook: angle.hook,
+          script: angle.script,
+          targetAudience: angle.targetAudience,
+          tone: angle.tone,
+          locale: options.locale,
+          qualityScore: Math.round(score * 10) / 10,
           confidence,
           estimatedEngagement: Math.round(angle.estimatedEngagement * 10) / 10,
           createdAt: new Date(),
           metadata: {
-            model: MODEL,
+            provider,
+            model,
             cost,
             averageQualityScore: averageQuality,
+            selfAssessedScore: angle.qualityScore,
+            estimatedDurationSeconds: Math.round(estimateSpokenSeconds(angle.script, options.locale)),
+            ...(brand ? { brandProfileId: brand.id, brandFixes: angle.brandFixes } : {}),
           },
         };
       });
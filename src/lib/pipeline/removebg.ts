@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { PNG } from 'pngjs';
+import { recordCost } from '../ledger';
 
 interface RemoveBackgroundResult {
   transparentUrl: string;
@@ -17,20 +18,10 @@ interface RemoveBgResponse {
 }
 
 const REMOVE_BG_API_URL = 'https://api.remove.bg/v1.0/removebg';
-const COST_PER_IMAGE = 0.20;
+export const COST_PER_IMAGE = 0.20;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 2000;
 
-let totalCost = 0;
-
-export function getTotalCost(): number {
-  return totalCost;
-}
-
-export function resetCostTracking(): void {
-  totalCost = 0;
-}
-
 class BackgroundRemovalError extends Error {
   constructor(message: string, public readonly originalError?: unknown, public readonly isRetryable: boolean = false) {
     super(message);
@@ -201,6 +192,7 @@ export async function removeBackground(imageInput: string): Promise<RemoveBackgr
 
   try {
     const { base64Result, cost } = await callRemoveBgAPI(imageInput, apiKey);
+    recordCost({ provider: 'removebg', unitPrice: cost });
     
     const validation = await validatePngWithAlpha(base64Result);
     
@@ -210,8 +202,6 @@ export async function removeBackground(imageInput: string): Promise<RemoveBackgr
 
     const transparentUrl = `data:image/png;base64,${base64Result}`;
 
-    totalCost += cost;
-
     return {
       transparentUrl,
       originalUrl,
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type { ProductData, ProductReview, ReviewAnalysis, ReviewQuote, ReviewTheme, ReviewThemeKind } from '../types';
+import { normalizedEnum, numeric } from './llmResponse';
+import { completeLlmJson, ESTIMATED_COST_PER_GENERATION } from './mistral';
+import { splitSentences } from './locale';
+
+const THEME_KINDS: ReviewThemeKind[] = ['benefit', 'complaint', 'use_case'];
+// Enough reviews to see the patterns without paying for the long tail
+const MAX_REVIEWS_ANALYZED = 40;
+const MAX_REVIEW_LENGTH = 600;
+const MAX_THEMES = 8;
+const MAX_QUOTES_PER_THEME = 3;
+// Quotes have to fit in a hook or a sentence of the script
+const MIN_QUOTE_WORDS = 3;
+const MAX_QUOTE_WORDS = 25;
+const ANONYMOUS_AUTHOR = 'Verified buyer';
+
+export const ESTIMATED_COST_PER_REVIEW_ANALYSIS = ESTIMATED_COST_PER_GENERATION;
+
+// Local clustering's theme when too few reviews share a keyword
+const GENERAL_THEME_LABELS: Record<ReviewThemeKind, string> = {
+  benefit: 'what customers like',
+  complaint: 'what customers dislike',
+  use_case: 'how customers use it',
+};
+
+const USE_CASE_CUES = /\b(?:i use|i used|using it|use it|for my|when i|every (?:day|morning|night)|before (?:bed|work)|after (?:the gym|work|showering)|on the go|travel(?:l?ing)?)\b/i;
+const STOP_WORDS = new Set([
+  'this', 'that', 'with', 'have', 'they', 'them', 'their', 'there', 'were', 'what', 'when', 'will',
+  'would', 'could', 'should', 'been', 'from', 'just', 'really', 'very', 'much', 'more', 'than', 'then',
+  'also', 'only', 'even', 'into', 'over', 'after', 'before', 'about', 'because', 'still', 'some', 'your',
+  'product', 'item', 'bought', 'buy', 'ordered', 'order', 'love', 'like', 'great', 'good', 'best', 'recommend',
+  'time', 'well', 'made', 'make', 'it\'s', 'i\'m', 'don\'t', 'didn\'t', 'does', 'doesn\'t', 'using',
+]);
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * The quote as the customer wrote it, or null if it isn't in the review. Case, curly quotes,
+ * whitespace and surrounding punctuation are forgiven; changed words are not.
+ */
+function findVerbatim(review: string, quote: string): string | null {
+  const needle = normalizeForMatch(quote).replace(/^["'\s]+|["'.,!?\s]+$/g, '');
+  if (!needle) return null;
+
+  const collapsed = review.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ');
+  const start = collapsed.toLowerCase().indexOf(needle);
+  return start === -1 ? null : collapsed.slice(start, start + needle.length);
+}
+
+function toQuote(review: ProductReview, text: string): ReviewQuote {
+  return { text, author: review.author?.trim() || ANONYMOUS_AUTHOR, rating: review.rating };
+}
+
+function selectReviews(reviews: ProductReview[]): ProductReview[] {
+  return reviews
+    .filter(review => review.text && review.text.trim())
+    .slice(0, MAX_REVIEWS_ANALYZED)
+    .map(review => ({
+      ...review,
+      text: review.text.length > MAX_REVIEW_LENGTH ? review.text.slice(0, MAX_REVIEW_LENGTH) : review.text,
+    }));
+}
+
+function buildReviewPrompt(productData: ProductData, reviews: ProductReview[]): string {
+  const reviewLines = reviews
+    .map((review, index) => `[${index}] (${review.rating}/5) ${review.text.replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+
+  return `You are a customer research analyst preparing material for short-form video ads. Group the reviews of this product into themes.
+
+Product: ${productData.name}
+
+Reviews:
+${reviewLines}
+
+Find up to ${MAX_THEMES} themes, most mentioned first. Each theme has:
+1. kind: "benefit" (what customers like), "complaint" (what they dislike) or "use_case" (how and when they use it)
+2. label: 2-5 word name in the customers' own terms
+3. summary: one sentence
+4. mentions: number of reviews that mention it
+5. quotes: up to ${MAX_QUOTES_PER_THEME} short phrases (${MIN_QUOTE_WORDS}-${MAX_QUOTE_WORDS} words) copied character for character from a single review, with that review's number
+
+Never reword, merge or translate quotes; a phrase that does not appear exactly in its review will be discarded.
+
+Respond with valid JSON only:
+{
+  "themes": [
+    { "kind": "benefit", "label": "string", "summary": "string", "mentions": number, "quotes": [{ "review": number, "text": "string" }] }
+  ]
+}`;
+}
+
+async function analyzeWithMistral(productData: ProductData, reviews: ProductReview[]): Promise<ReviewTheme[]> {
+  const schema = z.object({
+    themes: z.array(z.object({
+      kind: normalizedEnum(THEME_KINDS as [string, ...string[]]),
+      label: z.string().trim().min(1).max(60),
+      summary: z.string().trim().min(1),
+      mentions: numeric(z.number().int().min(1)),
+      quotes: z.array(z.object({
+        review: numeric(z.number().int().min(0).max(reviews.length - 1)),
+        text: z.string(),
+      })).default([]),
+    })).max(MAX_THEMES),
+  });
+
+  const result = await completeLlmJson(buildReviewPrompt(productData, reviews), schema, 'review analysis', {
+    stub: () => ({ themes: [] }),
+  });
+
+  // Quotes that can't be found word for word in their review are dropped, not repaired
+  return result.themes.map(theme => ({
+    kind: theme.kind as ReviewThemeKind,
+    label: theme.label,
+    summary: theme.summary,
+    mentions: Math.min(theme.mentions, reviews.length),
+    quotes: theme.quotes
+      .map(quote => {
+        const review = reviews[quote.review];
+        const text = findVerbatim(review.text, quote.text);
+        return text && countWords(text) >= MIN_QUOTE_WORDS && countWords(text) <= MAX_QUOTE_WORDS
+          ? toQuote(review, text)
+          : null;
+      })
+      .filter((quote): quote is ReviewQuote => quote !== null)
+      .slice(0, MAX_QUOTES_PER_THEME),
+  }));
+}
+
+function keywords(sentence: string): string[] {
+  const words = sentence.toLowerCase().match(/[a-z][a-z']{3,}/g) || [];
+  return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word))));
+}
+
+/**
+ * Keyword clustering without an LLM: review sentences are sorted into benefits (4-5 stars),
+ * complaints (1-2 stars) and use cases (usage cues), then grouped by the words most
+ * reviews share. Coarser than the Mistral analysis, but every quote is still verbatim.
+ */
+export function analyzeReviewsLocally(reviews: ProductReview[]): ReviewAnalysis {
+  const selected = selectReviews(reviews);
+  const sentences = selected.flatMap((review, index) =>
+    splitSentences(review.text)
+      .filter(sentence => countWords(sentence) >= MIN_QUOTE_WORDS && countWords(sentence) <= MAX_QUOTE_WORDS)
+      .map(sentence => {
+        const kind: ReviewThemeKind | null = USE_CASE_CUES.test(sentence) ? 'use_case'
+          : review.rating >= 4 ? 'benefit'
+          : review.rating > 0 && review.rating <= 2 ? 'complaint'
+          : null;
+        return { sentence, kind, index, words: keywords(sentence) };
+      })
+      .filter(entry => entry.kind !== null)
+  );
+
+  const themes: ReviewTheme[] = [];
+  for (const kind of THEME_KINDS) {
+    const ofKind = sentences.filter(entry => entry.kind === kind);
+    const reviewsByWord = new Map<string, Set<number>>();
+    for (const entry of ofKind) {
+      for (const word of entry.words) {
+        if (!reviewsByWord.has(word)) reviewsByWord.set(word, new Set());
+        reviewsByWord.get(word)!.add(entry.index);
+      }
+    }
+
+    const used = new Set<string>();
+    const themeCount = themes.length;
+    const topWords = Array.from(reviewsByWord.entries())
+      .filter(([, indices]) => indices.size >= 2)
+      .sort((a, b) => b[1].size - a[1].size)
+      .slice(0, 3);
+
+    for (const [word, indices] of topWords) {
+      const quotes = ofKind
+        .filter(entry => entry.words.includes(word) && !used.has(entry.sentence))
+        .slice(0, MAX_QUOTES_PER_THEME);
+      if (quotes.length === 0) continue;
+      quotes.forEach(entry => used.add(entry.sentence));
+
+      themes.push({
+        kind,
+        label: word,
+        summary: `${indices.size} reviews mention "${word}"`,
+        mentions: indices.size,
+        quotes: quotes.map(entry => toQuote(selected[entry.index], entry.sentence)),
+      });
+    }
+
+    if (themes.length === themeCount && ofKind.length > 0) {
+      const mentions = new Set(ofKind.map(entry => entry.index)).size;
+      themes.push({
+        kind,
+        label: GENERAL_THEME_LABELS[kind],
+        summary: `From ${mentions} review${mentions === 1 ? '' : 's'}`,
+        mentions,
+        quotes: ofKind.slice(0, MAX_QUOTES_PER_THEME).map(entry => toQuote(selected[entry.index], entry.sentence)),
+      });
+    }
+  }
+
+  return {
+    analyzedAt: new Date().toISOString(),
+    reviewCount: selected.length,
+    themes: themes.sort((a, b) => b.mentions - a.mentions).slice(0, MAX_THEMES),
+    source: 'local',
+  };
+}
+
+/** Themes and verbatim quotes from the scraped reviews, via Mistral unless `useLlm` is false */
+export async function analyzeReviews(
+  productData: ProductData,
+  { useLlm = true }: { useLlm?: boolean } = {}
+): Promise<ReviewAnalysis> {
+  const selected = selectReviews(productData.reviews || []);
+  if (!useLlm || selected.length === 0) {
+    return analyzeReviewsLocally(selected);
+  }
+
+  const themes = await analyzeWithMistral(productData, selected);
+  return {
+    analyzedAt: new Date().toISOString(),
+    reviewCount: selected.length,
+    themes: themes.sort((a, b) => b.mentions - a.mentions),
+    source: 'mistral',
+  };
+}
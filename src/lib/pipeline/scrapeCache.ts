@@ -0,0 +1,103 @@
+import { JsonCollection } from '../storage/jsonCollection';
+import { getDataDir } from '../storage/fsUtils';
+import { SITE_ADAPTERS } from './adapters';
+import type { ProductData } from '../types';
+
+export interface ScrapeCacheEntry {
+  /** Canonical product URL */
+  id: string;
+  productData: ProductData;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+export type ScrapeCacheStatus = 'hit' | 'miss' | 'refresh' | 'disabled';
+
+const DEFAULT_TTL_HOURS = 24;
+const MAX_ENTRIES = 200;
+
+// Click and campaign tracking that never changes which product a page shows
+const TRACKING_PARAMS = [
+  'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', 'srsltid', 'ref', 'ref_', 'referrer', 'spm',
+  '_pos', '_sid', '_ss', '_psq', '_v', 'click_key', 'click_sum', 'organic_search_click',
+];
+const TRACKING_PREFIXES = ['utm_', 'pf_rd_', 'pd_rd_', 'hsa_', 'trk_'];
+
+type ScrapeCacheGlobal = typeof globalThis & {
+  __ugcScrapeCache?: JsonCollection<ScrapeCacheEntry>;
+};
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.includes(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+/**
+ * Cache key for a product URL: lower-cased host without `www.`, no fragment, tracking
+ * parameters or trailing slash, remaining parameters sorted, and the site adapter's own
+ * canonical form where one applies (an Amazon `/dp/<ASIN>`, an Etsy listing id, ...).
+ */
+export function canonicalizeProductUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+  const adapter = SITE_ADAPTERS.find(candidate => candidate.matchesUrl(parsed));
+  const adapted = new URL(adapter?.canonicalUrl ? adapter.canonicalUrl(parsed) : parsed.href);
+
+  const params = Array.from(adapted.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  adapted.search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  if (adapted.pathname.length > 1) {
+    adapted.pathname = adapted.pathname.replace(/\/+$/, '');
+  }
+
+  return adapted.href;
+}
+
+export function getScrapeCacheTtlMs(): number {
+  const raw = process.env.SCRAPE_CACHE_TTL_HOURS;
+  const hours = raw === undefined || raw === '' ? DEFAULT_TTL_HOURS : Number(raw);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+function getScrapeCache(): JsonCollection<ScrapeCacheEntry> {
+  const g = globalThis as ScrapeCacheGlobal;
+  if (!g.__ugcScrapeCache) {
+    g.__ugcScrapeCache = new JsonCollection(
+      process.env.SCRAPE_CACHE_FILE || getDataDir('cache', 'scrapes.json'),
+      MAX_ENTRIES
+    );
+  }
+  return g.__ugcScrapeCache;
+}
+
+/** The cached scrape for a canonical URL, or null when there is none or it has expired. */
+export async function getCachedScrape(key: string): Promise<ScrapeCacheEntry | null> {
+  const cache = getScrapeCache();
+  const entry = await cache.get(key);
+  if (!entry) return null;
+
+  if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+    await cache.remove(key);
+    return null;
+  }
+  return entry;
+}
+
+export async function cacheScrape(key: string, productData: ProductData, ttlMs: number): Promise<ScrapeCacheEntry> {
+  const now = Date.now();
+  const cache = getScrapeCache();
+
+  // Re-inserting moves the entry to the end, so the size cap evicts the oldest scrapes first
+  await cache.remove(key);
+  return cache.upsert({
+    id: key,
+    productData,
+    cachedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+  });
+}
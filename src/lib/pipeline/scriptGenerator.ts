@@ -0,0 +1,372 @@
+import MistralClient from '@mistralai/mistralai';
+import type { ResponseFormats } from '@mistralai/mistralai';
+import OpenAI from 'openai';
+import { recordCost } from '../ledger';
+import type { CostProvider, ScriptProviderName } from '../types';
+
+export type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export interface ScriptRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** The stub provider's answer, serialized as JSON; requests without one fail on the stub */
+  stub?: () => unknown;
+}
+
+export interface ScriptCompletion {
+  content: string;
+  model: string;
+  /** Null when the endpoint does not report usage */
+  usage: { prompt: number; completion: number } | null;
+}
+
+export interface ScriptGenerator {
+  name: ScriptProviderName;
+  model: string;
+  /** Paid providers report every answered request to the cost ledger */
+  billable: boolean;
+  isConfigured(): boolean;
+  complete(request: ScriptRequest): Promise<ScriptCompletion>;
+}
+
+export interface ScriptResult extends ScriptCompletion {
+  provider: ScriptProviderName;
+  cost: number;
+}
+
+const REQUEST_TIMEOUT = 90000;
+// A provider that reported a spent quota or rate limit is skipped for this long
+const QUOTA_COOLDOWN = 60000;
+const DEFAULT_CHAIN: ScriptProviderName[] = ['mistral', 'openai', 'local'];
+const DEFAULT_MODELS: Record<ScriptProviderName, string> = {
+  mistral: 'mistral-large-latest',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+  stub: 'stub',
+};
+
+/** USD per 1K tokens; unknown models are priced like gpt-4o so budgets stay conservative */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'mistral-large-latest': { input: 0.002, output: 0.006 },
+  'mistral-medium-latest': { input: 0.0004, output: 0.002 },
+  'mistral-small-latest': { input: 0.0002, output: 0.0006 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4.1': { input: 0.002, output: 0.008 },
+  'gpt-4.1-mini': { input: 0.0004, output: 0.0016 },
+};
+const FALLBACK_PRICE = MODEL_PRICES['gpt-4o'];
+
+export const SCRIPT_PROVIDERS: ScriptProviderName[] = ['mistral', 'openai', 'local', 'stub'];
+
+class ScriptProviderError extends Error {
+  constructor(message: string, public readonly quotaExceeded: boolean = false) {
+    super(message);
+    this.name = 'ScriptProviderError';
+  }
+}
+
+type ScriptGlobal = typeof globalThis & {
+  __ugcScriptQuotaCooldowns?: Map<ScriptProviderName, number>;
+};
+
+function getQuotaCooldowns(): Map<ScriptProviderName, number> {
+  const g = globalThis as ScriptGlobal;
+  if (!g.__ugcScriptQuotaCooldowns) {
+    g.__ugcScriptQuotaCooldowns = new Map();
+  }
+  return g.__ugcScriptQuotaCooldowns;
+}
+
+/**
+ * Providers to try in order, from the comma-separated SCRIPT_PROVIDERS (default
+ * "mistral,openai,local"). The stub is only used when listed explicitly.
+ */
+export function getScriptProviderNames(): ScriptProviderName[] {
+  const configured = (process.env.SCRIPT_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is ScriptProviderName => SCRIPT_PROVIDERS.includes(name as ScriptProviderName));
+
+  return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_CHAIN;
+}
+
+function getScriptModel(name: ScriptProviderName): string {
+  switch (name) {
+    case 'mistral':
+      return process.env.SCRIPT_MISTRAL_MODEL || DEFAULT_MODELS.mistral;
+    case 'openai':
+      return process.env.SCRIPT_OPENAI_MODEL || DEFAULT_MODELS.openai;
+    case 'local':
+      return process.env.SCRIPT_LOCAL_MODEL || DEFAULT_MODELS.local;
+    default:
+      return DEFAULT_MODELS[name];
+  }
+}
+
+export function estimateScriptCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = MODEL_PRICES[model] || FALLBACK_PRICE;
+  return (promptTokens / 1000) * price.input + (completionTokens / 1000) * price.output;
+}
+
+/** Model of the first paid provider in the chain, or null when every provider is free */
+export function getBilledScriptModel(): string | null {
+  const billed = getScriptProviderNames().find(name => name === 'mistral' || name === 'openai');
+  return billed ? getScriptModel(billed) : null;
+}
+
+/**
+ * The paid provider the chain would try first right now (configured and not cooling down),
+ * which budget checks charge script steps to. Null when only free providers are left.
+ */
+export function getBilledScriptProvider(): 'mistral' | 'openai' | null {
+  const billed = getScriptGeneratorChain().find(generator => generator.billable);
+  // Only Mistral and OpenAI are billable
+  return billed ? billed.name as 'mistral' | 'openai' : null;
+}
+
+function statusOf(error: unknown): number | undefined {
+  const raw = error as { status?: unknown; statusCode?: unknown } | null;
+  const status = raw?.status ?? raw?.statusCode;
+  if (typeof status === 'number') return status;
+  // The Mistral SDK only reports it in the message: "HTTP error! status: 401 ..."
+  const match = error instanceof Error ? error.message.match(/status: (\d{3})/) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function toProviderError(provider: string, error: unknown): ScriptProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+  if (status === 429 || status === 402 || /insufficient_quota|quota/i.test(message)) {
+    return new ScriptProviderError(`${provider} quota or rate limit exceeded: ${message}`, true);
+  }
+  if (status === 401) {
+    return new ScriptProviderError(`${provider} authentication failed. Check your API key.`);
+  }
+  return new ScriptProviderError(status ? `${provider} API error (${status}): ${message}` : message);
+}
+
+async function withTimeout<T>(promise: Promise<T>, provider: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ScriptProviderError(`${provider} request timed out`)), REQUEST_TIMEOUT);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Created on first use so a missing key only matters once Mistral is actually tried
+let mistralClient: MistralClient | null = null;
+
+function getMistralClient(): MistralClient {
+  if (!mistralClient) {
+    mistralClient = new MistralClient(process.env.MISTRAL_API_KEY || '');
+  }
+  return mistralClient;
+}
+
+function createMistralGenerator(): ScriptGenerator {
+  const model = getScriptModel('mistral');
+
+  return {
+    name: 'mistral',
+    model,
+    billable: true,
+    isConfigured: () => Boolean(process.env.MISTRAL_API_KEY),
+    complete: async request => {
+      try {
+        const response = await withTimeout(getMistralClient().chat({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          responseFormat: {
+            type: 'json_object' as ResponseFormats,
+          },
+        }), 'Mistral');
+
+        return {
+          content: response.choices?.[0]?.message?.content || '',
+          model: response.model || model,
+          usage: response.usage
+            ? { prompt: response.usage.prompt_tokens, completion: response.usage.completion_tokens }
+            : null,
+        };
+      } catch (error) {
+        throw error instanceof ScriptProviderError ? error : toProviderError('Mistral', error);
+      }
+    },
+  };
+}
+
+// One client per endpoint, created on first use: the SDK throws without an API key
+const openaiClients = new Map<string, OpenAI>();
+
+function getOpenAIClient(baseUrl: string | undefined): OpenAI {
+  const key = baseUrl || 'default';
+  let client = openaiClients.get(key);
+  if (!client) {
+    client = new OpenAI({
+      // Self-hosted servers usually ignore the key, but the SDK requires one
+      apiKey: baseUrl ? process.env.SCRIPT_LOCAL_API_KEY || 'unused' : process.env.OPENAI_API_KEY,
+      baseURL: baseUrl,
+      timeout: REQUEST_TIMEOUT,
+      maxRetries: 0,
+    });
+    openaiClients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Chat completions in JSON mode. "local" talks to the OpenAI-compatible server at
+ * SCRIPT_LOCAL_BASE_URL (vLLM, Ollama, LM Studio, ...), which is treated as self-hosted and free.
+ */
+function createOpenAIGenerator(name: 'openai' | 'local'): ScriptGenerator {
+  const model = getScriptModel(name);
+  const baseUrl = name === 'local' ? process.env.SCRIPT_LOCAL_BASE_URL : undefined;
+  const label = name === 'local' ? 'Local LLM' : 'OpenAI';
+
+  return {
+    name,
+    model,
+    billable: name === 'openai',
+    isConfigured: () => Boolean(name === 'local' ? baseUrl : process.env.OPENAI_API_KEY),
+    complete: async request => {
+      try {
+        const completion = await withTimeout(getOpenAIClient(baseUrl).chat.completions.create({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: { type: 'json_object' },
+        }), label);
+
+        return {
+          content: completion.choices[0]?.message?.content || '',
+          model: completion.model || model,
+          usage: completion.usage
+            ? { prompt: completion.usage.prompt_tokens, completion: completion.usage.completion_tokens }
+            : null,
+        };
+      } catch (error) {
+        throw error instanceof ScriptProviderError ? error : toProviderError(label, error);
+      }
+    },
+  };
+}
+
+/**
+ * Offline answers for tests and development: each request brings its own canned JSON,
+ * built from its inputs, so the same request always gets the same answer.
+ */
+function createStubGenerator(): ScriptGenerator {
+  return {
+    name: 'stub',
+    model: DEFAULT_MODELS.stub,
+    billable: false,
+    isConfigured: () => true,
+    complete: async request => {
+      if (!request.stub) {
+        throw new ScriptProviderError('The stub provider has no canned answer for this request');
+      }
+      return {
+        content: JSON.stringify(request.stub()),
+        model: DEFAULT_MODELS.stub,
+        usage: { prompt: 0, completion: 0 },
+      };
+    },
+  };
+}
+
+export function createScriptGenerator(name: ScriptProviderName): ScriptGenerator {
+  switch (name) {
+    case 'mistral':
+      return createMistralGenerator();
+    case 'openai':
+    case 'local':
+      return createOpenAIGenerator(name);
+    case 'stub':
+      return createStubGenerator();
+    default:
+      throw new Error(`Unknown script provider: ${name}`);
+  }
+}
+
+/**
+ * Configured providers in SCRIPT_PROVIDERS order. Providers cooling down after a quota
+ * error go to the back rather than being dropped, so they are still tried as a last resort.
+ */
+export function getScriptGeneratorChain(): ScriptGenerator[] {
+  const cooldowns = getQuotaCooldowns();
+  const now = Date.now();
+  const chain = getScriptProviderNames()
+    .map(createScriptGenerator)
+    .filter(generator => generator.isConfigured());
+
+  const cooling = (generator: ScriptGenerator) => (cooldowns.get(generator.name) ?? 0) > now;
+  return [...chain.filter(generator => !cooling(generator)), ...chain.filter(cooling)];
+}
+
+// Billed as soon as the provider answers, even if the content fails validation
+function recordScriptCost(generator: ScriptGenerator, completion: ScriptCompletion, messages: ChatMessage[]): number {
+  if (!generator.billable) return 0;
+
+  let tokens = completion.usage;
+  if (!tokens) {
+    console.warn(`${generator.name} reported no token usage for ${completion.model}; recording an estimate`);
+    const promptLength = messages.reduce((sum, message) => sum + message.content.length, 0);
+    tokens = { prompt: Math.ceil(promptLength / 4), completion: Math.ceil(completion.content.length / 4) };
+  }
+
+  // Priced by the configured model: providers answer with dated snapshot names
+  const cost = estimateScriptCost(generator.model, tokens.prompt, tokens.completion);
+  recordCost({
+    // Only Mistral and OpenAI are billable, and both are ledger providers
+    provider: generator.name as CostProvider,
+    unitPrice: cost,
+    tokens,
+  });
+  return cost;
+}
+
+/**
+ * Sends the request down the provider chain, falling through to the next provider on
+ * any failure, a spent quota or an empty answer. Throws with every provider's error
+ * when none of them answers.
+ */
+export async function completeScript(request: ScriptRequest): Promise<ScriptResult> {
+  const chain = getScriptGeneratorChain();
+  if (chain.length === 0) {
+    throw new Error('No script provider configured: set MISTRAL_API_KEY, OPENAI_API_KEY or SCRIPT_LOCAL_BASE_URL');
+  }
+
+  const failures: string[] = [];
+  for (let index = 0; index < chain.length; index++) {
+    const generator = chain[index];
+    try {
+      const completion = await generator.complete(request);
+      const cost = recordScriptCost(generator, completion, request.messages);
+      if (!completion.content) {
+        throw new ScriptProviderError('empty response');
+      }
+      getQuotaCooldowns().delete(generator.name);
+      return { ...completion, provider: generator.name, cost };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ScriptProviderError && error.quotaExceeded) {
+        getQuotaCooldowns().set(generator.name, Date.now() + QUOTA_COOLDOWN);
+      }
+      failures.push(`${generator.name}: ${message}`);
+      if (index < chain.length - 1) {
+        console.warn(`Script provider ${generator.name} failed (${message}), falling back to ${chain[index + 1].name}`);
+      }
+    }
+  }
+
+  throw new Error(`All script providers failed (${failures.join('; ')})`);
+}
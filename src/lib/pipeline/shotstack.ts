@@ -1,14 +1,21 @@
 import axios, { AxiosInstance } from 'axios';
+import { recordCost } from '../ledger';
+import { getCaptionLayout, splitSentences } from './locale';
+import type { CaptionLayout } from './locale';
 
-interface AssembleVideoParams {
+export interface AssembleVideoParams {
   videoUrl: string;
   productImageUrl: string;
   transparentProductUrl: string;
   script: string;
   hook: string;
+  /** Price badge shown after the hook, e.g. "Red / M · $25.00" */
+  priceLabel?: string;
+  /** Language of the hook and script; sets caption direction, font and line breaking */
+  locale?: string;
 }
 
-interface AssembleVideoResult {
+export interface AssembleVideoResult {
   url: string;
   layers: string[];
   metadata: {
@@ -20,7 +27,7 @@ interface AssembleVideoResult {
   };
 }
 
-interface ShotstackClip {
+export interface ShotstackClip {
   asset: {
     type: string;
     src: string;
@@ -39,11 +46,11 @@ interface ShotstackClip {
   };
 }
 
-interface ShotstackTrack {
+export interface ShotstackTrack {
   clips: ShotstackClip[];
 }
 
-interface ShotstackTimeline {
+export interface ShotstackTimeline {
   tracks: ShotstackTrack[];
 }
 
@@ -85,17 +92,7 @@ const MAX_RETRIES = 3;
 const POLL_INTERVAL = 3000;
 const MAX_POLL_TIME = 300000;
 const RETRY_DELAY_BASE = 2000;
-const COST_PER_RENDER = 0.05;
-
-let totalCost = 0;
-
-export function getTotalCost(): number {
-  return totalCost;
-}
-
-export function resetCostTracking(): void {
-  totalCost = 0;
-}
+export const COST_PER_RENDER = 0.05;
 
 class ShotstackClient {
   private client: AxiosInstance;
@@ -223,8 +220,11 @@ export function createTimeline(params: {
   script: string;
   hook: string;
   videoDuration: number;
+  priceLabel?: string;
+  locale?: string;
 }): ShotstackTimeline {
-  const { videoUrl, transparentProductUrl, hook, script, videoDuration } = params;
+  const { videoUrl, transparentProductUrl, hook, script, videoDuration, priceLabel } = params;
+  const layout = getCaptionLayout(params.locale);
 
   const tracks: ShotstackTrack[] = [];
 
@@ -269,7 +269,7 @@ export function createTimeline(params: {
         {
           asset: {
             type: 'html',
-            html: `<div style="font-family: Arial, sans-serif; font-size: 48px; font-weight: bold; color: white; text-shadow: 2px 2px 4px rgba(0,0,0,0.8); padding: 20px; text-align: center;">${escapeHtml(hook)}</div>`,
+            html: textBlock(hook, 'font-size: 48px; font-weight: bold; color: white; text-shadow: 2px 2px 4px rgba(0,0,0,0.8); padding: 20px; text-align: center;', layout),
             src: '',
           },
           start: 0,
@@ -283,14 +283,35 @@ export function createTimeline(params: {
     });
   }
 
+  if (priceLabel && priceLabel.trim() && videoDuration > 3) {
+    tracks.push({
+      clips: [
+        {
+          asset: {
+            type: 'html',
+            html: textBlock(priceLabel, 'font-size: 40px; font-weight: bold; color: white; background: rgba(0,0,0,0.7); padding: 12px 24px; border-radius: 8px;', layout),
+            src: '',
+          },
+          start: 3,
+          length: videoDuration - 3,
+          position: 'topRight',
+          offset: {
+            x: -0.05,
+            y: -0.05,
+          },
+        },
+      ],
+    });
+  }
+
   if (script && script.trim()) {
-    const sentences = script.split(/[.!?]+/).filter(s => s.trim());
+    const sentences = splitSentences(script, layout.lang);
     const sentenceDuration = Math.max(2, videoDuration / sentences.length);
 
     const captionClips: ShotstackClip[] = sentences.map((sentence, index) => ({
       asset: {
         type: 'html',
-        html: `<div style="font-family: Arial, sans-serif; font-size: 36px; color: white; background: rgba(0,0,0,0.7); padding: 15px 30px; border-radius: 8px; text-align: center;">${escapeHtml(sentence.trim())}</div>`,
+        html: textBlock(sentence, 'font-size: 36px; color: white; background: rgba(0,0,0,0.7); padding: 15px 30px; border-radius: 8px; text-align: center;', layout),
         src: '',
       },
       start: index * sentenceDuration,
@@ -309,6 +330,17 @@ export function createTimeline(params: {
   return { tracks };
 }
 
+/**
+ * Text overlay in the caption language: `dir` lays Arabic and Hebrew out right to left,
+ * and Chinese and Japanese break between characters without orphaning punctuation.
+ */
+function textBlock(text: string, style: string, layout: CaptionLayout): string {
+  const lineBreaking = layout.cjk
+    ? 'line-break: strict; word-break: normal; overflow-wrap: anywhere;'
+    : 'word-break: keep-all; overflow-wrap: break-word;';
+  return `<div lang="${escapeHtml(layout.lang)}" dir="${layout.direction}" style="font-family: ${layout.fontFamily}; ${style} direction: ${layout.direction}; unicode-bidi: plaintext; ${lineBreaking}">${escapeHtml(text.trim())}</div>`;
+}
+
 function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
@@ -320,7 +352,7 @@ function escapeHtml(text: string): string {
   return text.replace(/[&<>"']/g, m => map[m]);
 }
 
-async function estimateVideoDuration(videoUrl: string): Promise<number> {
+export async function estimateVideoDuration(videoUrl: string): Promise<number> {
   try {
     const headResponse = await axios.head(videoUrl, { 
       timeout: 5000,
@@ -339,7 +371,7 @@ async function estimateVideoDuration(videoUrl: string): Promise<number> {
   return 15;
 }
 
-function calculateConfidence(params: {
+export function calculateConfidence(params: {
   hasVideo: boolean;
   hasProduct: boolean;
   hasHook: boolean;
@@ -385,6 +417,8 @@ export async function assembleVideo(params: AssembleVideoParams): Promise<Assemb
     script: params.script,
     hook: params.hook,
     videoDuration,
+    priceLabel: params.priceLabel,
+    locale: params.locale,
   });
 
   const renderRequest: ShotstackRenderRequest = {
@@ -400,12 +434,13 @@ export async function assembleVideo(params: AssembleVideoParams): Promise<Assemb
   const renderId = await client.render(renderRequest);
   const result = await client.pollRenderStatus(renderId);
 
-  totalCost += COST_PER_RENDER;
+  recordCost({ provider: 'shotstack', unitPrice: COST_PER_RENDER });
 
   const layers = [
     'base_video',
     'product_overlay',
     params.hook ? 'hook_text' : '',
+    params.priceLabel ? 'price_badge' : '',
     params.script ? 'captions' : '',
   ].filter(Boolean);
 
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import { ensureDir } from '../storage/fsUtils';
+import {
+  LocalRenderError,
+  OUTPUT_FPS,
+  OUTPUT_HEIGHT,
+  OUTPUT_WIDTH,
+  getRenderPath,
+  getRenderUrl,
+  getRendersDir,
+  probeDuration,
+  resolveAsset,
+  runFfmpeg,
+} from './ffmpeg';
+import { estimateSpokenSeconds } from './locale';
+import type { MarketingAngle, VideoGenResult } from '../types';
+
+const MIN_DURATION = 8;
+const MAX_DURATION = 60;
+const MAX_SLIDES = 6;
+const MIN_SLIDE_DURATION = 2;
+const FADE_DURATION = 0.4;
+const ZOOM_RANGE = 0.15;
+// zoompan rounds its crop window to whole pixels, so work on a 2x canvas to avoid jitter
+const CANVAS_SCALE = 2;
+const CUTOUT_WIDTH_RATIO = 0.8;
+
+type Motion = 'zoom-in' | 'zoom-out' | 'pan-right' | 'pan-left';
+
+const MOTIONS: Motion[] = ['zoom-in', 'pan-right', 'zoom-out', 'pan-left'];
+
+/**
+ * Voiceover-length estimate for a script, so the slideshow runs as long as the
+ * captions the assembly step will lay over it.
+ */
+export function estimateScriptDuration(script: string, locale?: string): number {
+  return Math.min(MAX_DURATION, Math.max(MIN_DURATION, Math.ceil(estimateSpokenSeconds(script, locale))));
+}
+
+function zoompanFilter(motion: Motion, frames: number): string {
+  const progress = `on/${Math.max(1, frames - 1)}`;
+  const centerX = '(iw-iw/zoom)/2';
+  const centerY = '(ih-ih/zoom)/2';
+
+  const { z, x, y } = {
+    'zoom-in': { z: `1+${ZOOM_RANGE}*${progress}`, x: centerX, y: centerY },
+    'zoom-out': { z: `${1 + ZOOM_RANGE}-${ZOOM_RANGE}*${progress}`, x: centerX, y: centerY },
+    'pan-right': { z: `${1 + ZOOM_RANGE}`, x: `(iw-iw/zoom)*${progress}`, y: centerY },
+    'pan-left': { z: `${1 + ZOOM_RANGE}`, x: `(iw-iw/zoom)*(1-${progress})`, y: centerY },
+  }[motion];
+
+  return `zoompan=z='${z}':x='${x}':y='${y}':d=${frames}:s=${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}:fps=${OUTPUT_FPS}`;
+}
+
+function slideFilters(
+  inputIndex: number,
+  motion: Motion,
+  slideDuration: number,
+  isCutout: boolean
+): string[] {
+  const canvasWidth = OUTPUT_WIDTH * CANVAS_SCALE;
+  const canvasHeight = OUTPUT_HEIGHT * CANVAS_SCALE;
+  const frames = Math.round(slideDuration * OUTPUT_FPS);
+  const source = `src${inputIndex}`;
+  const effects = [
+    zoompanFilter(motion, frames),
+    'setsar=1',
+    `fade=t=in:st=0:d=${FADE_DURATION}`,
+    `fade=t=out:st=${(slideDuration - FADE_DURATION).toFixed(2)}:d=${FADE_DURATION}`,
+  ].join(',');
+
+  if (!isCutout) {
+    return [
+      `[${inputIndex}:v]scale=${canvasWidth}:${canvasHeight}:force_original_aspect_ratio=increase,` +
+      `crop=${canvasWidth}:${canvasHeight},format=yuv420p[${source}]`,
+      `[${source}]${effects}[slide${inputIndex}]`,
+    ];
+  }
+
+  // The remove.bg cutout is transparent, so it gets a clean studio backdrop as an end card
+  const cutoutWidth = Math.round(canvasWidth * CUTOUT_WIDTH_RATIO);
+  return [
+    `color=c=white:s=${canvasWidth}x${canvasHeight}[bg${inputIndex}]`,
+    `[${inputIndex}:v]scale=${cutoutWidth}:-1,format=rgba[cut${inputIndex}]`,
+    `[bg${inputIndex}][cut${inputIndex}]overlay=x=(W-w)/2:y=(H-h)/2,trim=end_frame=1,format=yuv420p[${source}]`,
+    `[${source}]${effects}[slide${inputIndex}]`,
+  ];
+}
+
+/**
+ * Builds a base video without a generation provider: a Ken Burns slideshow of the
+ * scraped product images, closing on the transparent cutout, timed to the script.
+ * Renders to the same local store as the ffmpeg assembly renderer.
+ */
+export async function generateSlideshow(
+  angle: MarketingAngle,
+  productImages: string[],
+  transparentImageUrl?: string
+): Promise<VideoGenResult> {
+  const sources = Array.from(new Set(productImages.filter(Boolean)));
+  if (transparentImageUrl && sources.length >= MAX_SLIDES) {
+    sources.length = MAX_SLIDES - 1;
+  } else if (sources.length > MAX_SLIDES) {
+    sources.length = MAX_SLIDES;
+  }
+
+  if (sources.length === 0 && !transparentImageUrl) {
+    throw new LocalRenderError('At least one product image is required');
+  }
+
+  const renderId = randomUUID();
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ugc-slideshow-'));
+  const outputPath = getRenderPath(renderId)!;
+
+  try {
+    await ensureDir(getRendersDir());
+
+    const slides: { filePath: string; isCutout: boolean }[] = [];
+    for (let i = 0; i < sources.length; i++) {
+      try {
+        slides.push({ filePath: await resolveAsset(sources[i], workDir, `image-${i}`), isCutout: false });
+      } catch (error) {
+        console.warn(`Skipping slideshow image ${sources[i]}: ${(error as Error).message}`);
+      }
+    }
+    if (transparentImageUrl) {
+      try {
+        slides.push({ filePath: await resolveAsset(transparentImageUrl, workDir, 'cutout'), isCutout: true });
+      } catch (error) {
+        console.warn(`Skipping product cutout: ${(error as Error).message}`);
+      }
+    }
+
+    if (slides.length === 0) {
+      throw new LocalRenderError('None of the product images could be downloaded');
+    }
+
+    const targetDuration = estimateScriptDuration(angle.script || angle.hook || '', angle.locale);
+    const slideDuration = Math.max(MIN_SLIDE_DURATION, targetDuration / slides.length);
+    const command = ffmpeg();
+    const filters: string[] = [];
+
+    slides.forEach((slide, index) => {
+      command.input(slide.filePath);
+      filters.push(...slideFilters(index, MOTIONS[index % MOTIONS.length], slideDuration, slide.isCutout));
+    });
+
+    filters.push(
+      `${slides.map((_, index) => `[slide${index}]`).join('')}concat=n=${slides.length}:v=1:a=0,format=yuv420p[out]`
+    );
+
+    command
+      .complexFilter(filters, 'out')
+      .outputOptions([
+        '-c:v libx264',
+        '-preset veryfast',
+        '-crf 23',
+        '-pix_fmt yuv420p',
+        '-movflags +faststart',
+      ])
+      .output(outputPath);
+
+    await runFfmpeg(command);
+
+    const thumbnailUrl = [...sources, transparentImageUrl].find(
+      (src): src is string => Boolean(src) && /^https?:\/\//i.test(src!)
+    );
+
+    return {
+      url: getRenderUrl(renderId),
+      thumbnailUrl: thumbnailUrl || getRenderUrl(renderId),
+      duration: (await probeDuration(outputPath)) ?? slideDuration * slides.length,
+      resolution: `${OUTPUT_WIDTH}x${OUTPUT_HEIGHT}`,
+      format: 'mp4',
+    };
+  } catch (error) {
+    await fs.rm(outputPath, { force: true }).catch(() => undefined);
+    throw error;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
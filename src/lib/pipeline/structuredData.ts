@@ -0,0 +1,387 @@
+import * as cheerio from 'cheerio';
+import type { ProductFieldSource, ProductVariant } from '../types';
+
+export interface ScrapedReview {
+  rating: number;
+  text: string;
+  author: string;
+  date: string;
+}
+
+export interface StructuredFields {
+  name: string;
+  price: number;
+  currency: string;
+  description: string;
+  images: string[];
+  brand: string;
+  rating: number;
+  reviewCount: number;
+  reviews: ScrapedReview[];
+}
+
+export type StructuredField = keyof StructuredFields;
+
+export interface SourceFields {
+  source: ProductFieldSource;
+  fields: Partial<StructuredFields>;
+}
+
+export interface MergedFields {
+  fields: Partial<StructuredFields>;
+  fieldSources: Partial<Record<StructuredField, ProductFieldSource>>;
+}
+
+const MAX_IMAGES = 10;
+const MAX_REVIEWS = 10;
+const MIN_DESCRIPTION_LENGTH = 20;
+
+// How far each source is trusted by default. Platform APIs and schema.org data are
+// written for machines, while selectors match whatever carries a familiar class name.
+const SOURCE_CONFIDENCE: Record<ProductFieldSource, number> = {
+  platform: 0.95,
+  'json-ld': 0.9,
+  microdata: 0.8,
+  opengraph: 0.7,
+  selector: 0.5,
+};
+
+// og:title usually carries the store name and og:description is often marketing copy
+const FIELD_CONFIDENCE: Partial<Record<StructuredField, Partial<Record<ProductFieldSource, number>>>> = {
+  name: { opengraph: 0.55 },
+  description: { opengraph: 0.6 },
+};
+
+function confidenceFor(field: StructuredField, source: ProductFieldSource): number {
+  return FIELD_CONFIDENCE[field]?.[source] ?? SOURCE_CONFIDENCE[source];
+}
+
+function hasValue(field: StructuredField, value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value > 0;
+  if (typeof value === 'string') {
+    return field === 'description' ? value.trim().length >= MIN_DESCRIPTION_LENGTH : value.trim() !== '';
+  }
+  return true;
+}
+
+export function parsePrice(priceString: string): number {
+  const cleaned = priceString.replace(/[^0-9.,]/g, '');
+  // Whichever separator comes last is the decimal one ("1,299.00" vs "1.299,00"),
+  // unless a lone comma is followed by exactly three digits ("1,299")
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const commaIsDecimal = lastComma > lastDot && !/^\d{1,3}(,\d{3})+$/.test(cleaned);
+  const normalized = commaIsDecimal
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  const parsed = parseFloat(normalized);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/** First number in a label such as "4.5 out of 5 stars" or "4,5 von 5 Sternen" */
+export function parseRating(text: string): number {
+  const match = text.match(/\d+(?:[.,]\d+)?/);
+  return match ? parseFloat(match[0].replace(',', '.')) : 0;
+}
+
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') return isFinite(value) ? value : 0;
+  if (typeof value === 'string') return parsePrice(value);
+  return 0;
+}
+
+export function toText(value: unknown): string {
+  if (typeof value === 'string') return cheerio.load(value).text().replace(/\s+/g, ' ').trim();
+  if (Array.isArray(value)) return toText(value[0]);
+  if (value && typeof value === 'object' && 'name' in value) return toText((value as any).name);
+  return '';
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function absoluteUrl(src: string | undefined, baseUrl: string): string | null {
+  if (!src) return null;
+  try {
+    const url = new URL(src.trim(), baseUrl).href;
+    return /^https?:/i.test(url) && !url.includes('placeholder') && !url.includes('spacer') ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export function uniqueUrls(sources: Array<string | undefined>, baseUrl: string): string[] {
+  const urls = new Set<string>();
+  for (const src of sources) {
+    const url = absoluteUrl(src, baseUrl);
+    if (url) urls.add(url);
+  }
+  return Array.from(urls).slice(0, MAX_IMAGES);
+}
+
+function hasType(node: any, type: string): boolean {
+  return toArray(node?.['@type']).some(t => typeof t === 'string' && t.replace(/^.*[/#]/, '') === type);
+}
+
+// JSON-LD is hand-written often enough that raw newlines and tabs inside strings are common
+function parseJsonLd(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    try {
+      return JSON.parse(raw.replace(/[\u0000-\u001f]+/g, ' '));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function collectNodes(value: unknown, nodes: any[] = [], depth = 0): any[] {
+  if (!value || typeof value !== 'object' || depth > 6) return nodes;
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes, depth + 1));
+    return nodes;
+  }
+
+  const node = value as Record<string, any>;
+  nodes.push(node);
+  collectNodes(node['@graph'], nodes, depth + 1);
+  collectNodes(node.mainEntity, nodes, depth + 1);
+  collectNodes(node.itemListElement, nodes, depth + 1);
+  return nodes;
+}
+
+function ldImages(value: unknown): string[] {
+  return toArray(value as any).flatMap((image: any) => {
+    if (typeof image === 'string') return [image];
+    if (image && typeof image === 'object') return [image.contentUrl || image.url].filter(Boolean);
+    return [];
+  });
+}
+
+function ldReviews(value: unknown): ScrapedReview[] {
+  return toArray(value as any)
+    .filter(review => review && typeof review === 'object')
+    .map((review: any) => ({
+      rating: toNumber(review.reviewRating?.ratingValue),
+      text: toText(review.reviewBody || review.description),
+      author: toText(review.author) || 'Anonymous',
+      date: typeof review.datePublished === 'string' ? review.datePublished : new Date().toISOString(),
+    }))
+    .filter(review => review.text)
+    .slice(0, MAX_REVIEWS);
+}
+
+/**
+ * Reads schema.org Product nodes (including ones nested in @graph or ProductGroup
+ * variants) from every application/ld+json block on the page.
+ */
+export function extractJsonLd($: cheerio.CheerioAPI, baseUrl: string): Partial<StructuredFields> {
+  const nodes = loadJsonLdNodes($);
+
+  const product = nodes.find(node => hasType(node, 'Product'))
+    || nodes.find(node => hasType(node, 'ProductGroup'));
+  if (!product) return {};
+
+  const variant = toArray(product.hasVariant).find((v: any) => v?.offers);
+  const offers = toArray(product.offers || variant?.offers);
+  const offer = offers.find((o: any) => o && (o.price !== undefined || o.lowPrice !== undefined || o.priceSpecification))
+    || offers[0]
+    || {};
+  const priceSpecification = toArray(offer.priceSpecification)[0] || {};
+  const aggregateRating = product.aggregateRating || {};
+
+  return {
+    name: toText(product.name),
+    price: toNumber(offer.price ?? offer.lowPrice ?? priceSpecification.price),
+    currency: toText(offer.priceCurrency || priceSpecification.priceCurrency).toUpperCase(),
+    description: toText(product.description),
+    images: uniqueUrls([...ldImages(product.image), ...ldImages(variant?.image)], baseUrl),
+    brand: toText(product.brand || product.manufacturer),
+    rating: toNumber(aggregateRating.ratingValue),
+    reviewCount: toNumber(aggregateRating.reviewCount ?? aggregateRating.ratingCount),
+    reviews: ldReviews(product.review || product.reviews),
+  };
+}
+
+const VARIES_BY = ['color', 'size', 'material', 'pattern', 'suggestedAge', 'suggestedGender'];
+
+function loadJsonLdNodes($: cheerio.CheerioAPI): any[] {
+  return $('script[type="application/ld+json"]')
+    .toArray()
+    .flatMap(elem => collectNodes(parseJsonLd($(elem).contents().text())));
+}
+
+/**
+ * Variants published as a schema.org ProductGroup: each `hasVariant` Product carries its
+ * own SKU, offer and image, with option values in the properties named by `variesBy`.
+ */
+export function extractJsonLdVariants($: cheerio.CheerioAPI, baseUrl: string): ProductVariant[] {
+  const group = loadJsonLdNodes($).find(node => hasType(node, 'ProductGroup') && node.hasVariant);
+  if (!group) return [];
+
+  const properties = toArray(group.variesBy)
+    .map((property: unknown) => (typeof property === 'string' ? property.replace(/^.*[/#]/, '') : ''))
+    .filter(Boolean);
+  const optionKeys = properties.length > 0 ? properties : VARIES_BY;
+
+  return toArray(group.hasVariant)
+    .filter((variant: any) => variant && typeof variant === 'object')
+    .map((variant: any, index: number) => {
+      const offer = toArray(variant.offers)[0] || {};
+      const options: Record<string, string> = {};
+      for (const key of optionKeys) {
+        const value = toText(variant[key]);
+        if (value) options[key.charAt(0).toUpperCase() + key.slice(1)] = value;
+      }
+
+      return {
+        id: String(variant.sku || variant.productID || variant['@id'] || index + 1),
+        sku: variant.sku ? String(variant.sku) : undefined,
+        title: Object.values(options).join(' / ') || toText(variant.name),
+        options,
+        price: toNumber(offer.price) || undefined,
+        available: typeof offer.availability === 'string' ? /InStock|PreOrder/i.test(offer.availability) : undefined,
+        image: uniqueUrls(ldImages(variant.image), baseUrl)[0],
+      };
+    });
+}
+
+/**
+ * OpenGraph plus the `product:*` namespace used by Facebook catalogs (and `og:price:*`,
+ * which some platforms emit instead).
+ */
+export function extractOpenGraph($: cheerio.CheerioAPI, baseUrl: string): Partial<StructuredFields> {
+  const meta = (...names: string[]): string[] =>
+    names.flatMap(name =>
+      $(`meta[property="${name}"], meta[name="${name}"]`)
+        .toArray()
+        .map(elem => ($(elem).attr('content') || '').trim())
+        .filter(Boolean)
+    );
+
+  return {
+    name: meta('og:title')[0] || '',
+    price: toNumber(meta('product:price:amount', 'og:price:amount', 'product:sale_price:amount')[0]),
+    currency: (meta('product:price:currency', 'og:price:currency')[0] || '').toUpperCase(),
+    description: meta('og:description')[0] || '',
+    images: uniqueUrls(meta('og:image:secure_url', 'og:image', 'og:image:url'), baseUrl),
+    brand: meta('product:brand', 'og:brand')[0] || '',
+  };
+}
+
+/**
+ * Reads itemprop values scoped to the first schema.org/Product itemscope, preferring
+ * machine-readable `content` attributes over rendered text.
+ */
+export function extractMicrodata($: cheerio.CheerioAPI, baseUrl: string): Partial<StructuredFields> {
+  const scope = $('[itemscope][itemtype*="schema.org/Product"]').first();
+  if (scope.length === 0) return {};
+
+  const propValue = (elem: cheerio.Cheerio<any>): string => {
+    const content = elem.attr('content') || elem.attr('value');
+    if (content) return content.trim();
+    if (elem.is('img, source')) return elem.attr('src') || elem.attr('data-src') || '';
+    if (elem.is('a, link')) return elem.attr('href') || '';
+    return elem.text().replace(/\s+/g, ' ').trim();
+  };
+  const prop = (name: string, within: cheerio.Cheerio<any> = scope): string => {
+    const elem = within.find(`[itemprop="${name}"]`).first();
+    if (elem.length === 0) return '';
+    // A nested itemscope such as brand → Brand carries its own name
+    if (elem.is('[itemscope]')) return prop('name', elem);
+    return propValue(elem);
+  };
+
+  const reviews: ScrapedReview[] = scope
+    .find('[itemprop="review"]')
+    .slice(0, MAX_REVIEWS)
+    .toArray()
+    .map(elem => {
+      const review = $(elem);
+      return {
+        rating: toNumber(prop('ratingValue', review)),
+        text: prop('reviewBody', review) || prop('description', review),
+        author: prop('author', review) || 'Anonymous',
+        date: prop('datePublished', review) || new Date().toISOString(),
+      };
+    })
+    .filter(review => review.text);
+
+  const aggregate = scope.find('[itemprop="aggregateRating"]').first();
+
+  return {
+    name: prop('name'),
+    price: toNumber(prop('price') || prop('lowPrice')),
+    currency: prop('priceCurrency').toUpperCase(),
+    description: prop('description'),
+    images: uniqueUrls(scope.find('[itemprop="image"]').toArray().map(elem => propValue($(elem))), baseUrl),
+    brand: prop('brand'),
+    rating: toNumber(aggregate.length ? prop('ratingValue', aggregate) : ''),
+    reviewCount: toNumber(aggregate.length ? prop('reviewCount', aggregate) || prop('ratingCount', aggregate) : ''),
+    reviews,
+  };
+}
+
+export function extractStructuredData($: cheerio.CheerioAPI, baseUrl: string): SourceFields[] {
+  return [
+    { source: 'json-ld', fields: extractJsonLd($, baseUrl) },
+    { source: 'microdata', fields: extractMicrodata($, baseUrl) },
+    { source: 'opengraph', fields: extractOpenGraph($, baseUrl) },
+  ];
+}
+
+/**
+ * Picks each field from the most trusted source that has a usable value. Images are
+ * the exception: every source's images are kept, most trusted first, since galleries
+ * are often split between JSON-LD and the page markup.
+ */
+export function mergeProductFields(candidates: SourceFields[]): MergedFields {
+  const fields: Partial<StructuredFields> = {};
+  const fieldSources: Partial<Record<StructuredField, ProductFieldSource>> = {};
+  const allFields: StructuredField[] = [
+    'name', 'price', 'currency', 'description', 'brand', 'rating', 'reviewCount', 'reviews',
+  ];
+
+  for (const field of allFields) {
+    let best: { value: any; source: ProductFieldSource; confidence: number } | null = null;
+
+    for (const { source, fields: sourceFields } of candidates) {
+      const value = sourceFields[field];
+      if (!hasValue(field, value)) continue;
+
+      const confidence = confidenceFor(field, source);
+      if (!best || confidence > best.confidence) {
+        best = { value, source, confidence };
+      }
+    }
+
+    if (best) {
+      (fields as any)[field] = best.value;
+      fieldSources[field] = best.source;
+    }
+  }
+
+  // A price is only meaningful in its own currency, so keep the pair from one source
+  const priceSource = candidates.find(candidate => candidate.source === fieldSources.price);
+  if (priceSource && hasValue('currency', priceSource.fields.currency)) {
+    fields.currency = priceSource.fields.currency;
+    fieldSources.currency = priceSource.source;
+  }
+
+  const ranked = candidates
+    .filter(candidate => hasValue('images', candidate.fields.images))
+    .sort((a, b) => confidenceFor('images', b.source) - confidenceFor('images', a.source));
+
+  if (ranked.length > 0) {
+    fields.images = Array.from(new Set(ranked.flatMap(candidate => candidate.fields.images!))).slice(0, MAX_IMAGES);
+    fieldSources.images = ranked[0].source;
+  }
+
+  return { fields, fieldSources };
+}
@@ -0,0 +1,44 @@
+import type { ProductData, ProductVariant } from '../types';
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function optionSet(values: string[]): string {
+  return values.map(normalize).filter(Boolean).sort().join('|');
+}
+
+/**
+ * Finds a variant by id, SKU, display title ("Red / M") or its option values in any
+ * order and separator ("M, red").
+ */
+export function findProductVariant(
+  variants: ProductVariant[] | undefined,
+  selector: string | undefined
+): ProductVariant | null {
+  if (!variants?.length || !selector?.trim()) return null;
+
+  const wanted = normalize(selector);
+  const wantedOptions = optionSet(selector.split(/\s*[\/,|]\s*/));
+
+  return variants.find(variant => variant.id === selector.trim())
+    || variants.find(variant => variant.sku && normalize(variant.sku) === wanted)
+    || variants.find(variant => normalize(variant.title) === wanted)
+    || variants.find(variant => optionSet(Object.values(variant.options)) === wantedOptions)
+    || null;
+}
+
+/**
+ * The product as the downstream steps should present it: the selected variant's price
+ * and image take over, and everything else is inherited from the product.
+ */
+export function featureProductVariant(productData: ProductData, variant: ProductVariant | null): ProductData {
+  if (!variant) return productData;
+
+  return {
+    ...productData,
+    price: variant.price ?? productData.price,
+    images: Array.from(new Set([variant.image, ...productData.images].filter((src): src is string => Boolean(src)))),
+    selectedVariant: variant,
+  };
+}
@@ -0,0 +1,65 @@
+import { generateVideo } from './vidgo';
+import { generateSlideshow } from './slideshow';
+import type { MarketingAngle, VideoGenResult, VideoGeneratorName } from '../types';
+
+export interface VideoGenerationRequest {
+  angle: MarketingAngle;
+  productImages: string[];
+  transparentImageUrl?: string;
+}
+
+export interface VideoGenerator {
+  name: VideoGeneratorName;
+  /** Paid generators go through the budget guard before every call */
+  billable: boolean;
+  isConfigured(): boolean;
+  generate(request: VideoGenerationRequest): Promise<VideoGenResult>;
+}
+
+const vidgoGenerator: VideoGenerator = {
+  name: 'vidgo',
+  billable: true,
+  isConfigured: () => Boolean(process.env.VIDGO_API_KEY),
+  generate: ({ angle, productImages }) => generateVideo(angle, productImages),
+};
+
+const slideshowGenerator: VideoGenerator = {
+  name: 'slideshow',
+  billable: false,
+  isConfigured: () => true,
+  generate: ({ angle, productImages, transparentImageUrl }) =>
+    generateSlideshow(angle, productImages, transparentImageUrl),
+};
+
+const GENERATORS: Record<VideoGeneratorName, VideoGenerator> = {
+  vidgo: vidgoGenerator,
+  slideshow: slideshowGenerator,
+};
+
+export const VIDEO_GENERATORS = Object.keys(GENERATORS) as VideoGeneratorName[];
+
+export function getDefaultVideoGenerator(): VideoGeneratorName {
+  const configured = process.env.VIDEO_GENERATOR as VideoGeneratorName | undefined;
+  return configured && VIDEO_GENERATORS.includes(configured) ? configured : 'vidgo';
+}
+
+function getFallbackGenerator(): VideoGeneratorName | null {
+  const configured = process.env.VIDEO_GENERATOR_FALLBACK;
+  if (configured === 'none') return null;
+  return configured && VIDEO_GENERATORS.includes(configured as VideoGeneratorName)
+    ? configured as VideoGeneratorName
+    : 'slideshow';
+}
+
+/**
+ * Generators to try in order: the preferred one, then VIDEO_GENERATOR_FALLBACK
+ * (the slideshow unless set to "none"). Unconfigured generators are skipped, but
+ * the preferred one is kept if nothing else is left so its own error surfaces.
+ */
+export function getVideoGeneratorChain(preferred: VideoGeneratorName = getDefaultVideoGenerator()): VideoGenerator[] {
+  const fallback = getFallbackGenerator();
+  const names = fallback && fallback !== preferred ? [preferred, fallback] : [preferred];
+  const chain = names.map(name => GENERATORS[name]).filter(generator => generator.isConfigured());
+
+  return chain.length > 0 ? chain : [GENERATORS[preferred]];
+}
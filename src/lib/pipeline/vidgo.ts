@@ -1,5 +1,6 @@
 import axios, { AxiosError } from 'axios';
 import { MarketingAngle, VideoGenResult } from '../types';
+import { recordCost } from '../ledger';
 
 const VIDGO_API_URL = 'https://api.vidgo.ai/v1/generate';
 const VIDGO_API_KEY = process.env.VIDGO_API_KEY || '';
@@ -7,17 +8,7 @@ const MAX_POLL_DURATION = 5 * 60 * 1000;
 const POLL_INTERVAL = 5000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 2000;
-const COST_PER_REQUEST = 0.03;
-
-let totalCost = 0;
-
-export function getTotalCost(): number {
-  return totalCost;
-}
-
-export function resetCostTracking(): void {
-  totalCost = 0;
-}
+export const COST_PER_REQUEST = 0.03;
 
 interface VidgoGenerateRequest {
   script: string;
@@ -285,7 +276,7 @@ export async function generateVideo(
     const completedVideo = await pollForCompletion(jobId);
     validateVideoMetadata(completedVideo);
 
-    totalCost += COST_PER_REQUEST;
+    recordCost({ provider: 'vidgo', unitPrice: COST_PER_REQUEST });
 
     const metadata = {
       duration: completedVideo.duration!,
@@ -1,62 +1,110 @@
-import OpenAI from 'openai';
-import { VisionAnalysis } from '../types';
+import axios from 'axios';
+import { z } from 'zod';
+import { ImageAnalysis, ImageMetrics, VisionAnalysis, VisionProviderConfig } from '../types';
+import { recordCost } from '../ledger';
+import { mapWithConcurrency } from '../utils';
+import { describeMood, measureImageMetrics } from './imageMetrics';
+import {
+  LlmResponseError,
+  buildRepairPrompt,
+  echoRejectedResponse,
+  numeric,
+  parseLlmJson,
+  stringList,
+} from './llmResponse';
+import { createVisionProvider, estimateVisionCost, getDefaultVisionConfig } from './visionProvider';
+import type { VisionProvider } from './visionProvider';
+
+const MAX_TOKENS = 2000;
+// Every repair re-sends the images, so one corrected answer is all that is worth paying for
+const MAX_REPAIR_ATTEMPTS = 1;
+// The scrapers keep at most 10 images, so every scraped image is scored
+export const MAX_CANDIDATE_IMAGES = 10;
+// Larger sets are split across requests so each answer stays within MAX_TOKENS
+const IMAGES_PER_REQUEST = 4;
+const ESTIMATED_TOKENS_PER_IMAGE = 800;
+const ESTIMATED_INPUT_TOKENS = 400 + ESTIMATED_TOKENS_PER_IMAGE * IMAGES_PER_REQUEST;
+const ESTIMATED_OUTPUT_TOKENS = 1000;
+const ESTIMATED_COST_PER_REQUEST =
+  estimateVisionCost(getDefaultVisionConfig().model, ESTIMATED_INPUT_TOKENS, ESTIMATED_OUTPUT_TOKENS);
+/** Projected price of one analysis of a full set with the default model, used by the budget guard */
+export const ESTIMATED_COST_PER_ANALYSIS =
+  ESTIMATED_COST_PER_REQUEST * Math.ceil(MAX_CANDIDATE_IMAGES / IMAGES_PER_REQUEST);
+
+const IMAGE_FETCH_TIMEOUT = 15000;
+const IMAGE_FETCH_CONCURRENCY = 4;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+// Short side that fills a 1080x1920 frame without upscaling
+const HERO_MIN_SIDE = 1080;
+const HERO_WEIGHTS = {
+  packagingVisibility: 0.35,
+  resolution: 0.2,
+  clutter: 0.25,
+  textLegibility: 0.2,
+};
+
+interface ImageCandidate {
+  url: string;
+  metrics?: ImageMetrics;
+  error?: string;
+}
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 60000,
-  maxRetries: 0,
+// Local-only analyses carry no semantic judgement, so they never clear the quality gate
+const LOCAL_ANALYSIS_CONFIDENCE = 40;
+const LOCAL_MODEL = 'local-metrics';
+
+// Fields with a sensible fallback are dropped when malformed instead of failing the analysis
+const optionalScore = numeric(z.number()).optional().catch(undefined);
+const optionalList = stringList.optional().catch(undefined);
+
+const visionResponseSchema = z.object({
+  packagingQuality: z.object({
+    score: numeric(z.number().min(0).max(100)),
+    analysis: z.string().optional().catch(undefined),
+    strengths: optionalList,
+    weaknesses: optionalList,
+  }),
+  colorPalette: z.object({
+    dominant: stringList,
+    accent: optionalList,
+    mood: z.string().optional().catch(undefined),
+    vibrancy: optionalScore,
+  }),
+  visualHooks: z.object({
+    hooks: stringList,
+    engagement_potential: optionalScore,
+    tiktok_appeal: optionalScore,
+  }),
+  productPlacement: z.object({
+    recommended_angles: stringList,
+    lighting_suggestions: optionalList,
+    focal_points: optionalList,
+  }),
+  backgroundRecommendations: z.object({
+    settings: stringList,
+    props: optionalList,
+    style: z.string().optional().catch(undefined),
+  }),
+  // A bad rating only costs that image its model scores; local metrics still apply
+  images: z.array(
+    z.object({
+      index: numeric(z.number().int()),
+      packaging_visibility: optionalScore,
+      clutter: optionalScore,
+      text_legibility: optionalScore,
+      notes: z.string().optional().catch(undefined),
+    }).optional().catch(undefined)
+  ).optional().catch(undefined),
 });
 
-const VISION_MODEL = 'gpt-4-vision-preview';
-const MAX_TOKENS = 1500;
-const ANALYSIS_TIMEOUT = 60000;
-const MAX_RETRIES = 3;
-const RETRY_DELAY_BASE = 2000;
-const INPUT_COST_PER_1K = 0.01;
-const OUTPUT_COST_PER_1K = 0.03;
-
-let totalCost = 0;
-
-export function getTotalCost(): number {
-  return totalCost;
-}
-
-export function resetCostTracking(): void {
-  totalCost = 0;
-}
+type VisionPromptResponse = z.infer<typeof visionResponseSchema>;
 
-interface VisionPromptResponse {
-  packagingQuality: {
-    score: number;
-    analysis: string;
-    strengths: string[];
-    weaknesses: string[];
-  };
-  colorPalette: {
-    dominant: string[];
-    accent: string[];
-    mood: string;
-    vibrancy: number;
-  };
-  visualHooks: {
-    hooks: string[];
-    engagement_potential: number;
-    tiktok_appeal: number;
-  };
-  productPlacement: {
-    recommended_angles: string[];
-    lighting_suggestions: string[];
-    focal_points: string[];
-  };
-  backgroundRecommendations: {
-    settings: string[];
-    props: string[];
-    style: string;
-  };
-}
+function createAnalysisPrompt(imageCount: number): string {
+  const subject = imageCount === 1
+    ? 'this product image'
+    : `these ${imageCount} images of the same product (numbered 1-${imageCount} in the order given)`;
 
-function createAnalysisPrompt(): string {
-  return `Analyze this product image for e-commerce and TikTok marketing. Provide a detailed JSON response with the following structure:
+  return `Analyze ${subject} for e-commerce and TikTok marketing. Provide a detailed JSON response with the following structure:
 
 {
   "packagingQuality": {
@@ -85,9 +133,20 @@ function createAnalysisPrompt(): string {
     "settings": ["setting1", "setting2"],
     "props": ["prop1", "prop2"],
     "style": "minimalist/lifestyle/dramatic/clean"
-  }
+  },
+  "images": [
+    {
+      "index": <1-${imageCount}>,
+      "packaging_visibility": <0-100, how fully and clearly the packaging is shown>,
+      "clutter": <0-100, how busy the frame is around the product>,
+      "text_legibility": <0-100, how readable the label text is>,
+      "notes": "one short sentence"
+    }
+  ]
 }
 
+Include one "images" entry per image. Describe the product as a whole in the other sections.
+
 Focus on:
 - Professional packaging assessment
 - Color psychology for social media
@@ -116,42 +175,88 @@ function validateImageUrl(imageUrl: string): void {
   }
 }
 
-function parseVisionResponse(content: string): VisionPromptResponse {
+async function measureImage(url: string): Promise<ImageCandidate> {
   try {
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON object found in response');
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]) as VisionPromptResponse;
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: IMAGE_FETCH_TIMEOUT,
+      maxContentLength: MAX_IMAGE_BYTES,
+    });
+    return { url, metrics: await measureImageMetrics(Buffer.from(response.data)) };
+  } catch (error) {
+    return { url, error: error instanceof Error ? error.message : String(error) };
+  }
+}
 
-    if (!parsed.packagingQuality || typeof parsed.packagingQuality.score !== 'number') {
-      throw new Error('Missing or invalid packagingQuality in response');
-    }
+function clampScore(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(100, Math.max(0, Math.round(value)))
+    : fallback;
+}
 
-    if (!parsed.colorPalette || !Array.isArray(parsed.colorPalette.dominant)) {
-      throw new Error('Missing or invalid colorPalette in response');
-    }
+function resolutionScore(metrics?: ImageMetrics): number {
+  if (!metrics?.width || !metrics.height) return 50;
+  return clampScore((Math.min(metrics.width, metrics.height) / HERO_MIN_SIDE) * 100, 50);
+}
 
-    if (!parsed.visualHooks || !Array.isArray(parsed.visualHooks.hooks)) {
-      throw new Error('Missing or invalid visualHooks in response');
+/**
+ * Scores each candidate from the model's per-image ratings and its local metrics; without
+ * a rating, sharpness stands in for legibility. Images that could not be downloaded were
+ * never shown to the model and score 0.
+ */
+function scoreImages(
+  candidates: ImageCandidate[],
+  analyzed: ImageCandidate[],
+  response?: VisionPromptResponse
+): ImageAnalysis[] {
+  return candidates.map(candidate => {
+    const index = analyzed.indexOf(candidate);
+    if (index < 0) {
+      return {
+        url: candidate.url,
+        packagingVisibility: 0,
+        resolution: 0,
+        clutter: 100,
+        textLegibility: 0,
+        heroScore: 0,
+        error: candidate.error || 'Not analyzed',
+      };
     }
 
-    if (!parsed.productPlacement || !Array.isArray(parsed.productPlacement.recommended_angles)) {
-      throw new Error('Missing or invalid productPlacement in response');
-    }
+    const { metrics } = candidate;
+    const rated = response?.images?.find(image => image?.index === index + 1);
+    const packagingVisibility = clampScore(rated?.packaging_visibility, 50);
+    const resolution = resolutionScore(metrics);
+    const clutter = clampScore(rated?.clutter, 50);
+    const textLegibility = clampScore(rated?.text_legibility, metrics?.sharpness ?? 50);
+
+    return {
+      url: candidate.url,
+      packagingVisibility,
+      resolution,
+      clutter,
+      textLegibility,
+      heroScore: Math.round(
+        packagingVisibility * HERO_WEIGHTS.packagingVisibility +
+        resolution * HERO_WEIGHTS.resolution +
+        (100 - clutter) * HERO_WEIGHTS.clutter +
+        textLegibility * HERO_WEIGHTS.textLegibility
+      ),
+      width: metrics?.width,
+      height: metrics?.height,
+      notes: rated?.notes,
+      metrics,
+    };
+  });
+}
 
-    if (!parsed.backgroundRecommendations || !Array.isArray(parsed.backgroundRecommendations.settings)) {
-      throw new Error('Missing or invalid backgroundRecommendations in response');
-    }
+/** Highest hero score wins; ties keep the scraped order, which usually leads with the main shot. */
+function pickHeroImage(images: ImageAnalysis[]): string {
+  return images.reduce((best, image) => (image.heroScore > best.heroScore ? image : best), images[0]).url;
+}
 
-    return parsed;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`Failed to parse vision API response as JSON: ${error.message}`);
-    }
-    throw error;
-  }
+function isScore(value: number | undefined): boolean {
+  return value !== undefined && value >= 0 && value <= 100;
 }
 
 function calculateCompletenessScore(response: VisionPromptResponse): number {
@@ -162,31 +267,39 @@ function calculateCompletenessScore(response: VisionPromptResponse): number {
   if (response.packagingQuality.score >= 0 && response.packagingQuality.score <= 100) {
     score += 10;
   }
-  if (response.packagingQuality.strengths.length > 0 && response.packagingQuality.weaknesses.length > 0) {
+  if (response.packagingQuality.strengths?.length && response.packagingQuality.weaknesses?.length) {
     score += 10;
   }
 
   maxScore += 20;
   if (response.colorPalette.dominant.length >= 2) score += 10;
-  if (response.colorPalette.vibrancy >= 0 && response.colorPalette.vibrancy <= 100) score += 10;
+  if (isScore(response.colorPalette.vibrancy)) score += 10;
 
   maxScore += 20;
   if (response.visualHooks.hooks.length >= 2) score += 10;
-  if (response.visualHooks.tiktok_appeal >= 0 && response.visualHooks.tiktok_appeal <= 100) score += 10;
+  if (isScore(response.visualHooks.tiktok_appeal)) score += 10;
 
   maxScore += 20;
   if (response.productPlacement.recommended_angles.length >= 2) score += 10;
-  if (response.productPlacement.lighting_suggestions.length > 0) score += 10;
+  if (response.productPlacement.lighting_suggestions?.length) score += 10;
 
   maxScore += 20;
   if (response.backgroundRecommendations.settings.length >= 2) score += 10;
-  if (response.backgroundRecommendations.props.length > 0) score += 10;
+  if (response.backgroundRecommendations.props?.length) score += 10;
 
   return Math.round((score / maxScore) * 100);
 }
 
-function transformToVisionAnalysis(response: VisionPromptResponse, estimatedCost: number): VisionAnalysis {
+function transformToVisionAnalysis(
+  response: VisionPromptResponse,
+  estimatedCost: number,
+  images: ImageAnalysis[],
+  model: string
+): VisionAnalysis {
   const completenessScore = calculateCompletenessScore(response);
+  const heroImage = pickHeroImage(images);
+  // Measured colours are reproducible run to run; the model's names are not
+  const heroMetrics = images.find(image => image.url === heroImage)?.metrics;
 
   return {
     packagingQuality: {
@@ -196,10 +309,10 @@ function transformToVisionAnalysis(response: VisionPromptResponse, estimatedCost
       weaknesses: response.packagingQuality.weaknesses || [],
     },
     colorPalette: {
-      dominant: response.colorPalette.dominant || [],
-      accent: response.colorPalette.accent || [],
+      dominant: heroMetrics?.dominantColors || response.colorPalette.dominant || [],
+      accent: heroMetrics?.accentColors || response.colorPalette.accent || [],
       mood: response.colorPalette.mood || 'neutral',
-      vibrancy: Math.min(100, Math.max(0, response.colorPalette.vibrancy || 50)),
+      vibrancy: heroMetrics?.vibrancy ?? Math.min(100, Math.max(0, response.colorPalette.vibrancy || 50)),
     },
     visualHooks: {
       hooks: response.visualHooks.hooks || [],
@@ -216,102 +329,255 @@ function transformToVisionAnalysis(response: VisionPromptResponse, estimatedCost
       props: response.backgroundRecommendations.props || [],
       style: response.backgroundRecommendations.style || 'clean',
     },
+    heroImage,
+    images,
     metadata: {
       completenessScore,
       confidence: completenessScore,
       estimatedCost,
       timestamp: new Date().toISOString(),
-      model: VISION_MODEL,
+      model,
     },
   };
 }
 
-async function callVisionAPIWithRetry(imageUrl: string, attempt: number = 0): Promise<VisionPromptResponse> {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('Vision API request timed out')), ANALYSIS_TIMEOUT);
-  });
-
-  const apiPromise = openai.chat.completions.create({
-    model: VISION_MODEL,
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: createAnalysisPrompt(),
-          },
-          {
-            type: 'image_url',
-            image_url: {
-              url: imageUrl,
-              detail: 'high',
-            },
-          },
-        ],
-      },
-    ],
-    max_tokens: MAX_TOKENS,
-    temperature: 0.3,
-  });
+/**
+ * Offline analysis from the measured metrics of the hero image: palette, vibrancy and a
+ * technical packaging score, with no hooks or placement advice.
+ */
+function buildLocalAnalysis(candidates: ImageCandidate[], reason: string): VisionAnalysis {
+  const reachable = candidates.filter(candidate => candidate.metrics);
+  const images = scoreImages(candidates, reachable);
+  const heroImage = pickHeroImage(images);
+  const hero = images.find(image => image.url === heroImage)!;
+  const metrics = hero.metrics!;
+
+  const strengths: string[] = [];
+  const weaknesses: string[] = [];
+  const lightingSuggestions: string[] = [];
+
+  if (metrics.sharpness >= 50) {
+    strengths.push('Sharp product imagery');
+  } else {
+    weaknesses.push('Soft or blurry product imagery');
+  }
+  if (hero.resolution >= 80) {
+    strengths.push('High-resolution source image');
+  } else {
+    weaknesses.push('Low resolution for a full-screen vertical video');
+  }
+  if (metrics.contrast >= 40) {
+    strengths.push('Good tonal contrast');
+  } else {
+    weaknesses.push('Flat, low-contrast lighting');
+    lightingSuggestions.push('Add directional light to separate the product from the background');
+  }
+  if (metrics.brightness < 35) {
+    weaknesses.push('Underexposed');
+    lightingSuggestions.push('Brighten the scene or use a light backdrop');
+  }
 
-  try {
-    const completion = await Promise.race([apiPromise, timeoutPromise]);
+  return {
+    packagingQuality: {
+      score: Math.round((metrics.sharpness + hero.resolution + metrics.contrast) / 3),
+      analysis: `Technical assessment from local image metrics only (${reason}); packaging design was not evaluated.`,
+      strengths,
+      weaknesses,
+    },
+    colorPalette: {
+      dominant: metrics.dominantColors,
+      accent: metrics.accentColors,
+      mood: describeMood(metrics),
+      vibrancy: metrics.vibrancy,
+    },
+    visualHooks: {
+      hooks: [],
+      engagementPotential: 50,
+      tiktokAppeal: 50,
+    },
+    productPlacement: {
+      recommendedAngles: [],
+      lightingSuggestions,
+      focalPoints: [],
+    },
+    backgroundRecommendations: {
+      settings: [],
+      props: [],
+      style: 'clean',
+    },
+    heroImage,
+    images,
+    metadata: {
+      completenessScore: LOCAL_ANALYSIS_CONFIDENCE,
+      confidence: LOCAL_ANALYSIS_CONFIDENCE,
+      estimatedCost: 0,
+      timestamp: new Date().toISOString(),
+      model: LOCAL_MODEL,
+    },
+  };
+}
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('Empty response from Vision API');
+/**
+ * One provider round trip. Billed as soon as the provider answers, even if the content
+ * turns out to be unusable.
+ */
+async function completeVisionRequest(
+  provider: VisionProvider,
+  prompt: string,
+  imageUrls: string[]
+): Promise<{ content: string; cost: number; model: string }> {
+  const completion = await provider.complete({ prompt, imageUrls, maxTokens: MAX_TOKENS });
+
+  let cost = 0;
+  if (provider.billable) {
+    if (completion.usage) {
+      cost = estimateVisionCost(completion.model, completion.usage.prompt, completion.usage.completion);
+    } else {
+      console.warn(`Vision API reported no token usage for ${completion.model}; recording the estimated cost`);
+      cost = ESTIMATED_COST_PER_REQUEST;
     }
+    recordCost({
+      provider: 'openai',
+      unitPrice: cost,
+      tokens: completion.usage || undefined,
+    });
+  }
 
-    return parseVisionResponse(content);
-  } catch (error) {
-    if (error instanceof OpenAI.APIError) {
-      if (error.status === 429 || error.status === 500 || error.status === 503) {
-        if (attempt < MAX_RETRIES) {
-          const delay = RETRY_DELAY_BASE * Math.pow(2, attempt);
-          console.warn(`Vision API error (${error.status}), retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return callVisionAPIWithRetry(imageUrl, attempt + 1);
-        }
-      }
-      
-      if (error.status === 400) {
-        throw new Error(`Invalid image or request: ${error.message}`);
-      } else if (error.status === 401) {
-        throw new Error('OpenAI API authentication failed. Check your API key.');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI API rate limit exceeded. Please try again later.');
-      } else if (error.status === 500 || error.status === 503) {
-        throw new Error('OpenAI API service error. Please try again later.');
+  if (!completion.content) {
+    throw new Error('Empty response from Vision API');
+  }
+
+  return { content: completion.content, cost, model: completion.model };
+}
+
+/**
+ * Asks for the analysis and validates it against visionResponseSchema. A response that
+ * fails validation is sent back with its field-level issues for correction.
+ */
+async function callVisionProvider(
+  provider: VisionProvider,
+  imageUrls: string[]
+): Promise<{ response: VisionPromptResponse; cost: number; model: string }> {
+  const basePrompt = createAnalysisPrompt(imageUrls.length);
+  let prompt = basePrompt;
+  let totalCost = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const { content, cost, model } = await completeVisionRequest(provider, prompt, imageUrls);
+    totalCost += cost;
+
+    try {
+      return { response: parseLlmJson(content, visionResponseSchema, 'vision'), cost: totalCost, model };
+    } catch (error) {
+      if (!(error instanceof LlmResponseError) || attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw error;
       }
-      throw new Error(`OpenAI API error (${error.status}): ${error.message}`);
+
+      console.warn(`${error.message}; asking the vision model to repair ${error.issues.length} issue(s)`);
+      prompt = `${basePrompt}
+
+Your previous response was:
+${echoRejectedResponse(error)}
+
+${buildRepairPrompt(error)}`;
     }
-    throw error;
   }
 }
 
-function estimateCost(inputTokens: number, outputTokens: number): number {
-  const inputCost = (inputTokens / 1000) * INPUT_COST_PER_1K;
-  const outputCost = (outputTokens / 1000) * OUTPUT_COST_PER_1K;
-  return inputCost + outputCost;
+/**
+ * Sends the images IMAGES_PER_REQUEST at a time. The first batch answers the product-level
+ * sections; later batches only contribute their per-image ratings, renumbered to the full
+ * set. A later batch that fails leaves its images to be scored from local metrics.
+ */
+async function analyzeInBatches(
+  provider: VisionProvider,
+  imageUrls: string[]
+): Promise<{ response: VisionPromptResponse; cost: number; model: string }> {
+  const batches: string[][] = [];
+  for (let start = 0; start < imageUrls.length; start += IMAGES_PER_REQUEST) {
+    batches.push(imageUrls.slice(start, start + IMAGES_PER_REQUEST));
+  }
+
+  // Ratings numbered past their batch would land on another batch's images
+  const ratingsFor = (response: VisionPromptResponse, size: number) =>
+    (response.images || []).filter(image => image && image.index >= 1 && image.index <= size);
+
+  const first = await callVisionProvider(provider, batches[0]);
+  const images = ratingsFor(first.response, batches[0].length);
+  let cost = first.cost;
+
+  for (let i = 1; i < batches.length; i++) {
+    const offset = i * IMAGES_PER_REQUEST;
+    try {
+      const batch = await callVisionProvider(provider, batches[i]);
+      cost += batch.cost;
+      for (const image of ratingsFor(batch.response, batches[i].length)) {
+        images.push({ ...image!, index: image!.index + offset });
+      }
+    } catch (error) {
+      console.warn(
+        `Vision API failed for images ${offset + 1}-${offset + batches[i].length} (${error instanceof Error ? error.message : String(error)}); scoring them from local metrics`
+      );
+    }
+  }
+
+  return { response: { ...first.response, images }, cost, model: first.model };
 }
 
-export async function analyzeProductImage(imageUrl: string): Promise<VisionAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
+/**
+ * Analyzes up to MAX_CANDIDATE_IMAGES product images, in batches of IMAGES_PER_REQUEST:
+ * the product-level sections describe the first batch, and `images` scores each
+ * candidate so the best one can be used as `heroImage`. The provider comes from VISION_* unless `config`
+ * overrides it; when it is unconfigured or fails, the analysis is built from the local
+ * image metrics alone.
+ */
+export async function analyzeProductImages(
+  imageUrls: string[],
+  config: Partial<VisionProviderConfig> = {}
+): Promise<VisionAnalysis> {
+  const urls = Array.from(new Set(imageUrls)).filter(url => {
+    try {
+      validateImageUrl(url);
+      return true;
+    } catch (error) {
+      console.warn(`Skipping image for vision analysis: ${(error as Error).message}`);
+      return false;
+    }
+  }).slice(0, MAX_CANDIDATE_IMAGES);
+
+  if (urls.length === 0) {
+    throw new Error('Vision analysis failed: No valid product image URLs to analyze');
   }
 
-  try {
-    validateImageUrl(imageUrl);
+  const candidates = await mapWithConcurrency(urls, IMAGE_FETCH_CONCURRENCY, measureImage);
+  const reachable = candidates.filter(candidate => !candidate.error);
 
-    const visionResponse = await callVisionAPIWithRetry(imageUrl);
+  const provider = createVisionProvider({ ...getDefaultVisionConfig(), ...config });
 
-    const estimatedInputTokens = 1200;
-    const estimatedOutputTokens = 800;
-    const cost = estimateCost(estimatedInputTokens, estimatedOutputTokens);
-    totalCost += cost;
+  if (!provider.isConfigured()) {
+    const reason = `${provider.name} vision provider is not configured (set OPENAI_API_KEY or VISION_BASE_URL)`;
+    if (reachable.length === 0) {
+      throw new Error(`Vision analysis failed: ${reason} and no product image could be downloaded`);
+    }
+    console.warn(`${reason}; using local image metrics for vision analysis`);
+    return buildLocalAnalysis(candidates, reason);
+  }
+
+  // If nothing downloads here (hotlink protection, ...) the provider may still be able to fetch them
+  const analyzed = reachable.length > 0 ? reachable : candidates;
 
-    const analysis = transformToVisionAnalysis(visionResponse, cost);
+  try {
+    const { response: visionResponse, cost, model } = await analyzeInBatches(
+      provider,
+      analyzed.map(candidate => candidate.url)
+    );
+
+    const analysis = transformToVisionAnalysis(
+      visionResponse,
+      cost,
+      scoreImages(candidates, analyzed, visionResponse),
+      model
+    );
 
     if (analysis.metadata.completenessScore < 50) {
       console.warn(
@@ -321,25 +587,18 @@ export async function analyzeProductImage(imageUrl: string): Promise<VisionAnaly
 
     return analysis;
   } catch (error) {
-    if (error instanceof OpenAI.APIError) {
-      if (error.status === 400) {
-        throw new Error(`Invalid image or request: ${error.message}`);
-      } else if (error.status === 401) {
-        throw new Error('OpenAI API authentication failed. Check your API key.');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI API rate limit exceeded. Please try again later.');
-      } else if (error.status === 500 || error.status === 503) {
-        throw new Error('OpenAI API service error. Please try again later.');
-      }
-      throw new Error(`OpenAI API error (${error.status}): ${error.message}`);
-    }
-
-    if (error instanceof Error) {
-      throw new Error(`Vision analysis failed: ${error.message}`);
+    const message = error instanceof Error ? error.message : String(error);
+    if (reachable.length === 0) {
+      throw new Error(`Vision analysis failed: ${message}`);
     }
 
-    throw new Error('Unknown error occurred during vision analysis');
+    console.warn(`Vision API failed (${message}); falling back to local image metrics`);
+    return buildLocalAnalysis(candidates, message);
   }
 }
 
+export function analyzeProductImage(imageUrl: string): Promise<VisionAnalysis> {
+  return analyzeProductImages([imageUrl]);
+}
+
 export { analyzeProductImage as default };
\ No newline at end of file
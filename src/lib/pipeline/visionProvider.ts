@@ -0,0 +1,304 @@
+import OpenAI from 'openai';
+import { readFileSync } from 'fs';
+import type { VisionImageDetail, VisionProviderConfig, VisionProviderName } from '../types';
+
+export interface VisionRequest {
+  prompt: string;
+  imageUrls: string[];
+  maxTokens: number;
+}
+
+export interface VisionCompletion {
+  content: string;
+  model: string;
+  /** Null when the endpoint does not report usage */
+  usage: { prompt: number; completion: number } | null;
+}
+
+export interface VisionProvider {
+  name: VisionProviderName;
+  model: string;
+  /** Paid providers report every answered request to the cost ledger */
+  billable: boolean;
+  isConfigured(): boolean;
+  complete(request: VisionRequest): Promise<VisionCompletion>;
+}
+
+const REQUEST_TIMEOUT = 60000;
+const MAX_RETRIES = 3;
+const RETRY_DELAY_BASE = 2000;
+const DEFAULT_MODEL = 'gpt-4o';
+const DEFAULT_DETAIL: VisionImageDetail = 'high';
+const DETAILS: VisionImageDetail[] = ['low', 'high', 'auto'];
+
+/** USD per 1K tokens; unknown models are priced like gpt-4-turbo so budgets stay conservative */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4-vision-preview': { input: 0.01, output: 0.03 },
+};
+const FALLBACK_PRICE = MODEL_PRICES['gpt-4-turbo'];
+
+export const VISION_PROVIDERS: VisionProviderName[] = ['openai', 'fixture'];
+const MAX_MODEL_LENGTH = 100;
+
+export class VisionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VisionConfigError';
+  }
+}
+
+export function getDefaultVisionConfig(): VisionProviderConfig {
+  const provider = process.env.VISION_PROVIDER as VisionProviderName | undefined;
+  const detail = process.env.VISION_DETAIL as VisionImageDetail | undefined;
+
+  return {
+    provider: provider && VISION_PROVIDERS.includes(provider) ? provider : 'openai',
+    model: process.env.VISION_MODEL || DEFAULT_MODEL,
+    detail: detail && DETAILS.includes(detail) ? detail : DEFAULT_DETAIL,
+    baseUrl: process.env.VISION_BASE_URL || undefined,
+  };
+}
+
+/** Validates the per-run `vision` overrides from an API request; unset fields follow VISION_* */
+export function parseVisionConfig(input: unknown): Partial<VisionProviderConfig> | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new VisionConfigError('vision must be an object');
+  }
+
+  const raw = input as Record<string, any>;
+  const config: Partial<VisionProviderConfig> = {};
+
+  if (raw.provider !== undefined) {
+    if (!VISION_PROVIDERS.includes(raw.provider)) {
+      throw new VisionConfigError(`vision.provider must be one of: ${VISION_PROVIDERS.join(', ')}`);
+    }
+    config.provider = raw.provider;
+  }
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== 'string' || !raw.model.trim() || raw.model.length > MAX_MODEL_LENGTH) {
+      throw new VisionConfigError(`vision.model must be a non-empty string of at most ${MAX_MODEL_LENGTH} characters`);
+    }
+    config.model = raw.model.trim();
+  }
+
+  if (raw.detail !== undefined) {
+    if (!DETAILS.includes(raw.detail)) {
+      throw new VisionConfigError(`vision.detail must be one of: ${DETAILS.join(', ')}`);
+    }
+    config.detail = raw.detail;
+  }
+
+  if (raw.baseUrl !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = typeof raw.baseUrl === 'string' ? new URL(raw.baseUrl) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      throw new VisionConfigError('vision.baseUrl must be an http(s) URL');
+    }
+    config.baseUrl = raw.baseUrl;
+  }
+
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
+export function estimateVisionCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = MODEL_PRICES[model] || FALLBACK_PRICE;
+  return (promptTokens / 1000) * price.input + (completionTokens / 1000) * price.output;
+}
+
+// One client per endpoint, created on first use: the SDK throws without an API key
+const clients = new Map<string, OpenAI>();
+
+/**
+ * The OpenAI key only ever goes to OpenAI, and VISION_API_KEY only to VISION_BASE_URL, so
+ * an endpoint picked for a single run gets neither. Self-hosted servers usually ignore
+ * the key, but the SDK requires one.
+ */
+function getApiKey(baseUrl: string | undefined): string | undefined {
+  if (!baseUrl) return process.env.OPENAI_API_KEY;
+  return (baseUrl === process.env.VISION_BASE_URL && process.env.VISION_API_KEY) || 'unused';
+}
+
+function getClient(baseUrl: string | undefined): OpenAI {
+  const key = baseUrl || 'default';
+  let client = clients.get(key);
+  if (!client) {
+    client = new OpenAI({
+      apiKey: getApiKey(baseUrl),
+      baseURL: baseUrl,
+      timeout: REQUEST_TIMEOUT,
+      maxRetries: 0,
+    });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+function describeApiError(error: InstanceType<typeof OpenAI.APIError>): Error {
+  if (error.status === undefined) {
+    return new Error(`Vision API unreachable: ${error.message}`);
+  } else if (error.status === 400) {
+    return new Error(`Invalid image or request: ${error.message}`);
+  } else if (error.status === 401) {
+    return new Error('OpenAI API authentication failed. Check your API key.');
+  } else if (error.status === 429) {
+    return new Error('OpenAI API rate limit exceeded. Please try again later.');
+  } else if (error.status === 500 || error.status === 503) {
+    return new Error('OpenAI API service error. Please try again later.');
+  }
+  return new Error(`OpenAI API error (${error.status}): ${error.message}`);
+}
+
+/**
+ * Chat completions with image inputs. With `baseUrl` it talks to any OpenAI-compatible
+ * server (vLLM, Ollama, LM Studio, ...), which is treated as self-hosted and free.
+ */
+function createOpenAIProvider(config: VisionProviderConfig): VisionProvider {
+  const complete = async (request: VisionRequest, attempt: number = 0): Promise<VisionCompletion> => {
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error('Vision API request timed out')), REQUEST_TIMEOUT);
+    });
+
+    const apiPromise = getClient(config.baseUrl).chat.completions.create({
+      model: config.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            ...request.imageUrls.map(url => ({
+              type: 'image_url' as const,
+              image_url: { url, detail: config.detail },
+            })),
+          ],
+        },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: 0.3,
+    });
+
+    try {
+      const completion = await Promise.race([apiPromise, timeoutPromise]);
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model || config.model,
+        usage: completion.usage
+          ? { prompt: completion.usage.prompt_tokens, completion: completion.usage.completion_tokens }
+          : null,
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        if ((error.status === 429 || error.status === 500 || error.status === 503) && attempt < MAX_RETRIES) {
+          const delay = RETRY_DELAY_BASE * Math.pow(2, attempt);
+          console.warn(`Vision API error (${error.status}), retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          return complete(request, attempt + 1);
+        }
+        throw describeApiError(error);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name: 'openai',
+    model: config.model,
+    billable: !config.baseUrl,
+    isConfigured: () => Boolean(config.baseUrl || process.env.OPENAI_API_KEY),
+    complete: request => complete(request),
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Canned analysis for tests and offline development. Per-image scores are derived from
+ * a hash of each URL, so the same inputs always produce the same hero image.
+ * VISION_FIXTURE_FILE replaces the whole response with the JSON in that file.
+ */
+function fixtureContent(imageUrls: string[]): string {
+  const fixtureFile = process.env.VISION_FIXTURE_FILE;
+  if (fixtureFile) {
+    return readFileSync(fixtureFile, 'utf8');
+  }
+
+  return JSON.stringify({
+    packagingQuality: {
+      score: 80,
+      analysis: 'Fixture analysis: clean packaging with a clearly visible label.',
+      strengths: ['Clear branding', 'Simple layout'],
+      weaknesses: ['Plain background'],
+    },
+    colorPalette: {
+      dominant: ['white', 'black'],
+      accent: ['gold'],
+      mood: 'elegant',
+      vibrancy: 60,
+    },
+    visualHooks: {
+      hooks: ['Before and after reveal', 'Close-up of the texture', 'Unboxing moment'],
+      engagement_potential: 70,
+      tiktok_appeal: 75,
+    },
+    productPlacement: {
+      recommended_angles: ['Front, eye level', 'Three-quarter view'],
+      lighting_suggestions: ['Soft window light'],
+      focal_points: ['Logo', 'Cap'],
+    },
+    backgroundRecommendations: {
+      settings: ['Bathroom shelf', 'Marble countertop'],
+      props: ['Towel', 'Plant'],
+      style: 'minimalist',
+    },
+    images: imageUrls.map((url, index) => {
+      const hash = hashString(url);
+      return {
+        index: index + 1,
+        packaging_visibility: 40 + (hash % 60),
+        clutter: (hash >>> 8) % 60,
+        text_legibility: 40 + ((hash >>> 16) % 60),
+        notes: 'Fixture score',
+      };
+    }),
+  });
+}
+
+function createFixtureProvider(): VisionProvider {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    billable: false,
+    isConfigured: () => true,
+    complete: async request => ({
+      content: fixtureContent(request.imageUrls),
+      model: 'fixture',
+      usage: { prompt: 0, completion: 0 },
+    }),
+  };
+}
+
+export function createVisionProvider(config: VisionProviderConfig = getDefaultVisionConfig()): VisionProvider {
+  switch (config.provider) {
+    case 'fixture':
+      return createFixtureProvider();
+    case 'openai':
+      return createOpenAIProvider(config);
+    default:
+      throw new Error(`Unknown vision provider: ${config.provider}`);
+  }
+}
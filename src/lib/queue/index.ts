@@ -0,0 +1,289 @@
+import { Joker, PIPELINE_STEP_ORDER, getResumeStepSince } from '../joker';
+import { getPipelineEvents } from '../events';
+import { getPipelineRepository } from '../storage';
+import { getDataDir } from '../storage/fsUtils';
+import { dispatchWebhookEvent, deliverWebhookJob, WEBHOOK_MAX_ATTEMPTS } from '../webhooks';
+import type { AssemblyRenderer, BudgetPolicy, ComplianceOptions, ContentOptions, QueueJob, PipelineSteps, VideoGeneratorName, VisionProviderConfig, WebhookPayload } from '../types';
+import { JobQueue, EnqueueOptions } from './jobQueue';
+import { WorkerPool } from './workerPool';
+
+export { JobQueue } from './jobQueue';
+export type { EnqueueOptions } from './jobQueue';
+export { WorkerPool, NonRetryableJobError } from './workerPool';
+export type { JobHandler } from './workerPool';
+
+export interface PipelineJobData {
+  pipelineId: string;
+  productUrl: string;
+  budget?: BudgetPolicy;
+  variantCount?: number;
+  requireApproval?: boolean;
+  renderer?: AssemblyRenderer;
+  videoGenerator?: VideoGeneratorName;
+  productVariant?: string;
+  forceRefresh?: boolean;
+  contentOptions?: Partial<ContentOptions>;
+  brandProfileId?: string;
+  complianceOptions?: Partial<ComplianceOptions>;
+  vision?: Partial<VisionProviderConfig>;
+}
+
+export interface RetryJobData {
+  pipelineId: string;
+  fromStep?: keyof PipelineSteps;
+  budget?: BudgetPolicy;
+  renderer?: AssemblyRenderer;
+  videoGenerator?: VideoGeneratorName;
+  productVariant?: string;
+  forceRefresh?: boolean;
+  brandProfileId?: string;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type CancelResult = 'cancelled' | 'dequeued' | 'not_active';
+
+type QueueGlobal = typeof globalThis & {
+  __ugcJobQueue?: JobQueue;
+  __ugcWorkerPool?: WorkerPool;
+  __ugcWebhookPool?: WorkerPool;
+  __ugcActiveJokers?: Map<string, Joker>;
+};
+
+function getActiveJokers(): Map<string, Joker> {
+  const g = globalThis as QueueGlobal;
+  if (!g.__ugcActiveJokers) {
+    g.__ugcActiveJokers = new Map();
+  }
+  return g.__ugcActiveJokers;
+}
+
+async function runTracked(pipelineId: string, joker: Joker, run: () => Promise<unknown>): Promise<void> {
+  const active = getActiveJokers();
+  active.set(pipelineId, joker);
+
+  try {
+    await run();
+  } catch (error) {
+    // A cancelled run is a finished job, not a failure worth retrying
+    if (joker.isCancelled()) return;
+    throw error;
+  } finally {
+    if (active.get(pipelineId) === joker) {
+      active.delete(pipelineId);
+    }
+  }
+}
+
+export async function enqueueWebhookDelivery(deliveryId: string): Promise<QueueJob> {
+  const job = await getJobQueue().enqueue('webhook', { deliveryId }, {
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    priority: 10,
+  });
+  getWebhookPool().notify();
+  return job;
+}
+
+function publishWebhookEvent(payload: WebhookPayload): void {
+  dispatchWebhookEvent(payload, enqueueWebhookDelivery).catch(error => {
+    console.error(`[webhooks] Failed to dispatch ${payload.event}:`, error);
+  });
+}
+
+/**
+ * Where a job delivered again (after a crash left it active, or after a failed attempt)
+ * picks up: the first step its earlier attempts did not checkpoint, so finished steps are
+ * not paid for twice. `undefined` means start normally, `null` that nothing is left to run.
+ * Resumes without a `fromStep` already start after the last checkpoint and need neither.
+ */
+async function findRedeliveryStep(
+  job: QueueJob,
+  fromStep: keyof PipelineSteps = PIPELINE_STEP_ORDER[0]
+): Promise<keyof PipelineSteps | null | undefined> {
+  if (job.attempts <= 1) return undefined;
+
+  const stored = await getPipelineRepository().get(job.data.pipelineId);
+  if (!stored) return undefined;
+  // The first run paused for review; the approval resumes it
+  if (job.type === 'pipeline' && stored.state.status === 'awaiting_approval') return null;
+
+  const step = getResumeStepSince(stored.state, job.createdAt, fromStep);
+  return step === fromStep ? undefined : step;
+}
+
+async function handlePipelineJob(job: QueueJob): Promise<void> {
+  const data = job.data as PipelineJobData;
+  const events = getPipelineEvents();
+
+  const redeliveryStep = await findRedeliveryStep(job);
+  if (redeliveryStep === null) return;
+  if (redeliveryStep) {
+    console.log(`[queue] Pipeline ${data.pipelineId} was interrupted; resuming from ${redeliveryStep}`);
+    const resumed = await Joker.prepareResume(data.pipelineId, redeliveryStep, {
+      budget: data.budget,
+      repository: getPipelineRepository(),
+      onStateChange: state => events.publish(state),
+      onEvent: publishWebhookEvent,
+    });
+    await runTracked(data.pipelineId, resumed, () => resumed.run(resumed.getResumeFrom()));
+    return;
+  }
+
+  const joker = new Joker({
+    productUrl: data.productUrl,
+    pipelineId: data.pipelineId,
+    budget: data.budget,
+    variantCount: data.variantCount,
+    requireApproval: data.requireApproval,
+    renderer: data.renderer,
+    videoGenerator: data.videoGenerator,
+    productVariant: data.productVariant,
+    forceRefresh: data.forceRefresh,
+    contentOptions: data.contentOptions,
+    brandProfileId: data.brandProfileId,
+    complianceOptions: data.complianceOptions,
+    vision: data.vision,
+    repository: getPipelineRepository(),
+    onStateChange: state => events.publish(state),
+    onEvent: publishWebhookEvent,
+  });
+
+  await runTracked(data.pipelineId, joker, () => joker.run());
+}
+
+async function handleRetryJob(job: QueueJob): Promise<void> {
+  const data = job.data as RetryJobData;
+  const events = getPipelineEvents();
+
+  const redeliveryStep = data.fromStep ? await findRedeliveryStep(job, data.fromStep) : undefined;
+  if (redeliveryStep === null) return;
+  if (redeliveryStep) {
+    console.log(`[queue] Resume of ${data.pipelineId} was interrupted; continuing from ${redeliveryStep}`);
+  }
+
+  const joker = await Joker.prepareResume(data.pipelineId, redeliveryStep ?? data.fromStep, {
+    budget: data.budget,
+    renderer: data.renderer,
+    videoGenerator: data.videoGenerator,
+    productVariant: data.productVariant,
+    forceRefresh: data.forceRefresh,
+    brandProfileId: data.brandProfileId,
+    repository: getPipelineRepository(),
+    onStateChange: state => events.publish(state),
+    onEvent: publishWebhookEvent,
+  });
+
+  await runTracked(data.pipelineId, joker, () => joker.run(joker.getResumeFrom()));
+}
+
+async function handleCleanupJob(): Promise<void> {
+  const queue = getJobQueue();
+  const expiredPipelines = await getPipelineRepository().deleteExpired();
+  const prunedJobs = await queue.prune();
+
+  console.log(`[queue] Cleanup removed ${expiredPipelines} expired pipeline(s) and ${prunedJobs} finished job(s)`);
+
+  await queue.enqueue('cleanup', {}, { delayMs: CLEANUP_INTERVAL_MS, priority: -10 });
+}
+
+async function ensureCleanupScheduled(queue: JobQueue): Promise<void> {
+  const waiting = await queue.list({ type: 'cleanup' });
+  const hasPending = waiting.some(job => job.status === 'pending' || job.status === 'delayed' || job.status === 'active');
+  if (!hasPending) {
+    await queue.enqueue('cleanup', {}, { delayMs: CLEANUP_INTERVAL_MS, priority: -10 });
+  }
+}
+
+export function getJobQueue(): JobQueue {
+  const g = globalThis as QueueGlobal;
+  if (!g.__ugcJobQueue) {
+    g.__ugcJobQueue = new JobQueue(process.env.PIPELINE_QUEUE_FILE || getDataDir('queue.json'));
+  }
+  return g.__ugcJobQueue;
+}
+
+// Workers live in the Next.js server process; cached on globalThis so route reloads don't spawn duplicates
+export function getWorkerPool(): WorkerPool {
+  const g = globalThis as QueueGlobal;
+
+  if (!g.__ugcWorkerPool) {
+    const queue = getJobQueue();
+    const pool = new WorkerPool(queue, {
+      concurrency: Number(process.env.PIPELINE_WORKERS) || undefined,
+      types: ['pipeline', 'retry', 'cleanup'],
+    });
+
+    pool.register('pipeline', handlePipelineJob);
+    pool.register('retry', handleRetryJob);
+    pool.register('cleanup', handleCleanupJob);
+
+    g.__ugcWorkerPool = pool;
+    pool.start();
+
+    ensureCleanupScheduled(queue).catch(error => {
+      console.error('[queue] Failed to schedule cleanup job:', error);
+    });
+    getWebhookPool();
+  }
+
+  return g.__ugcWorkerPool;
+}
+
+// Separate pool so webhook deliveries never wait behind long-running pipelines
+export function getWebhookPool(): WorkerPool {
+  const g = globalThis as QueueGlobal;
+
+  if (!g.__ugcWebhookPool) {
+    const pool = new WorkerPool(getJobQueue(), {
+      concurrency: 4,
+      pollIntervalMs: 2000,
+      types: ['webhook'],
+    });
+    pool.register('webhook', deliverWebhookJob);
+    g.__ugcWebhookPool = pool;
+    pool.start();
+  }
+
+  return g.__ugcWebhookPool;
+}
+
+export async function enqueuePipeline(
+  data: PipelineJobData,
+  options: EnqueueOptions = {}
+): Promise<QueueJob> {
+  const job = await getJobQueue().enqueue('pipeline', data, options);
+  getWorkerPool().notify();
+  return job;
+}
+
+/** Returns null without enqueueing when the pipeline already has a queued or running job */
+export async function enqueueResume(
+  data: RetryJobData,
+  options: EnqueueOptions = {}
+): Promise<QueueJob | null> {
+  const job = await getJobQueue().enqueueForPipeline('retry', data, options);
+  if (job) {
+    getWorkerPool().notify();
+  }
+  return job;
+}
+
+/** Running in this process, or waiting in (or claimed from) the job queue */
+export async function isPipelineActive(pipelineId: string): Promise<boolean> {
+  return getActiveJokers().has(pipelineId) || Boolean(await getJobQueue().findOpenByPipelineId(pipelineId));
+}
+
+export async function cancelPipeline(pipelineId: string): Promise<CancelResult> {
+  const joker = getActiveJokers().get(pipelineId);
+  if (joker) {
+    joker.cancel();
+    return 'cancelled';
+  }
+
+  const job = await getJobQueue().findByPipelineId(pipelineId);
+  if (job && await getJobQueue().cancel(job.id)) {
+    return 'dequeued';
+  }
+
+  return 'not_active';
+}
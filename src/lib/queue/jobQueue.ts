@@ -0,0 +1,232 @@
+import type { QueueJob } from '../types';
+import { readJsonFile, writeFileAtomic } from '../storage/fsUtils';
+
+export interface EnqueueOptions {
+  priority?: number;
+  maxAttempts?: number;
+  delayMs?: number;
+  scheduledFor?: string;
+  id?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 1;
+const RETRY_DELAY_BASE = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+function generateJobId(): string {
+  return `job_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function isReady(job: QueueJob, now: number): boolean {
+  return (job.status === 'pending' || job.status === 'delayed') &&
+    new Date(job.scheduledFor).getTime() <= now;
+}
+
+function isOpen(job: QueueJob): boolean {
+  return job.status === 'pending' || job.status === 'delayed' || job.status === 'active';
+}
+
+function compareJobs(a: QueueJob, b: QueueJob): number {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  if (a.scheduledFor !== b.scheduledFor) {
+    return a.scheduledFor.localeCompare(b.scheduledFor);
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+export class JobQueue {
+  private jobs: QueueJob[] = [];
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const stored = await readJsonFile<QueueJob[]>(this.filePath);
+        this.jobs = (stored || []).map(job =>
+          // Jobs that were active when the process died get picked up again
+          job.status === 'active' ? { ...job, status: 'pending' as const } : job
+        );
+      })();
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.jobs, null, 2);
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(() => writeFileAtomic(this.filePath, snapshot));
+    return this.writeChain;
+  }
+
+  async enqueue(type: QueueJob['type'], data: any, options: EnqueueOptions = {}): Promise<QueueJob> {
+    await this.load();
+    const job = this.push(type, data, options);
+    await this.persist();
+    return { ...job };
+  }
+
+  /**
+   * Enqueues a job for `data.pipelineId` unless that pipeline already has a pending, delayed
+   * or active job. The check and the insert happen in the same tick, so two concurrent
+   * requests cannot both get through. Returns null when the pipeline is busy.
+   */
+  async enqueueForPipeline(
+    type: QueueJob['type'],
+    data: { pipelineId: string },
+    options: EnqueueOptions = {}
+  ): Promise<QueueJob | null> {
+    await this.load();
+    if (this.jobs.some(job => isOpen(job) && job.data?.pipelineId === data.pipelineId)) {
+      return null;
+    }
+    const job = this.push(type, data, options);
+    await this.persist();
+    return { ...job };
+  }
+
+  private push(type: QueueJob['type'], data: any, options: EnqueueOptions): QueueJob {
+    const now = Date.now();
+    const scheduledFor = options.scheduledFor
+      ? new Date(options.scheduledFor).toISOString()
+      : new Date(now + (options.delayMs || 0)).toISOString();
+
+    const job: QueueJob = {
+      id: options.id || generateJobId(),
+      type,
+      priority: options.priority ?? 0,
+      data,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      createdAt: new Date(now).toISOString(),
+      scheduledFor,
+      status: new Date(scheduledFor).getTime() > now ? 'delayed' : 'pending',
+    };
+
+    this.jobs.push(job);
+    return job;
+  }
+
+  async claimNext(types?: QueueJob['type'][]): Promise<QueueJob | null> {
+    await this.load();
+
+    const now = Date.now();
+    const next = this.jobs
+      .filter(job => isReady(job, now) && (!types || types.includes(job.type)))
+      .sort(compareJobs)[0];
+    if (!next) {
+      return null;
+    }
+
+    next.status = 'active';
+    next.attempts += 1;
+    next.startedAt = new Date().toISOString();
+    await this.persist();
+    return { ...next };
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.load();
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    job.status = 'completed';
+    job.finishedAt = new Date().toISOString();
+    await this.persist();
+  }
+
+  async fail(jobId: string, error: string, retryable: boolean = true): Promise<QueueJob | null> {
+    await this.load();
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job) return null;
+
+    job.lastError = error;
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delayMs = Math.min(RETRY_DELAY_BASE * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY);
+      job.status = 'delayed';
+      job.scheduledFor = new Date(Date.now() + delayMs).toISOString();
+    } else {
+      job.status = 'failed';
+      job.finishedAt = new Date().toISOString();
+    }
+
+    await this.persist();
+    return { ...job };
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    await this.load();
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || (job.status !== 'pending' && job.status !== 'delayed')) {
+      return false;
+    }
+
+    job.status = 'failed';
+    job.lastError = 'Cancelled before start';
+    job.finishedAt = new Date().toISOString();
+    await this.persist();
+    return true;
+  }
+
+  async get(jobId: string): Promise<QueueJob | null> {
+    await this.load();
+    const job = this.jobs.find(j => j.id === jobId);
+    return job ? { ...job } : null;
+  }
+
+  async findByPipelineId(pipelineId: string): Promise<QueueJob | null> {
+    await this.load();
+    const matches = this.jobs
+      .filter(job => job.data?.pipelineId === pipelineId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return matches[0] ? { ...matches[0] } : null;
+  }
+
+  /** The pipeline's pending, delayed or active job, if any */
+  async findOpenByPipelineId(pipelineId: string): Promise<QueueJob | null> {
+    await this.load();
+    const job = this.jobs.find(j => isOpen(j) && j.data?.pipelineId === pipelineId);
+    return job ? { ...job } : null;
+  }
+
+  async list(filter?: { status?: QueueJob['status']; type?: QueueJob['type'] }): Promise<QueueJob[]> {
+    await this.load();
+    return this.jobs
+      .filter(job => !filter?.status || job.status === filter.status)
+      .filter(job => !filter?.type || job.type === filter.type)
+      .sort(compareJobs)
+      .map(job => ({ ...job }));
+  }
+
+  async nextScheduledAt(types?: QueueJob['type'][]): Promise<number | null> {
+    await this.load();
+    const waiting = this.jobs
+      .filter(job => job.status === 'pending' || job.status === 'delayed')
+      .filter(job => !types || types.includes(job.type))
+      .map(job => new Date(job.scheduledFor).getTime());
+    return waiting.length > 0 ? Math.min(...waiting) : null;
+  }
+
+  async prune(maxAgeMs: number = FINISHED_JOB_RETENTION_MS): Promise<number> {
+    await this.load();
+    const cutoff = Date.now() - maxAgeMs;
+    const before = this.jobs.length;
+
+    this.jobs = this.jobs.filter(job =>
+      !job.finishedAt || new Date(job.finishedAt).getTime() >= cutoff
+    );
+
+    const removed = before - this.jobs.length;
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,128 @@
+import type { QueueJob } from '../types';
+import { JobQueue } from './jobQueue';
+
+export type JobHandler = (job: QueueJob) => Promise<void>;
+
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+interface WorkerPoolOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  /** Restrict this pool to some job types so slow jobs can't starve fast ones */
+  types?: QueueJob['type'][];
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL = 5000;
+
+export class WorkerPool {
+  private handlers: Partial<Record<QueueJob['type'], JobHandler>> = {};
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private types?: QueueJob['type'][];
+  private activeCount = 0;
+  private running = false;
+  private draining = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private queue: JobQueue, options: WorkerPoolOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL;
+    this.types = options.types;
+  }
+
+  register(type: QueueJob['type'], handler: JobHandler): void {
+    this.handlers[type] = handler;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.notify();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getActiveCount(): number {
+    return this.activeCount;
+  }
+
+  notify(): void {
+    if (!this.running || this.draining) return;
+    void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      while (this.running && this.activeCount < this.concurrency) {
+        const job = await this.queue.claimNext(this.types);
+        if (!job) break;
+
+        this.activeCount++;
+        void this.execute(job).finally(() => {
+          this.activeCount--;
+          this.notify();
+        });
+      }
+    } catch (error) {
+      console.error('[queue] Failed to claim next job:', error);
+    } finally {
+      this.draining = false;
+      await this.scheduleWakeup();
+    }
+  }
+
+  private async execute(job: QueueJob): Promise<void> {
+    const handler = this.handlers[job.type];
+
+    if (!handler) {
+      await this.queue.fail(job.id, `No handler registered for job type "${job.type}"`, false);
+      return;
+    }
+
+    try {
+      await handler(job);
+      await this.queue.complete(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof NonRetryableJobError);
+      const updated = await this.queue.fail(job.id, message, retryable);
+
+      console.warn(
+        `[queue] Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts} failed: ${message}` +
+        (updated?.status === 'delayed' ? `, retrying at ${updated.scheduledFor}` : '')
+      );
+    }
+  }
+
+  private async scheduleWakeup(): Promise<void> {
+    if (!this.running) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const nextAt = await this.queue.nextScheduledAt(this.types);
+    const waitMs = nextAt === null
+      ? this.pollIntervalMs
+      : Math.max(0, Math.min(nextAt - Date.now(), this.pollIntervalMs));
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.notify();
+    }, waitMs);
+    this.timer.unref?.();
+  }
+}
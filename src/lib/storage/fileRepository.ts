@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PipelineState, StoredPipeline } from '../types';
+import {
+  PipelineRepository,
+  DEFAULT_RETENTION_MS,
+  buildStoredPipeline,
+  isExpired,
+  snapshotState,
+} from './repository';
+import { ensureDir, readJsonFile, removeFile, writeJsonFile } from './fsUtils';
+
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class FilePipelineRepository implements PipelineRepository {
+  private headers = new Map<string, Pick<StoredPipeline, 'createdAt' | 'expiresAt'>>();
+  private pendingWrites = new Map<string, Promise<void>>();
+
+  constructor(
+    private directory: string,
+    private retentionMs: number = DEFAULT_RETENTION_MS
+  ) {}
+
+  private filePath(id: string): string {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid pipeline id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async readRecord(id: string): Promise<StoredPipeline | null> {
+    await this.pendingWrites.get(id);
+    const record = await readJsonFile<StoredPipeline>(this.filePath(id));
+    if (record) {
+      this.headers.set(id, { createdAt: record.createdAt, expiresAt: record.expiresAt });
+    }
+    return record;
+  }
+
+  async save(state: PipelineState): Promise<StoredPipeline> {
+    // Snapshot before any await so later mutations of the live state don't leak into this write
+    const snapshot = snapshotState(state);
+
+    let header = this.headers.get(state.id);
+    if (!header) {
+      const existing = await this.readRecord(state.id);
+      header = existing ? { createdAt: existing.createdAt, expiresAt: existing.expiresAt } : undefined;
+    }
+
+    const record = buildStoredPipeline(snapshot, header || null, this.retentionMs);
+    this.headers.set(record.id, { createdAt: record.createdAt, expiresAt: record.expiresAt });
+
+    const previous = this.pendingWrites.get(record.id) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath(record.id), record));
+
+    this.pendingWrites.set(record.id, write);
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(record.id) === write) {
+        this.pendingWrites.delete(record.id);
+      }
+    }
+
+    return record;
+  }
+
+  async get(id: string): Promise<StoredPipeline | null> {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      return null;
+    }
+    const record = await this.readRecord(id);
+    if (!record || isExpired(record)) {
+      return null;
+    }
+    return record;
+  }
+
+  async list(): Promise<StoredPipeline[]> {
+    const records = await this.readAll();
+    return records
+      .filter(record => !isExpired(record))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      return false;
+    }
+    await this.pendingWrites.get(id);
+    this.headers.delete(id);
+    return removeFile(this.filePath(id));
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const records = await this.readAll();
+    let removed = 0;
+
+    for (const record of records) {
+      if (isExpired(record, now) && await this.delete(record.id)) {
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private async readAll(): Promise<StoredPipeline[]> {
+    await ensureDir(this.directory);
+    const files = await fs.readdir(this.directory);
+    const records: StoredPipeline[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const record = await this.readRecord(path.basename(file, '.json'));
+        if (record) {
+          records.push(record);
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable pipeline record ${file}:`, error);
+      }
+    }
+
+    return records;
+  }
+}
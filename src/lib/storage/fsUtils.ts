@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_DATA_DIR = path.join(process.cwd(), '.data');
+
+export function getDataDir(...segments: string[]): string {
+  const baseDir = process.env.UGC_DATA_DIR || DEFAULT_DATA_DIR;
+  return path.join(baseDir, ...segments);
+}
+
+export async function ensureDir(dir: string): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await ensureDir(path.dirname(filePath));
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, content, 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
+
+export async function removeFile(filePath: string): Promise<boolean> {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
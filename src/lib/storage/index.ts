@@ -0,0 +1,81 @@
+import { FilePipelineRepository } from './fileRepository';
+import { getDataDir } from './fsUtils';
+import {
+  PipelineRepository,
+  InMemoryPipelineRepository,
+  DEFAULT_RETENTION_MS,
+} from './repository';
+
+export type { PipelineRepository } from './repository';
+export { InMemoryPipelineRepository } from './repository';
+export { FilePipelineRepository } from './fileRepository';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+type RepositoryGlobal = typeof globalThis & {
+  __ugcPipelineRepository?: PipelineRepository;
+  __ugcPipelineSweeper?: () => void;
+};
+
+function getRetentionMs(): number {
+  const hours = Number(process.env.PIPELINE_RETENTION_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : DEFAULT_RETENTION_MS;
+}
+
+function createRepository(): PipelineRepository {
+  const backend = process.env.PIPELINE_STORE || 'file';
+  const retentionMs = getRetentionMs();
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryPipelineRepository(retentionMs);
+    case 'file':
+      return new FilePipelineRepository(
+        process.env.PIPELINE_STORE_DIR || getDataDir('pipelines'),
+        retentionMs
+      );
+    default:
+      throw new Error(`Unknown PIPELINE_STORE backend: ${backend}`);
+  }
+}
+
+export function startExpirySweeper(
+  repository: PipelineRepository,
+  intervalMs: number = SWEEP_INTERVAL_MS
+): () => void {
+  const sweep = async () => {
+    try {
+      const removed = await repository.deleteExpired();
+      if (removed > 0) {
+        console.log(`[storage] Removed ${removed} expired pipeline record(s)`);
+      }
+    } catch (error) {
+      console.error('[storage] Expiry sweep failed:', error);
+    }
+  };
+
+  void sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
+
+// Cached on globalThis so Next.js dev-mode module reloads share one repository
+export function getPipelineRepository(): PipelineRepository {
+  const g = globalThis as RepositoryGlobal;
+
+  if (!g.__ugcPipelineRepository) {
+    g.__ugcPipelineRepository = createRepository();
+    g.__ugcPipelineSweeper = startExpirySweeper(g.__ugcPipelineRepository);
+  }
+
+  return g.__ugcPipelineRepository;
+}
+
+export function setPipelineRepository(repository: PipelineRepository): void {
+  const g = globalThis as RepositoryGlobal;
+  g.__ugcPipelineSweeper?.();
+  g.__ugcPipelineRepository = repository;
+  g.__ugcPipelineSweeper = startExpirySweeper(repository);
+}
@@ -0,0 +1,77 @@
+import { readJsonFile, writeFileAtomic } from './fsUtils';
+
+/**
+ * Small file-backed collection for configuration-sized data (webhook endpoints, delivery logs, ...).
+ * The whole collection is kept in memory and rewritten atomically on every change.
+ */
+export class JsonCollection<T extends { id: string }> {
+  private items: T[] = [];
+  private loaded: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, private maxItems?: number) {}
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<T[]>(this.filePath).then(stored => {
+        this.items = stored || [];
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    if (this.maxItems && this.items.length > this.maxItems) {
+      this.items = this.items.slice(this.items.length - this.maxItems);
+    }
+
+    const snapshot = JSON.stringify(this.items, null, 2);
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(() => writeFileAtomic(this.filePath, snapshot));
+    return this.writeChain;
+  }
+
+  async list(predicate?: (item: T) => boolean): Promise<T[]> {
+    await this.load();
+    return (predicate ? this.items.filter(predicate) : this.items).map(item => ({ ...item }));
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load();
+    const item = this.items.find(i => i.id === id);
+    return item ? { ...item } : null;
+  }
+
+  async upsert(item: T): Promise<T> {
+    await this.load();
+    const index = this.items.findIndex(i => i.id === item.id);
+    if (index >= 0) {
+      this.items[index] = item;
+    } else {
+      this.items.push(item);
+    }
+    await this.persist();
+    return { ...item };
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<T | null> {
+    await this.load();
+    const index = this.items.findIndex(i => i.id === id);
+    if (index < 0) return null;
+
+    this.items[index] = { ...this.items[index], ...changes, id };
+    await this.persist();
+    return { ...this.items[index] };
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+    const before = this.items.length;
+    this.items = this.items.filter(i => i.id !== id);
+    if (this.items.length === before) return false;
+
+    await this.persist();
+    return true;
+  }
+}
@@ -0,0 +1,77 @@
+import type { PipelineState, StoredPipeline } from '../types';
+
+export interface PipelineRepository {
+  save(state: PipelineState): Promise<StoredPipeline>;
+  get(id: string): Promise<StoredPipeline | null>;
+  list(): Promise<StoredPipeline[]>;
+  delete(id: string): Promise<boolean>;
+  deleteExpired(now?: Date): Promise<number>;
+}
+
+export const DEFAULT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function buildStoredPipeline(
+  state: PipelineState,
+  existing: Pick<StoredPipeline, 'createdAt' | 'expiresAt'> | null,
+  retentionMs: number
+): StoredPipeline {
+  const now = new Date();
+  const createdAt = existing?.createdAt || now.toISOString();
+
+  return {
+    id: state.id,
+    state,
+    createdAt,
+    updatedAt: now.toISOString(),
+    expiresAt: existing?.expiresAt || new Date(new Date(createdAt).getTime() + retentionMs).toISOString(),
+  };
+}
+
+export function snapshotState(state: PipelineState): PipelineState {
+  return JSON.parse(JSON.stringify(state)) as PipelineState;
+}
+
+export function isExpired(record: StoredPipeline, now: Date = new Date()): boolean {
+  return new Date(record.expiresAt).getTime() <= now.getTime();
+}
+
+export class InMemoryPipelineRepository implements PipelineRepository {
+  private records = new Map<string, StoredPipeline>();
+
+  constructor(private retentionMs: number = DEFAULT_RETENTION_MS) {}
+
+  async save(state: PipelineState): Promise<StoredPipeline> {
+    const record = buildStoredPipeline(snapshotState(state), this.records.get(state.id) || null, this.retentionMs);
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  async get(id: string): Promise<StoredPipeline | null> {
+    const record = this.records.get(id);
+    if (!record || isExpired(record)) {
+      return null;
+    }
+    return record;
+  }
+
+  async list(): Promise<StoredPipeline[]> {
+    return Array.from(this.records.values())
+      .filter(record => !isExpired(record))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of Array.from(this.records.entries())) {
+      if (isExpired(record, now)) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -1,6 +1,10 @@
 import { create } from 'zustand';
-import { PipelineStepStatus, PipelineSteps, CostBreakdown, PipelineLog } from '@/lib/types';
+import { PipelineStepStatus, PipelineSteps, CostBreakdown, PipelineLog, MarketingAngle } from '@/lib/types';
 
+interface PendingApproval {
+  pipelineId: string;
+  angles: MarketingAngle[];
+}
 
 interface PipelineStore {
   status: 'idle' | 'running' | 'success' | 'failed';
@@ -11,6 +15,7 @@ interface PipelineStore {
   costs: CostBreakdown;
   currentStep: StepName | null;
   steps: PipelineSteps;
+  pendingApproval: PendingApproval | null;
   
   setStatus: (status: 'idle' | 'running' | 'success' | 'failed') => void;
   setProgress: (progress: number) => void;
@@ -22,6 +27,7 @@ interface PipelineStore {
   setCurrentStep: (step: StepName | null) => void;
   setSteps: (steps: Partial<PipelineSteps>) => void;
   updateStepStatus: (step: StepName, status: Partial<PipelineStepStatus>) => void;
+  setPendingApproval: (approval: PendingApproval | null) => void;
   reset: () => void;
 }
 
@@ -37,7 +43,9 @@ const initialSteps: PipelineSteps = {
   scraping: { ...initialStepStatus },
   vision: { ...initialStepStatus },
   background: { ...initialStepStatus },
+  reviews: { ...initialStepStatus },
   content: { ...initialStepStatus },
+  compliance: { ...initialStepStatus },
   video: { ...initialStepStatus },
   assembly: { ...initialStepStatus },
 };
@@ -61,6 +69,7 @@ export const usePipelineStore = create<PipelineStore>((set) => ({
   costs: initialCosts,
   currentStep: null,
   steps: initialSteps,
+  pendingApproval: null,
 
   setStatus: (status) => set({ status }),
 
@@ -99,6 +108,8 @@ export const usePipelineStore = create<PipelineStore>((set) => ({
     },
   })),
 
+  setPendingApproval: (pendingApproval) => set({ pendingApproval }),
+
   reset: () => set({
     status: 'idle',
     progress: 0,
@@ -108,5 +119,6 @@ export const usePipelineStore = create<PipelineStore>((set) => ({
     costs: initialCosts,
     currentStep: null,
     steps: initialSteps,
+    pendingApproval: null,
   }),
 }));
\ No newline at end of file
@@ -1,24 +1,120 @@
 // Pipeline types
+export interface ProductReview {
+  author: string;
+  rating: number;
+  text: string;
+  date?: string;
+}
+
+export interface ProductVariant {
+  id: string;
+  sku?: string;
+  /** Option values joined for display, e.g. "Red / M" */
+  title: string;
+  /** Option name → value, e.g. { Color: 'Red', Size: 'M' } */
+  options: Record<string, string>;
+  /** Omitted when the page only prices the default variant */
+  price?: number;
+  available?: boolean;
+  image?: string;
+}
+
 export interface ProductData {
   name: string;
-  price: string;
+  price: number;
   currency: string;
   description: string;
-  ingredients: string[];
+  ingredients: string;
   images: string[];
-  reviews: { author: string; rating: number; text: string }[];
+  reviews: ProductReview[];
+  rating: number;
+  reviewCount: number;
   url: string;
-  brand: string;
-  category: string;
+  brand?: string;
+  category?: string;
+  variants?: ProductVariant[];
+  /** Set on the copy handed to downstream steps when a variant is featured */
+  selectedVariant?: ProductVariant;
+  scrapedAt: string;
+  /** "apify", "direct" or the site adapter that produced the data */
+  source: string;
+  /** Where each field came from */
+  fieldSources?: Partial<Record<string, ProductFieldSource>>;
+}
+
+export type ProductFieldSource = 'json-ld' | 'microdata' | 'opengraph' | 'selector' | 'platform';
+
+/** Computed locally with sharp; scores are 0-100 */
+export interface ImageMetrics {
+  width: number;
+  height: number;
+  aspectRatio: number;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  vibrancy: number;
+  /** Hex colours, largest cluster first */
+  dominantColors: string[];
+  accentColors: string[];
+}
+
+/** How well one candidate image works as the hero shot; every score is 0-100 */
+export interface ImageAnalysis {
+  url: string;
+  packagingVisibility: number;
+  resolution: number;
+  /** Higher means a busier frame */
+  clutter: number;
+  textLegibility: number;
+  /** Weighted blend of the scores above */
+  heroScore: number;
+  width?: number;
+  height?: number;
+  notes?: string;
+  metrics?: ImageMetrics;
+  /** Set when the image could not be downloaded or analyzed */
+  error?: string;
 }
 
 export interface VisionAnalysis {
-  packagingScore: number;
-  colorPalette: string[];
-  visualHooks: string[];
-  productPlacement: string;
-  backgroundSuggestion: string;
-  tiktokAngle: string;
+  packagingQuality: {
+    score: number;
+    analysis: string;
+    strengths: string[];
+    weaknesses: string[];
+  };
+  colorPalette: {
+    dominant: string[];
+    accent: string[];
+    mood: string;
+    vibrancy: number;
+  };
+  visualHooks: {
+    hooks: string[];
+    engagementPotential: number;
+    tiktokAppeal: number;
+  };
+  productPlacement: {
+    recommendedAngles: string[];
+    lightingSuggestions: string[];
+    focalPoints: string[];
+  };
+  backgroundRecommendations: {
+    settings: string[];
+    props: string[];
+    style: string;
+  };
+  /** Best image for background removal and overlays */
+  heroImage: string;
+  /** One entry per candidate image, in scraped order */
+  images: ImageAnalysis[];
+  metadata: {
+    completenessScore: number;
+    confidence: number;
+    estimatedCost: number;
+    timestamp: string;
+    model: string;
+  };
 }
 
 export interface MarketingAngle {
@@ -28,6 +124,8 @@ export interface MarketingAngle {
   script: string;
   targetAudience: string;
   tone: string;
+  /** BCP 47 tag the hook and script are written in */
+  locale?: string;
   qualityScore: number;
   estimatedEngagement: string;
 }
@@ -52,7 +150,9 @@ export interface PipelineSteps {
   scraping: PipelineStepStatus;
   vision: PipelineStepStatus;
   background: PipelineStepStatus;
+  reviews: PipelineStepStatus;
   content: PipelineStepStatus;
+  compliance: PipelineStepStatus;
   video: PipelineStepStatus;
   assembly: PipelineStepStatus;
 }
@@ -61,16 +161,202 @@ export interface CostBreakdown {
   scraping: number;
   vision: number;
   background: number;
+  reviews: number;
   content: number;
+  compliance: number;
   video: number;
   assembly: number;
   total: number;
 }
 
+export type CostProvider = 'apify' | 'openai' | 'removebg' | 'mistral' | 'vidgo' | 'shotstack';
+
+export interface BudgetPolicy {
+  maxPerPipeline?: number;
+  maxPerDay?: number;
+  /** Daily cap per provider */
+  maxPerProvider?: Partial<Record<CostProvider, number>>;
+}
+
+export interface BudgetEvent {
+  step: keyof PipelineSteps;
+  provider: CostProvider;
+  action: 'aborted' | 'downgraded';
+  limit: 'pipeline' | 'day' | 'provider';
+  cap: number;
+  projected: number;
+  message: string;
+  timestamp: string;
+}
+
+export interface CostLedgerEntry {
+  id: string;
+  /** null for calls made outside a pipeline run */
+  pipelineId: string | null;
+  step: keyof PipelineSteps | null;
+  provider: CostProvider;
+  units: number;
+  unitPrice: number;
+  cost: number;
+  tokens?: {
+    prompt: number;
+    completion: number;
+  };
+  /** Served from the scrape cache: cost is 0 and units * unitPrice is what was saved */
+  cached?: boolean;
+  timestamp: string;
+}
+
+export interface CostSummary {
+  total: number;
+  entryCount: number;
+  byPipeline: Record<string, number>;
+  byProvider: Partial<Record<CostProvider, number>>;
+  /** Keyed by UTC date (YYYY-MM-DD) */
+  byDay: Record<string, number>;
+  cacheHits: number;
+  /** What the cached calls would have cost */
+  cacheSavings: number;
+}
+
+export interface CostReportResponse extends ApiResponse<CostLedgerEntry[]> {
+  summary: CostSummary;
+}
+
+export type VariantStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/** One rendered video per marketing angle, so hooks can be A/B tested */
+export interface VideoVariant {
+  id: string;
+  angleId: string;
+  hook: string;
+  steps: {
+    video: VariantStepStatus;
+    assembly: VariantStepStatus;
+  };
+  videoResult: VideoGenResult | null;
+  /** Backend that produced videoResult, which may be a fallback */
+  generator?: VideoGeneratorName;
+  finalVideoUrl?: string;
+  costs: {
+    video: number;
+    assembly: number;
+    total: number;
+  };
+  error?: string;
+}
+
+export type AssemblyRenderer = 'shotstack' | 'ffmpeg';
+
+export type VideoGeneratorName = 'vidgo' | 'slideshow';
+
+export type ContentPlatform = 'tiktok' | 'instagram_reels' | 'youtube_shorts' | 'facebook_reels' | 'snapchat_spotlight';
+
+/** What the content step asks Mistral for */
+export interface ContentOptions {
+  /** Marketing angles to generate, 1-10 */
+  angleCount: number;
+  /** Allowed tones, lower-case; free text such as "asmr" or "before/after" is fine */
+  tones: string[];
+  platforms: ContentPlatform[];
+  /** Spoken length of each script */
+  durationSeconds: { min: number; max: number };
+  /** BCP 47 tag the hooks, scripts, prices and captions are written for, e.g. "es-MX" */
+  locale: string;
+}
+
+export type ComplianceSeverity = 'block' | 'warn';
+
+export type ComplianceField = 'hook' | 'script';
+
+export interface ComplianceRule {
+  /** Lower-case slug, e.g. "health-claims" */
+  id: string;
+  /** What the rule catches; for "llm" rules this is also what the judge is told to look for */
+  description: string;
+  /** "pattern" rules are regexes checked locally; "llm" rules are judged by Mistral */
+  type: 'pattern' | 'llm';
+  /** Case-insensitive regex source, for "pattern" rules */
+  pattern?: string;
+  /** "forbid" flags a match, "require" flags text with no match; defaults to "forbid" */
+  match?: 'forbid' | 'require';
+  fields: ComplianceField[];
+  /** Only "block" violations can stop video generation */
+  severity: ComplianceSeverity;
+}
+
+/** Rule set and blocking behaviour of the compliance step */
+export interface ComplianceOptions {
+  /** Keep angles with "block" violations out of video generation */
+  blockOnViolation: boolean;
+  rules: ComplianceRule[];
+}
+
+export interface ComplianceViolation {
+  ruleId: string;
+  severity: ComplianceSeverity;
+  field: ComplianceField;
+  message: string;
+  /** The offending text, when the rule matched something */
+  excerpt?: string;
+}
+
+export interface AngleComplianceResult {
+  angleId: string;
+  /** No "block" violations */
+  passed: boolean;
+  violations: ComplianceViolation[];
+}
+
+export interface ComplianceReport {
+  checkedAt: string;
+  /** Every angle passed */
+  passed: boolean;
+  angles: AngleComplianceResult[];
+  /** False when the LLM-judged rules were skipped (budget) or the judge failed */
+  judged: boolean;
+  judgeError?: string;
+}
+
+export type ReviewThemeKind = 'benefit' | 'complaint' | 'use_case';
+
+/** Customer words exactly as written in a scraped review */
+export interface ReviewQuote {
+  text: string;
+  author: string;
+  rating: number;
+}
+
+export interface ReviewTheme {
+  kind: ReviewThemeKind;
+  /** Short name, e.g. "Softer hair" */
+  label: string;
+  summary: string;
+  /** Reviews that mention the theme */
+  mentions: number;
+  quotes: ReviewQuote[];
+}
+
+/** What the reviews step found, strongest themes first */
+export interface ReviewAnalysis {
+  analyzedAt: string;
+  reviewCount: number;
+  themes: ReviewTheme[];
+  /** "mistral", or "local" for the keyword clustering used when Mistral is unavailable */
+  source: 'mistral' | 'local';
+}
+
+export interface PipelineApproval {
+  status: 'pending' | 'approved' | 'rejected';
+  requestedAt: string;
+  decidedAt?: string;
+  note?: string;
+}
+
 export interface PipelineState {
   id: string;
   productUrl: string;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'awaiting_approval' | 'completed' | 'failed' | 'cancelled';
   currentStep: keyof PipelineSteps | null;
   steps: PipelineSteps;
   productData: ProductData | null;
@@ -83,7 +369,45 @@ export interface PipelineState {
   startTime: string | null;
   endTime: string | null;
   logs: PipelineLog[];
-}
+  error?: string;
+  transparentImageUrl?: string;
+  finalVideoUrl?: string;
+  qualityGates: StepQualityGate[];
+  checkpoints?: PipelineCheckpoints;
+  budgetEvents?: BudgetEvent[];
+  /** This run's spend per provider, from its ledger entries; script steps may bill either LLM provider */
+  providerCosts?: Partial<Record<CostProvider, number>>;
+  /** Pause before video generation until a reviewer approves the angles */
+  requireApproval?: boolean;
+  approval?: PipelineApproval;
+  renderer?: AssemblyRenderer;
+  videoGenerator?: VideoGeneratorName;
+  /** Product variant to feature: id, SKU or option values such as "Red / M" */
+  productVariant?: string;
+  /** Number of marketing angles to render; defaults to 1 */
+  variantCount?: number;
+  contentOptions?: ContentOptions;
+  /** Themes and quotes mined from the scraped reviews; null when there were none */
+  reviewAnalysis?: ReviewAnalysis | null;
+  /** Brand profile the scripts are written for; loaded when the content step runs */
+  brandProfileId?: string;
+  /** Vision provider overrides for this run; unset fields follow VISION_* */
+  visionConfig?: Partial<VisionProviderConfig>;
+  complianceOptions?: ComplianceOptions;
+  /** Per-angle result of the compliance step */
+  compliance?: ComplianceReport;
+  variants?: VideoVariant[];
+}
+
+export interface StepQualityGate {
+  step: keyof PipelineSteps;
+  passed: boolean;
+  confidence: number;
+  threshold: number;
+}
+
+/** ISO timestamp of when each step's output was saved; used to resume failed runs. */
+export type PipelineCheckpoints = Partial<Record<keyof PipelineSteps, string>>;
 
 export interface PipelineLog {
   timestamp: string;
@@ -110,8 +434,22 @@ export interface PipelineResponse extends ApiResponse<PipelineState> {
   pipelineId: string;
 }
 
+export interface JobResponse extends ApiResponse<QueueJob> {
+  pipelineId: string;
+}
+
 export interface StatusResponse extends ApiResponse<PipelineState> {
   pipelineId: string;
+  job?: QueueJob;
+}
+
+export interface PipelineListResponse extends ApiResponse<PipelineState[]> {
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
 }
 
 export interface ApifyScraperResult {
@@ -234,7 +572,23 @@ export interface RemoveBgResponse {
   };
 }
 
+export type VisionProviderName = 'openai' | 'fixture';
+
+/** Text LLMs for scripts and the checks run on them; "local" is any OpenAI-compatible server */
+export type ScriptProviderName = 'mistral' | 'openai' | 'local' | 'stub';
+
+export type VisionImageDetail = 'low' | 'high' | 'auto';
+
+export interface VisionProviderConfig {
+  provider: VisionProviderName;
+  model: string;
+  detail: VisionImageDetail;
+  /** OpenAI-compatible endpoint for self-hosted models */
+  baseUrl?: string;
+}
+
 export interface PipelineConfig {
+  vision: VisionProviderConfig;
   qualityGates: {
     vision: QualityGate;
     scripts: QualityGate;
@@ -270,13 +624,69 @@ export interface ValidationError extends Error {
   constraints: string[];
 }
 
+export type WebhookEvent =
+  | 'pipeline.started'
+  | 'pipeline.awaiting_approval'
+  | 'pipeline.completed'
+  | 'pipeline.failed'
+  | 'step.completed'
+  | 'step.failed';
+
 export interface WebhookPayload {
-  event: 'pipeline.started' | 'pipeline.completed' | 'pipeline.failed' | 'step.completed' | 'step.failed';
+  event: WebhookEvent;
   pipelineId: string;
   timestamp: string;
+  step?: keyof PipelineSteps;
   data: PipelineState | PipelineStepStatus;
 }
 
+export type EmojiPolicy = 'none' | 'sparing' | 'free';
+
+/** Saved brand voice that script generation follows and the brand checker enforces */
+export interface BrandProfile {
+  id: string;
+  name: string;
+  /** Free-text description of how the brand sounds */
+  voice: string;
+  /** Words and phrases that must never appear in a hook or script */
+  bannedWords: string[];
+  /** Claims every script must make, verbatim */
+  mandatoryClaims: string[];
+  /** Appended to any script that doesn't already contain them */
+  disclaimers: string[];
+  /** Every script must use one of these calls to action */
+  preferredCtas: string[];
+  exampleScripts: string[];
+  emojiPolicy: EmojiPolicy;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  description?: string;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  pipelineId: string;
+  payload: WebhookPayload;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+}
+
 export interface StoredPipeline {
   id: string;
   state: PipelineState;
@@ -287,7 +697,7 @@ export interface StoredPipeline {
 
 export interface QueueJob {
   id: string;
-  type: 'pipeline' | 'retry' | 'cleanup';
+  type: 'pipeline' | 'retry' | 'cleanup' | 'webhook';
   priority: number;
   data: any;
   attempts: number;
@@ -295,6 +705,9 @@ export interface QueueJob {
   createdAt: string;
   scheduledFor: string;
   status: 'pending' | 'active' | 'completed' | 'failed' | 'delayed';
+  startedAt?: string;
+  finishedAt?: string;
+  lastError?: string;
 }
 
 export interface PipelineMetrics {
@@ -399,6 +812,13 @@ export function createInitialPipelineState(productUrl: string): PipelineState {
         completedAt: null,
         error: null,
       },
+      reviews: {
+        status: 'pending',
+        progress: 0,
+        startedAt: null,
+        completedAt: null,
+        error: null,
+      },
       content: {
         status: 'pending',
         progress: 0,
@@ -406,6 +826,13 @@ export function createInitialPipelineState(productUrl: string): PipelineState {
         completedAt: null,
         error: null,
       },
+      compliance: {
+        status: 'pending',
+        progress: 0,
+        startedAt: null,
+        completedAt: null,
+        error: null,
+      },
       video: {
         status: 'pending',
         progress: 0,
@@ -439,6 +866,7 @@ export function createInitialPipelineState(productUrl: string): PipelineState {
     startTime: null,
     endTime: null,
     logs: [],
+    qualityGates: [],
   };
 }
 
@@ -10,6 +10,15 @@ export function formatCost(amount: number): string {
   return `$${amount.toFixed(4)}`;
 }
 
+/** Price in the shop's currency, written the way `locale` writes money ("19,99 €" for de-DE) */
+export function formatPrice(amount: number, currency: string = 'USD', locale: string = 'en-US'): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
 export function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
@@ -50,7 +59,9 @@ export function getStepIcon(stepName: string): string {
     scraping: '🌐',
     vision: '👁️',
     background: '🎨',
+    reviews: '💬',
     content: '✍️',
+    compliance: '🛡️',
     video: '🎬',
     assembly: '🔧',
     scrape: '🌐',
@@ -84,7 +95,9 @@ export function getStepDisplayName(stepKey: keyof PipelineSteps): string {
     scraping: 'Product Scraping',
     vision: 'Vision Analysis',
     background: 'Background Removal',
+    reviews: 'Review Mining',
     content: 'Content Generation',
+    compliance: 'Compliance Check',
     video: 'Video Generation',
     assembly: 'Final Assembly',
   };
@@ -97,7 +110,9 @@ export function getStepDescription(stepKey: keyof PipelineSteps): string {
     scraping: 'Extracting product data from URL',
     vision: 'Analyzing product images with AI',
     background: 'Removing image backgrounds',
+    reviews: 'Finding themes and quotes in customer reviews',
     content: 'Generating marketing scripts',
+    compliance: 'Checking scripts against advertising rules',
     video: 'Creating video from script',
     assembly: 'Assembling final video with layers',
   };
@@ -110,7 +125,9 @@ export function calculateProgress(steps: PipelineSteps): number {
     'scraping',
     'vision',
     'background',
+    'reviews',
     'content',
+    'compliance',
     'video',
     'assembly',
   ];
@@ -173,7 +190,9 @@ export function estimateTimeRemaining(
     'scraping',
     'vision',
     'background',
+    'reviews',
     'content',
+    'compliance',
     'video',
     'assembly',
   ];
@@ -214,7 +233,8 @@ export function isProductUrl(url: string): boolean {
     /aliexpress\./i,
     /etsy\./i,
     /shopify\./i,
-    /\/product\//i,
+    /\/products?\//i,
+    /\/listing\//i,
     /\/item\//i,
     /\/p\//i,
     /\/dp\//i,
@@ -279,6 +299,29 @@ export function chunkArray<T>(array: T[], chunkSize: number): T[][] {
   return chunks;
 }
 
+/**
+ * Like Promise.all over `items`, but with at most `limit` calls of `fn` in flight.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   waitMs: number
@@ -0,0 +1,265 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { JsonCollection } from '../storage/jsonCollection';
+import { getDataDir } from '../storage/fsUtils';
+import type {
+  QueueJob,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookPayload,
+} from '../types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'pipeline.started',
+  'pipeline.awaiting_approval',
+  'pipeline.completed',
+  'pipeline.failed',
+  'step.completed',
+  'step.failed',
+];
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const DELIVERY_TIMEOUT = 10000;
+const MAX_DELIVERY_LOG = 1000;
+const MAX_RESPONSE_SNIPPET = 500;
+
+export const SIGNATURE_HEADER = 'X-UGC-Signature';
+export const TIMESTAMP_HEADER = 'X-UGC-Timestamp';
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+type WebhookGlobal = typeof globalThis & {
+  __ugcWebhookEndpoints?: JsonCollection<WebhookEndpoint>;
+  __ugcWebhookDeliveries?: JsonCollection<WebhookDelivery>;
+};
+
+type EnqueueDelivery = (deliveryId: string) => Promise<unknown>;
+
+function getEndpointStore(): JsonCollection<WebhookEndpoint> {
+  const g = globalThis as WebhookGlobal;
+  if (!g.__ugcWebhookEndpoints) {
+    g.__ugcWebhookEndpoints = new JsonCollection(getDataDir('webhooks', 'endpoints.json'));
+  }
+  return g.__ugcWebhookEndpoints;
+}
+
+function getDeliveryStore(): JsonCollection<WebhookDelivery> {
+  const g = globalThis as WebhookGlobal;
+  if (!g.__ugcWebhookDeliveries) {
+    g.__ugcWebhookDeliveries = new JsonCollection(getDataDir('webhooks', 'deliveries.json'), MAX_DELIVERY_LOG);
+  }
+  return g.__ugcWebhookDeliveries;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Signature over `${timestamp}.${body}` so receivers can reject replays of old payloads.
+ */
+export function signPayload(secret: string, body: string, timestamp: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function maskSecret(endpoint: WebhookEndpoint): WebhookEndpoint {
+  return { ...endpoint, secret: `${endpoint.secret.slice(0, 10)}…` };
+}
+
+function assertKnownEvents(events: WebhookEvent[]): void {
+  const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown webhook event(s): ${unknown.join(', ')}`);
+  }
+}
+
+export async function registerEndpoint(input: {
+  url: string;
+  events?: WebhookEvent[];
+  secret?: string;
+  description?: string;
+}): Promise<WebhookEndpoint> {
+  const url = new URL(input.url);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+
+  const events = input.events && input.events.length > 0 ? input.events : WEBHOOK_EVENTS;
+  assertKnownEvents(events);
+
+  return getEndpointStore().upsert({
+    id: generateId('wh'),
+    url: url.toString(),
+    secret: input.secret || `whsec_${randomBytes(24).toString('hex')}`,
+    events,
+    active: true,
+    description: input.description,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export function listEndpoints(): Promise<WebhookEndpoint[]> {
+  return getEndpointStore().list();
+}
+
+export function getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+  return getEndpointStore().get(id);
+}
+
+/** Throws on an empty or unknown event list, like registerEndpoint */
+export function updateEndpoint(
+  id: string,
+  changes: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'active' | 'description'>>
+): Promise<WebhookEndpoint | null> {
+  if (changes.events !== undefined) {
+    if (changes.events.length === 0) {
+      throw new Error('events must not be empty');
+    }
+    assertKnownEvents(changes.events);
+  }
+  return getEndpointStore().update(id, changes);
+}
+
+export function removeEndpoint(id: string): Promise<boolean> {
+  return getEndpointStore().remove(id);
+}
+
+export function listDeliveries(filter: {
+  endpointId?: string;
+  pipelineId?: string;
+  status?: WebhookDelivery['status'];
+} = {}): Promise<WebhookDelivery[]> {
+  return getDeliveryStore()
+    .list(delivery =>
+      (!filter.endpointId || delivery.endpointId === filter.endpointId) &&
+      (!filter.pipelineId || delivery.pipelineId === filter.pipelineId) &&
+      (!filter.status || delivery.status === filter.status)
+    )
+    .then(deliveries => deliveries.reverse());
+}
+
+export function getDelivery(id: string): Promise<WebhookDelivery | null> {
+  return getDeliveryStore().get(id);
+}
+
+/**
+ * Records one delivery per subscribed endpoint and hands each to the queue for sending.
+ */
+export async function dispatchWebhookEvent(
+  payload: WebhookPayload,
+  enqueue: EnqueueDelivery
+): Promise<WebhookDelivery[]> {
+  const endpoints = await getEndpointStore().list(
+    endpoint => endpoint.active && endpoint.events.includes(payload.event)
+  );
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const endpoint of endpoints) {
+    const delivery = await getDeliveryStore().upsert({
+      id: generateId('dlv'),
+      endpointId: endpoint.id,
+      event: payload.event,
+      pipelineId: payload.pipelineId,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    });
+    await enqueue(delivery.id);
+    deliveries.push(delivery);
+  }
+
+  return deliveries;
+}
+
+export async function redeliver(deliveryId: string, enqueue: EnqueueDelivery): Promise<WebhookDelivery> {
+  const original = await getDeliveryStore().get(deliveryId);
+  if (!original) {
+    throw new Error(`Delivery ${deliveryId} not found`);
+  }
+
+  const delivery = await getDeliveryStore().upsert({
+    ...original,
+    id: generateId('dlv'),
+    status: 'pending',
+    attempts: 0,
+    responseStatus: undefined,
+    error: undefined,
+    lastAttemptAt: undefined,
+    redeliveryOf: original.id,
+    createdAt: new Date().toISOString(),
+  });
+
+  await enqueue(delivery.id);
+  return delivery;
+}
+
+/**
+ * Queue handler for `webhook` jobs. Throwing lets the queue retry with backoff;
+ * the delivery is only marked failed once the job has used its last attempt.
+ */
+export async function deliverWebhookJob(job: QueueJob): Promise<void> {
+  const deliveries = getDeliveryStore();
+  const delivery = await deliveries.get(job.data.deliveryId);
+  if (!delivery || delivery.status === 'succeeded') return;
+
+  const endpoint = await getEndpointStore().get(delivery.endpointId);
+  if (!endpoint || !endpoint.active) {
+    await deliveries.update(delivery.id, { status: 'failed', error: 'Endpoint removed or disabled' });
+    return;
+  }
+
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attemptAt = new Date().toISOString();
+
+  try {
+    const response = await axios.post(endpoint.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ugc-video-factory-webhooks/1.0',
+        'X-UGC-Event': delivery.event,
+        'X-UGC-Delivery': delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signPayload(endpoint.secret, body, timestamp),
+      },
+      timeout: DELIVERY_TIMEOUT,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      const snippet = typeof response.data === 'string'
+        ? response.data.slice(0, MAX_RESPONSE_SNIPPET)
+        : JSON.stringify(response.data ?? '').slice(0, MAX_RESPONSE_SNIPPET);
+      throw new WebhookDeliveryError(`Endpoint responded with HTTP ${response.status}: ${snippet}`, response.status);
+    }
+
+    await deliveries.update(delivery.id, {
+      status: 'succeeded',
+      attempts: job.attempts,
+      responseStatus: response.status,
+      error: undefined,
+      lastAttemptAt: attemptAt,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isFinalAttempt = job.attempts >= job.maxAttempts;
+
+    await deliveries.update(delivery.id, {
+      status: isFinalAttempt ? 'failed' : 'pending',
+      attempts: job.attempts,
+      responseStatus: error instanceof WebhookDeliveryError ? error.statusCode : undefined,
+      error: message,
+      lastAttemptAt: attemptAt,
+    });
+
+    throw error;
+  }
+}